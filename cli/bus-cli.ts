@@ -7,6 +7,11 @@ import { ConfigManager } from '../src/mcp-server/config.js';
 import { RegistryClient } from '../src/mcp-server/registry-client.js';
 import { FileTransferManager } from '../src/mcp-server/file-transfer.js';
 import { MessageScheduler } from '../src/mcp-server/scheduler.js';
+import { KeyStore, generateEncryptionKeyPair } from '../src/mcp-server/encryption.js';
+import { generateSigningKeyPair, keyChangePayload, signPayload } from '../src/mcp-server/signing.js';
+import { MessageSearch } from '../src/mcp-server/search.js';
+import { MessageArchive } from '../src/mcp-server/archive.js';
+import { writeFileSync } from 'fs';
 import { homedir } from 'os';
 import { join } from 'path';
 
@@ -16,6 +21,9 @@ const bus = new MessageBus(db);
 const configManager = new ConfigManager();
 const fileManager = new FileTransferManager(db, join(homedir(), '.config', 'opencode', 'agent-bus', 'files'));
 const scheduler = new MessageScheduler(db, bus);
+const keyStore = new KeyStore();
+const messageSearch = new MessageSearch(db);
+const messageArchive = new MessageArchive(db);
 
 program
   .name('agent-bus')
@@ -30,11 +38,18 @@ program
   .option('-a, --agent <id>', 'Agent ID', 'cli-user')
   .option('-s, --session <id>', 'Session ID', `cli-${Date.now()}`)
   .option('-p, --priority <number>', 'Message priority', '0')
+  .option('-t, --content-type <type>', 'Content type (text, json, acp, binary-base64)', 'text')
+  .option('-z, --compress <algorithm>', 'Compress the content (auto, gzip, br)')
   .action((channel, message, options) => {
     const msg = bus.sendMessage(channel, options.agent, options.session, message, {
-      priority: parseInt(options.priority)
+      priority: parseInt(options.priority),
+      contentType: options.contentType,
+      compression: options.compress
     });
     console.log('✅ Message sent:', msg.id);
+    if (msg.content_encoding !== 'identity') {
+      console.log(`   Compressed with ${msg.content_encoding}: ${msg.content_size} → ${msg.stored_size} bytes`);
+    }
   });
 
 program
@@ -44,10 +59,11 @@ program
   .option('-a, --agent <id>', 'Agent ID', 'cli-user')
   .option('-l, --limit <number>', 'Max messages', '10')
   .action((channel, options) => {
-    const messages = bus.getMessages(channel, {
+    const messages = bus.decodeMessages(bus.decryptMessages(bus.getMessages(channel, {
       limit: parseInt(options.limit),
-      excludeSender: options.agent
-    });
+      excludeSender: options.agent,
+      reader: options.agent
+    }), options.agent, keyStore.loadPrivateKeys(options.agent)));
     
     if (messages.length === 0) {
       console.log('📭 No messages');
@@ -69,9 +85,110 @@ program
   .argument('<message>', 'Message content')
   .option('-a, --agent <id>', 'Your agent ID', 'cli-user')
   .option('-s, --session <id>', 'Session ID', `cli-${Date.now()}`)
+  .option('-e, --encrypt', 'Encrypt for the recipient (requires a published key)')
   .action((to, message, options) => {
-    const msg = bus.sendDirectMessage(options.agent, to, options.session, message);
-    console.log(`✅ DM sent to ${to}:`, msg.id);
+    const msg = bus.sendDirectMessage(options.agent, to, options.session, message, { encrypt: options.encrypt });
+    console.log(`✅ DM sent to ${to}${msg.encrypted ? ' (encrypted)' : ''}:`, msg.id);
+  });
+
+program
+  .command('keys')
+  .description('Generate key pairs in the local key store and publish the public keys')
+  .option('-a, --agent <id>', 'Agent ID', 'cli-user')
+  .option('-r, --rotate', 'Replace published keys; signed with the current signing key from the key store')
+  .action((options) => {
+    const agentId: string = options.agent;
+    const existing = bus.getPublicKey(agentId);
+    if (existing?.signing_public_key && !options.rotate) {
+      console.log(`🔑 ${agentId} already has published keys (${existing.key_algorithm}, ${existing.signing_algorithm}). Use --rotate to replace them.`);
+      return;
+    }
+
+    // Keys published before signing existed only need the signing half
+    const encryption = existing && !options.rotate ? null : generateEncryptionKeyPair();
+    const signing = generateSigningKeyPair();
+    const currentSigningKey = keyStore.loadPrivateKey(agentId, 'signing');
+    const signature = existing?.signing_public_key && currentSigningKey
+      ? signPayload(keyChangePayload(agentId, encryption?.publicKey ?? null, signing.publicKey), currentSigningKey)
+      : undefined;
+
+    const key = bus.publishAgentKeys(agentId, { publicKey: encryption?.publicKey, signingPublicKey: signing.publicKey }, signature);
+    if (encryption) {
+      keyStore.savePrivateKey(agentId, encryption.privateKey);
+    }
+    keyStore.savePrivateKey(agentId, signing.privateKey, 'signing');
+    console.log(`🔑 Published keys for ${agentId} (${key.key_algorithm}, ${key.signing_algorithm})`);
+  });
+
+program
+  .command('search')
+  .description('Full-text search across message history')
+  .argument('<query>', 'Search query (FTS5 syntax)')
+  .option('-a, --agent <id>', 'Agent ID to search as', 'cli-user')
+  .option('-c, --channel <name>', 'Only search this channel')
+  .option('--sender <id>', 'Only messages from this agent')
+  .option('-t, --type <type>', 'Message type (broadcast, direct, request, response)')
+  .option('--acp-type <type>', 'ACP message type (e.g. TASK_COMPLETE)')
+  .option('--since <timestamp>', 'Only messages at or after this time')
+  .option('--until <timestamp>', 'Only messages at or before this time')
+  .option('-l, --limit <number>', 'Max results', '20')
+  .action((query, options) => {
+    const results = messageSearch.search(query, {
+      channel: options.channel,
+      sender: options.sender,
+      messageType: options.type,
+      acpType: options.acpType,
+      since: options.since,
+      until: options.until,
+      limit: parseInt(options.limit),
+      reader: options.agent
+    });
+
+    if (results.length === 0) {
+      console.log('🔍 No matches');
+      return;
+    }
+
+    console.log(`🔍 ${results.length} match(es):\n`);
+    results.forEach((r, i) => {
+      console.log(`${i + 1}. [${r.channel}] ${r.sender_agent}${r.acp_type ? ` (${r.acp_type})` : ''}: ${r.snippet}`);
+      console.log(`   ID: ${r.id}`);
+      console.log(`   Time: ${r.created_at}\n`);
+    });
+  });
+
+program
+  .command('export')
+  .description('Export archived (expired or acknowledged) messages')
+  .option('-c, --channel <name>', 'Only export this channel')
+  .option('--sender <id>', 'Only messages from this agent')
+  .option('--since <timestamp>', 'Only messages at or after this time')
+  .option('--until <timestamp>', 'Only messages at or before this time')
+  .option('-f, --format <format>', 'Output format (jsonl, json)', 'jsonl')
+  .option('-o, --output <file>', 'Write to a file instead of stdout')
+  .action((options) => {
+    if (options.format !== 'jsonl' && options.format !== 'json') {
+      console.error(`❌ Unknown format: ${options.format}`);
+      process.exit(1);
+    }
+
+    // Exports read the whole archive, so no reader filter is applied
+    const messages = messageArchive.query({
+      channel: options.channel,
+      sender: options.sender,
+      since: options.since,
+      until: options.until
+    });
+    const output = options.format === 'json'
+      ? JSON.stringify(messages, null, 2) + '\n'
+      : messages.map(m => JSON.stringify(m) + '\n').join('');
+
+    if (options.output) {
+      writeFileSync(options.output, output);
+      console.log(`📦 Exported ${messages.length} archived message(s) to ${options.output}`);
+    } else {
+      process.stdout.write(output);
+    }
   });
 
 program
@@ -166,38 +283,166 @@ program
   .description('Schedule a recurring message')
   .argument('<channel>', 'Channel name')
   .argument('<message>', 'Message content')
-  .argument('<schedule>', 'Schedule (interval:60 or at:2026-01-21T12:00:00Z)')
+  .argument('<schedule>', 'Schedule (cron expression such as "0 9 * * 1-5", interval:60 or at:2026-01-21T12:00:00Z)')
   .option('-a, --agent <id>', 'Agent ID', 'cli-user')
   .option('-s, --session <id>', 'Session ID', `cli-${Date.now()}`)
+  .option('-z, --timezone <zone>', 'IANA timezone for cron schedules (default: local)')
+  .option('-m, --misfire <policy>', 'Missed runs: fire_once, fire_all or skip', 'fire_once')
+  .option('-n, --max <count>', 'Stop after this many sends')
   .action((channel, message, schedule, options) => {
     const recurring = scheduler.createRecurring(
       channel,
       options.agent,
       options.session,
       message,
-      schedule
+      schedule,
+      {
+        timezone: options.timezone,
+        misfirePolicy: options.misfire,
+        maxOccurrences: options.max === undefined ? undefined : parseInt(options.max, 10)
+      }
     );
     console.log('✅ Scheduled message:', recurring.id);
     console.log(`   Next send: ${recurring.next_send_at}`);
   });
 
 program
+  .command('schedule-task')
+  .description('Create an orchestrator task on a schedule')
+  .argument('<title>', 'Task title (may use placeholders such as {{date}})')
+  .argument('<schedule>', 'Schedule (cron expression such as "0 2 * * *", interval:3600 or at:2026-01-21T02:00:00Z)')
+  .option('-a, --agent <id>', 'Agent ID (creator of the tasks)', 'cli-user')
+  .option('-s, --session <id>', 'Session ID', `cli-${Date.now()}`)
+  .option('-d, --description <text>', 'Task description (may use placeholders)')
+  .option('-t, --tags <tags>', 'Comma-separated required skills')
+  .option('-p, --priority <n>', 'Task priority', '0')
+  .option('--assign <agent>', 'Agent to assign each task to, or "auto"')
+  .option('-z, --timezone <zone>', 'IANA timezone for cron schedules (default: local)')
+  .option('-n, --max <count>', 'Stop after creating this many tasks')
+  .action((title, schedule, options) => {
+    const recurring = scheduler.createTaskSchedule(
+      options.agent,
+      options.session,
+      {
+        title,
+        description: options.description,
+        tags: options.tags ? options.tags.split(',').map((tag: string) => tag.trim()) : undefined,
+        priority: parseInt(options.priority, 10),
+        assign_to: options.assign
+      },
+      schedule,
+      {
+        timezone: options.timezone,
+        maxOccurrences: options.max === undefined ? undefined : parseInt(options.max, 10)
+      }
+    );
+    console.log('✅ Scheduled task:', recurring.id);
+    console.log(`   Next run: ${recurring.next_send_at}`);
+  });
+
+const scheduled = program
   .command('scheduled')
+  .description('List and manage scheduled messages');
+
+scheduled
+  .command('list', { isDefault: true })
   .description('List scheduled messages')
   .option('-a, --agent <id>', 'Filter by agent ID')
+  .option('-c, --channel <name>', 'Filter by channel')
   .action((options) => {
-    const messages = scheduler.listScheduled(options.agent);
+    const messages = scheduler.listScheduled(options.agent, undefined, options.channel);
     console.log(`⏰ ${messages.length} scheduled message(s):\n`);
     messages.forEach(m => {
       console.log(`  • ${m.id}`);
       console.log(`    Channel: ${m.channel}`);
-      console.log(`    Content: ${m.content_template}`);
-      console.log(`    Schedule: ${m.schedule_cron || `interval:${m.schedule_interval_seconds}s`}`);
+      console.log(`    ${m.action === 'task' ? 'Task' : 'Content'}: ${m.content_template}`);
+      console.log(`    Schedule: ${m.schedule_cron || `interval:${m.schedule_interval_seconds}s`}${m.timezone ? ` (${m.timezone})` : ''}`);
       console.log(`    Next send: ${m.next_send_at}`);
+      console.log(`    Last run: ${m.last_outcome ? `${m.last_outcome} at ${m.last_run_at}` : 'never'}`);
+      console.log(`    Runs: ${m.run_count}${m.max_occurrences ? `/${m.max_occurrences}` : ''} sent, ${m.missed_count} missed (${m.misfire_policy})`);
+      if (m.expires_at) {
+        console.log(`    Expires: ${m.expires_at}`);
+      }
       console.log(`    Enabled: ${m.enabled ? 'Yes' : 'No'}\n`);
     });
   });
 
+scheduled
+  .command('update')
+  .description('Edit a scheduled message, keeping its ID')
+  .argument('<id>', 'Schedule ID')
+  .option('-a, --agent <id>', 'Agent ID', 'cli-user')
+  .option('-m, --message <content>', 'New message content')
+  .option('-s, --schedule <schedule>', 'New schedule (cron expression, interval:N or at:timestamp)')
+  .option('-c, --channel <name>', 'New channel')
+  .option('-e, --expires <timestamp>', 'New expiry, or "never" to remove it')
+  .option('-z, --timezone <zone>', 'New IANA timezone for cron schedules')
+  .option('-n, --max <count>', 'Stop after this many sends, or "none" to remove the limit')
+  .action((id, options) => {
+    const updated = scheduler.updateScheduled(id, options.agent, {
+      content: options.message,
+      schedule: options.schedule,
+      channel: options.channel,
+      expiresAt: options.expires === 'never' ? null : options.expires,
+      timezone: options.timezone,
+      maxOccurrences: options.max === undefined ? undefined : options.max === 'none' ? null : parseInt(options.max, 10)
+    });
+    if (!updated) {
+      console.log(`❌ Schedule ${id} not found for agent ${options.agent}`);
+      return;
+    }
+    console.log('✅ Updated:', updated.id);
+    console.log(`   Next send: ${updated.next_send_at}`);
+  });
+
+scheduled
+  .command('pause')
+  .description('Pause a scheduled message')
+  .argument('<id>', 'Schedule ID')
+  .option('-a, --agent <id>', 'Agent ID', 'cli-user')
+  .action((id, options) => {
+    const success = scheduler.pauseScheduled(id, options.agent);
+    console.log(success ? `⏸️  Paused ${id}` : `❌ Schedule ${id} not found for agent ${options.agent}`);
+  });
+
+scheduled
+  .command('resume')
+  .description('Resume a paused scheduled message')
+  .argument('<id>', 'Schedule ID')
+  .option('-a, --agent <id>', 'Agent ID', 'cli-user')
+  .action((id, options) => {
+    if (!scheduler.resumeScheduled(id, options.agent)) {
+      console.log(`❌ Schedule ${id} not found for agent ${options.agent}`);
+      return;
+    }
+    console.log(`▶️  Resumed ${id}`);
+    console.log(`   Next send: ${scheduler.getRecurringMessage(id)?.next_send_at}`);
+  });
+
+scheduled
+  .command('cancel')
+  .description('Cancel a scheduled message')
+  .argument('<id>', 'Schedule ID')
+  .option('-a, --agent <id>', 'Agent ID', 'cli-user')
+  .action((id, options) => {
+    const success = scheduler.cancelScheduled(id, options.agent);
+    console.log(success ? `🗑️  Cancelled ${id}` : `❌ Schedule ${id} not found for agent ${options.agent}`);
+  });
+
+scheduled
+  .command('runs')
+  .description('Show the recent runs of a scheduled message')
+  .argument('<id>', 'Schedule ID')
+  .option('-l, --limit <n>', 'Number of runs', '20')
+  .action((id, options) => {
+    const runs = scheduler.getRunHistory(id, parseInt(options.limit, 10));
+    console.log(`📜 ${runs.length} run(s) of ${id}:\n`);
+    runs.forEach(r => {
+      const detail = [r.message_id ?? r.task_id, r.error].filter(Boolean).join('  ');
+      console.log(`  • ${r.scheduled_for}  ${r.outcome}${detail ? `  ${detail}` : ''}`);
+    });
+  });
+
 program
   .command('discover')
   .description('Discover servers from registry')
@@ -63,6 +63,7 @@ Agents can assume one or more of the following roles:
 - **Observer**: Monitors activity without actively participating
 
 Roles can be transferred dynamically via the ROLE_TRANSFER message type.
+On restricted channels they map onto \`bus_channel_acl\` roles: coordinator=owner, worker=publisher, observer=observer.
 
 ### 2. Message Types
 
@@ -155,13 +156,16 @@ bus_send(
 )
 \`\`\`
 
-#### Step 3: Coordinator Tallies Results
+#### Step 3: Bus Tallies Results
 
-Once quorum is reached or deadline passes:
+\`bus_get_consensus_result(correlation_id=...)\` reports the running tally. Each agent has one vote, and its latest vote counts. Once every target agent has voted or the deadline passes, the decision is published as a \`STATUS_UPDATE\` with \`status: "consensus_decided"\`:
 
-- **AGREE majority**: Implement proposal
-- **DISAGREE majority**: Reject proposal
-- **SUGGEST_CHANGES majority**: Iterate on proposal
+- **AGREE majority**: Implement proposal (\`approved\`)
+- **DISAGREE majority**: Reject proposal (\`rejected\`)
+- **SUGGEST_CHANGES majority**: Iterate on proposal (\`changes_requested\`)
+- **No majority**: \`no_consensus\`; **quorum not met**: \`no_quorum\`
+
+Pass \`threshold="supermajority"\` to require two thirds of the votes instead of a simple majority.
 
 ### 5. Task Handoff Automation
 
@@ -0,0 +1,107 @@
+import type Database from 'better-sqlite3';
+import type { Message } from './database.js';
+import type { RecipientStatus } from './bus.js';
+import { decodeContent } from './content.js';
+
+export interface ArchivedMessage extends Message {
+  recipients: RecipientStatus[];
+  acknowledgements: { agent_id: string; acknowledged_at: string }[];
+  archive_reason: 'expired' | 'acknowledged' | 'evicted';
+  archived_at: string;
+  purge_after: string | null;
+}
+
+export interface ArchiveQueryOptions {
+  channel?: string;
+  sender?: string;
+  threadId?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  offset?: number;
+  // Agent reading the archive; restricted channels and addressed messages
+  // are only returned if this agent can read them. null reads anonymously.
+  reader?: string | null;
+}
+
+/**
+ * Read access to messages that cleanupExpiredMessages moved out of the live
+ * messages table, and purging of archived rows past their channel's retention.
+ */
+export class MessageArchive {
+  private db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  query(options: ArchiveQueryOptions = {}): ArchivedMessage[] {
+    let sql = 'SELECT * FROM messages_archive a WHERE 1 = 1';
+    const params: (string | number)[] = [];
+
+    if (options.channel) {
+      sql += ' AND a.channel = ?';
+      params.push(options.channel);
+    }
+    if (options.sender) {
+      sql += ' AND a.sender_agent = ?';
+      params.push(options.sender);
+    }
+    if (options.threadId) {
+      sql += ' AND (a.thread_id = ? OR a.id = ?)';
+      params.push(options.threadId, options.threadId);
+    }
+    if (options.since) {
+      sql += ' AND datetime(a.created_at) >= datetime(?)';
+      params.push(options.since);
+    }
+    if (options.until) {
+      sql += ' AND datetime(a.created_at) <= datetime(?)';
+      params.push(options.until);
+    }
+
+    if (options.reader !== undefined) {
+      // An anonymous reader matches no ACL entry, sender or recipient
+      const reader = options.reader ?? '';
+      sql += `
+        AND (
+          NOT EXISTS (SELECT 1 FROM channel_acl c WHERE c.channel = a.channel)
+          OR EXISTS (SELECT 1 FROM channel_acl c WHERE c.channel = a.channel AND c.agent_id = ?)
+        )
+        AND (
+          a.sender_agent = ?
+          OR json_array_length(a.recipients) = 0
+          OR EXISTS (SELECT 1 FROM json_each(a.recipients) r WHERE json_extract(r.value, '$.agent_id') = ?)
+        )
+      `;
+      params.push(reader, reader, reader);
+    }
+
+    sql += ' ORDER BY a.created_at ASC, a.rowid ASC';
+
+    if (options.limit !== undefined) {
+      sql += ' LIMIT ? OFFSET ?';
+      params.push(options.limit, options.offset ?? 0);
+    }
+
+    const rows = this.db.prepare(sql).all(...params) as (Omit<ArchivedMessage, 'recipients' | 'acknowledgements'> & {
+      recipients: string;
+      acknowledgements: string;
+    })[];
+    return rows.map(row => ({
+      ...row,
+      content: decodeContent(row.content, row.content_encoding),
+      content_encoding: 'identity',
+      recipients: JSON.parse(row.recipients),
+      acknowledgements: JSON.parse(row.acknowledgements)
+    }));
+  }
+
+  purgeExpired(): number {
+    const stmt = this.db.prepare(`
+      DELETE FROM messages_archive
+      WHERE purge_after IS NOT NULL AND datetime(purge_after) < datetime('now')
+    `);
+    return stmt.run().changes;
+  }
+}
@@ -1,5 +1,17 @@
 import type Database from 'better-sqlite3';
-import { generateMessageId, type Message, type Agent, type Channel } from './database.js';
+import { EventEmitter } from 'events';
+import { generateMessageId, indexCompressedMessage, toSqliteDatetime, type Message, type Agent, type Channel } from './database.js';
+import { decodeContent, encodeContent, validateContent, type CompressionAlgorithm, type ContentType } from './content.js';
+import {
+  describeEncryptionKey,
+  openContent,
+  sealContent,
+  validateSealedContent,
+  type SealedContent,
+  type SealedForRecipient
+} from './encryption.js';
+import { SIGNATURE_MAX_AGE_SECONDS, describeSigningKey, keyChangePayload, signingPayload, verifyPayload, type SignedFields } from './signing.js';
+import type { AgentRole } from './acp-protocol.js';
 
 export interface DeadLetter {
   id: string;
@@ -12,10 +24,18 @@ export interface DeadLetter {
   retry_count: number;
   max_retries: number;
   next_retry_at: string | null;
+  retry_message_id: string | null;
   failed_at: string;
   resolved_at: string | null;
 }
 
+export interface AgentCapabilities {
+  tags: string[];
+  languages: string[];
+  tools: string[];
+  max_concurrency: number;
+}
+
 export interface RecipientStatus {
   agent_id: string;
   delivered_at: string | null;
@@ -27,26 +47,288 @@ export interface DeliveryStatus {
   recipients: RecipientStatus[];
 }
 
+export interface AgentKey {
+  agent_id: string;
+  public_key: string;
+  key_algorithm: string;
+  created_at: string;
+  expires_at: string | null;
+  signing_public_key: string | null;
+  signing_algorithm: string | null;
+}
+
+export type ChannelRole = 'owner' | 'publisher' | 'subscriber' | 'observer';
+export type ChannelAction = 'read' | 'subscribe' | 'respond' | 'publish' | 'manage';
+
+export interface ChannelAclEntry {
+  channel: string;
+  agent_id: string;
+  role: ChannelRole;
+  granted_by: string;
+  granted_at: string;
+}
+
+export const CHANNEL_ROLES: ChannelRole[] = ['owner', 'publisher', 'subscriber', 'observer'];
+
+// Subscribers may answer requests but not start conversations; observers only read
+const CHANNEL_ROLE_PERMISSIONS: Record<ChannelRole, ChannelAction[]> = {
+  owner: ['read', 'subscribe', 'respond', 'publish', 'manage'],
+  publisher: ['read', 'subscribe', 'respond', 'publish'],
+  subscriber: ['read', 'subscribe', 'respond'],
+  observer: ['read']
+};
+
+export const CHANNEL_ROLE_FOR_AGENT_ROLE: Record<AgentRole, ChannelRole> = {
+  coordinator: 'owner',
+  worker: 'publisher',
+  observer: 'observer'
+};
+
+export type ThreadNode<T extends Message = Message> = T & { replies: ThreadNode<T>[] };
+
+export interface MessageThread<T extends Message = Message> {
+  thread_id: string;
+  count: number;
+  messages: T[];
+}
+
+export type VerifiedMessage<T extends Message = Message> = T & { verified: boolean };
+
+export type OverflowPolicy = Channel['overflow_policy'];
+export const OVERFLOW_POLICIES: OverflowPolicy[] = ['drop_oldest', 'reject', 'dead_letter'];
+
+// Fields left undefined are unchanged; null removes a limit
+export interface ChannelPolicy {
+  maxMessages?: number | null;
+  maxTotalBytes?: number | null;
+  maxMessageBytes?: number | null;
+  ackRetentionSeconds?: number | null;
+  archiveRetentionSeconds?: number | null;
+  overflowPolicy?: OverflowPolicy;
+}
+
+export interface GetMessagesOptions {
+  limit?: number;
+  since?: string;
+  unacknowledgedOnly?: boolean;
+  excludeSender?: string;
+  // Agent whose own acknowledgements unacknowledgedOnly is evaluated against.
+  // Without it, any agent's acknowledgement hides the message.
+  consumer?: string;
+  // Agent the channel ACL and recipient lists are checked for; null is an
+  // anonymous reader, which restricted channels refuse and which only sees
+  // unaddressed messages. Omitted for the bus's own reads.
+  reader?: string | null;
+}
+
+export interface AcknowledgementEvent {
+  message_id: string;
+  agent_id: string;
+}
+
+export interface BusEvents {
+  message: Message;
+  acknowledged: AcknowledgementEvent;
+  response: Message;
+}
+
+export type BusEventListener<E extends keyof BusEvents> = (payload: BusEvents[E]) => void;
+
+// Stored in messages.content for encrypted messages; the ciphertext lives in encrypted_messages
+export const ENCRYPTED_PLACEHOLDER = '[encrypted]';
+
+// Created with every database and shared by all agents, so they can't be restricted
+export const SYSTEM_CHANNELS = ['global', 'coordination', 'status', 'errors'];
+
+export const DEFAULT_ARCHIVE_RETENTION_SECONDS = 30 * 24 * 3600;
+// Messages without a TTL move to the archive this long after their last acknowledgement,
+// unless the channel sets ack_retention_seconds
+const ACKNOWLEDGED_ARCHIVE_DELAY_SECONDS = 3600;
+
+// Acknowledged by everyone it was meant for: each of its recipients if it was addressed,
+// each consumer group on its channel if groups leased it, otherwise each agent subscribed
+// to its channel. messages.acknowledged_at only records the first acknowledgement.
+const FULLY_ACKNOWLEDGED_CONDITION = `(
+  EXISTS (SELECT 1 FROM message_acks a WHERE a.message_id = messages.id)
+  AND CASE
+    WHEN EXISTS (SELECT 1 FROM message_recipients r WHERE r.message_id = messages.id) THEN NOT EXISTS (
+      SELECT 1 FROM message_recipients r
+      WHERE r.message_id = messages.id AND r.agent_id != messages.sender_agent
+        AND NOT EXISTS (SELECT 1 FROM message_acks a WHERE a.message_id = messages.id AND a.agent_id = r.agent_id)
+    )
+    WHEN EXISTS (SELECT 1 FROM message_leases l WHERE l.message_id = messages.id) THEN NOT EXISTS (
+      SELECT 1 FROM consumer_groups g
+      WHERE g.channel = messages.channel
+        AND NOT EXISTS (
+          SELECT 1 FROM message_leases l
+          WHERE l.message_id = messages.id AND l.channel = g.channel AND l.group_name = g.group_name
+            AND l.acknowledged_at IS NOT NULL
+        )
+    )
+    ELSE NOT EXISTS (
+      SELECT 1 FROM agents s, json_each(s.subscribed_channels) c
+      WHERE json_valid(s.subscribed_channels) AND c.value = messages.channel AND s.agent_id != messages.sender_agent
+        AND NOT EXISTS (SELECT 1 FROM message_acks a WHERE a.message_id = messages.id AND a.agent_id = s.agent_id)
+    )
+  END
+)`;
+
+// Bytes a message takes up towards max_total_bytes: its stored content, or its ciphertext
+const MESSAGE_BYTES = 'COALESCE(length(CAST(e.encrypted_content AS BLOB)), length(CAST(m.content AS BLOB)))';
+
+const DEFAULT_DEAD_LETTER_MAX_RETRIES = 3;
+const DEAD_LETTER_BASE_DELAY_SECONDS = 30;
+const DEAD_LETTER_MAX_DELAY_SECONDS = 3600;
+
+// A message counts as delivered once any agent acknowledged it or, for requests, answered it
+const DELIVERED_CONDITION = `(
+  EXISTS (SELECT 1 FROM message_acks a WHERE a.message_id = m.id)
+  OR (m.message_type = 'request' AND EXISTS (
+    SELECT 1 FROM messages r WHERE r.correlation_id = m.correlation_id AND r.message_type = 'response'
+  ))
+)`;
+
+// Messages with a recipient list are only visible to those recipients and the sender.
+// Binds the reading agent twice.
+export function visibleToAgentCondition(messageRef: string): string {
+  return `(
+    ${messageRef}.sender_agent = ?
+    OR NOT EXISTS (SELECT 1 FROM message_recipients r WHERE r.message_id = ${messageRef}.id)
+    OR EXISTS (SELECT 1 FROM message_recipients r WHERE r.message_id = ${messageRef}.id AND r.agent_id = ?)
+  )`;
+}
+
+/**
+ * Nests messages under the message they reply to. Messages whose parent is
+ * missing (expired, or hidden from the reader) become roots.
+ */
+export function buildThreadTree<T extends Message>(messages: T[]): ThreadNode<T>[] {
+  const nodes = new Map<string, ThreadNode<T>>(messages.map(m => [m.id, { ...m, replies: [] }]));
+  const roots: ThreadNode<T>[] = [];
+  for (const node of nodes.values()) {
+    const parent = node.reply_to ? nodes.get(node.reply_to) : undefined;
+    if (parent) {
+      parent.replies.push(node);
+    } else {
+      roots.push(node);
+    }
+  }
+  return roots;
+}
+
+// Groups messages by conversation, in order of each thread's first message
+export function groupByThread<T extends Message>(messages: T[]): MessageThread<T>[] {
+  const threads = new Map<string, T[]>();
+  for (const message of messages) {
+    const threadId = message.thread_id ?? message.id;
+    threads.set(threadId, [...(threads.get(threadId) ?? []), message]);
+  }
+  return [...threads].map(([threadId, threadMessages]) => ({
+    thread_id: threadId,
+    count: threadMessages.length,
+    messages: threadMessages.sort((a, b) => a.created_at.localeCompare(b.created_at))
+  }));
+}
+
+export function deadLetterBackoffSeconds(retryCount: number): number {
+  return Math.min(DEAD_LETTER_BASE_DELAY_SECONDS * 2 ** retryCount, DEAD_LETTER_MAX_DELAY_SECONDS);
+}
+
+// Writers in other processes (e.g. the CLI) don't fire in-process events,
+// so blocking waits still re-check the database at this slow interval.
+const FALLBACK_POLL_INTERVAL_MS = 5000;
+
 export class MessageBus {
   private db: Database.Database;
+  private events: EventEmitter;
 
   constructor(db: Database.Database) {
     this.db = db;
+    this.events = new EventEmitter();
+    this.events.setMaxListeners(0);
+  }
+
+  // Event subscriptions
+  on<E extends keyof BusEvents>(event: E, listener: BusEventListener<E>): () => void {
+    this.events.on(event, listener);
+    return () => {
+      this.events.off(event, listener);
+    };
+  }
+
+  private emit<E extends keyof BusEvents>(event: E, payload: BusEvents[E]): void {
+    for (const listener of this.events.listeners(event)) {
+      try {
+        (listener as BusEventListener<E>)(payload);
+      } catch (error) {
+        console.error(`Bus event listener for "${event}" failed:`, error);
+      }
+    }
   }
 
   // Channel operations
-  createChannel(name: string, description: string = '', ttlSeconds: number = 3600): Channel {
+  createChannel(name: string, description: string = '', ttlSeconds: number = 3600, requireSignatures?: boolean): Channel {
+    // requireSignatures is only changed when given, so re-creating a channel keeps its setting
+    const require = requireSignatures === undefined ? null : requireSignatures ? 1 : 0;
     const stmt = this.db.prepare(`
-      INSERT INTO channels (name, description, message_ttl_seconds)
-      VALUES (?, ?, ?)
-      ON CONFLICT(name) DO UPDATE SET description = ?, message_ttl_seconds = ?
+      INSERT INTO channels (name, description, message_ttl_seconds, require_signatures)
+      VALUES (?, ?, ?, COALESCE(?, 0))
+      ON CONFLICT(name) DO UPDATE SET
+        description = ?,
+        message_ttl_seconds = ?,
+        require_signatures = COALESCE(?, require_signatures)
     `);
-    stmt.run(name, description, ttlSeconds, description, ttlSeconds);
+    stmt.run(name, description, ttlSeconds, require, description, ttlSeconds, require);
     const result = this.getChannel(name);
     if (!result) throw new Error(`Failed to create/retrieve channel: ${name}`);
     return result;
   }
 
+  /**
+   * Updates a channel's retention and size limits. Limits are enforced when
+   * messages are sent and again on every cleanup pass.
+   */
+  setChannelPolicy(name: string, policy: ChannelPolicy): Channel {
+    const columns: [string, number | string | null][] = [];
+    const limit = (column: string, value: number | null | undefined, allowZero: boolean) => {
+      if (value === undefined) {
+        return;
+      }
+      if (value !== null && (!Number.isInteger(value) || value < (allowZero ? 0 : 1))) {
+        throw new Error(`${column} must be a ${allowZero ? 'non-negative' : 'positive'} integer`);
+      }
+      columns.push([column, value]);
+    };
+    limit('max_messages', policy.maxMessages, false);
+    limit('max_total_bytes', policy.maxTotalBytes, false);
+    limit('max_message_bytes', policy.maxMessageBytes, false);
+    limit('ack_retention_seconds', policy.ackRetentionSeconds, true);
+    // 0 deletes expired messages instead of archiving them
+    limit('archive_retention_seconds', policy.archiveRetentionSeconds, true);
+    if (policy.overflowPolicy !== undefined) {
+      if (!OVERFLOW_POLICIES.includes(policy.overflowPolicy)) {
+        throw new Error(`overflow_policy must be one of: ${OVERFLOW_POLICIES.join(', ')}`);
+      }
+      columns.push(['overflow_policy', policy.overflowPolicy]);
+    }
+
+    const channel = this.getChannel(name);
+    if (!channel) {
+      throw new Error(`Channel ${name} not found`);
+    }
+    if (columns.length === 0) {
+      return channel;
+    }
+
+    const update = this.db.transaction(() => {
+      this.db.prepare(`UPDATE channels SET ${columns.map(([column]) => `${column} = ?`).join(', ')} WHERE name = ?`)
+        .run(...columns.map(([, value]) => value), name);
+      this.enforceChannelLimits(this.getChannel(name)!, null);
+    });
+    update();
+    return this.getChannel(name)!;
+  }
+
   getChannel(name: string): Channel | null {
     const stmt = this.db.prepare('SELECT * FROM channels WHERE name = ?');
     return stmt.get(name) as Channel | null;
@@ -58,7 +340,16 @@ export class MessageBus {
   }
 
   // Agent operations
-  registerAgent(agentId: string, sessionId: string, metadata: Record<string, unknown> = {}): Agent {
+  registerAgent(
+    agentId: string,
+    sessionId: string,
+    metadata: Record<string, unknown> = {},
+    capabilities?: Partial<AgentCapabilities>
+  ): Agent {
+    if (capabilities) {
+      this.setCapabilities(agentId, capabilities);
+    }
+
     const stmt = this.db.prepare(`
       INSERT INTO agents (agent_id, session_id, metadata, last_seen)
       VALUES (?, ?, ?, datetime('now'))
@@ -73,6 +364,142 @@ export class MessageBus {
     return result;
   }
 
+  /**
+   * Capabilities are stored per agent_id rather than per session, so that
+   * heartbeats and new sessions don't wipe them.
+   */
+  setCapabilities(agentId: string, capabilities: Partial<AgentCapabilities>): AgentCapabilities {
+    const maxConcurrency = capabilities.max_concurrency ?? 1;
+    if (!Number.isInteger(maxConcurrency) || maxConcurrency <= 0) {
+      throw new Error('max_concurrency must be a positive integer');
+    }
+    const normalize = (values?: string[]) => JSON.stringify([...new Set((values ?? []).map(v => v.trim().toLowerCase()).filter(Boolean))]);
+
+    this.db.prepare(`
+      INSERT INTO agent_capabilities (agent_id, tags, languages, tools, max_concurrency, updated_at)
+      VALUES (?, ?, ?, ?, ?, datetime('now'))
+      ON CONFLICT(agent_id) DO UPDATE SET
+        tags = excluded.tags,
+        languages = excluded.languages,
+        tools = excluded.tools,
+        max_concurrency = excluded.max_concurrency,
+        updated_at = excluded.updated_at
+    `).run(agentId, normalize(capabilities.tags), normalize(capabilities.languages), normalize(capabilities.tools), maxConcurrency);
+
+    return this.getCapabilities(agentId)!;
+  }
+
+  getCapabilities(agentId: string): AgentCapabilities | null {
+    const row = this.db.prepare('SELECT * FROM agent_capabilities WHERE agent_id = ?').get(agentId) as
+      { tags: string; languages: string; tools: string; max_concurrency: number } | undefined;
+    if (!row) {
+      return null;
+    }
+    return {
+      tags: JSON.parse(row.tags),
+      languages: JSON.parse(row.languages),
+      tools: JSON.parse(row.tools),
+      max_concurrency: row.max_concurrency
+    };
+  }
+
+  // Encryption keys
+  publishPublicKey(agentId: string, publicKeyPem: string, expiresAt?: string): AgentKey {
+    const algorithm = describeEncryptionKey(publicKeyPem);
+    this.db.prepare(`
+      INSERT INTO agent_keys (agent_id, public_key, key_algorithm, created_at, expires_at)
+      VALUES (?, ?, ?, datetime('now'), ?)
+      ON CONFLICT(agent_id) DO UPDATE SET
+        public_key = excluded.public_key,
+        key_algorithm = excluded.key_algorithm,
+        created_at = excluded.created_at,
+        expires_at = excluded.expires_at
+    `).run(agentId, publicKeyPem, algorithm, expiresAt ?? null);
+    return this.getPublicKey(agentId)!;
+  }
+
+  /**
+   * Signing keys share the agent's agent_keys row, so an encryption key
+   * has to be published first.
+   */
+  publishSigningKey(agentId: string, publicKeyPem: string): AgentKey {
+    const algorithm = describeSigningKey(publicKeyPem);
+    const result = this.db.prepare(`
+      UPDATE agent_keys SET signing_public_key = ?, signing_algorithm = ?
+      WHERE agent_id = ?
+    `).run(publicKeyPem, algorithm, agentId);
+    if (result.changes === 0) {
+      throw new Error(`Agent ${agentId} has no published key; publish an encryption key first`);
+    }
+    return this.getPublicKey(agentId)!;
+  }
+
+  /**
+   * Publishes public keys an agent generated itself; its private keys never
+   * reach the bus. The first key an agent publishes is trusted, as is adding
+   * a signing key where there is none. Replacing a published key needs a
+   * signature over keyChangePayload made with the agent's current signing
+   * key, so nobody else can take over the agent's identity.
+   */
+  publishAgentKeys(agentId: string, keys: { publicKey?: string; signingPublicKey?: string }, signature?: string): AgentKey {
+    if (!keys.publicKey && !keys.signingPublicKey) {
+      throw new Error('public_key or signing_public_key is required');
+    }
+    // Expired keys still belong to their agent
+    const current = this.db.prepare('SELECT * FROM agent_keys WHERE agent_id = ?').get(agentId) as AgentKey | undefined;
+    const replacesKey = !!current && (
+      (!!keys.publicKey && keys.publicKey !== current.public_key)
+      || (!!keys.signingPublicKey && !!current.signing_public_key && keys.signingPublicKey !== current.signing_public_key)
+    );
+
+    if (replacesKey) {
+      if (!current!.signing_public_key) {
+        throw new Error(`Agent ${agentId} already has a published key and no signing key to authorize replacing it`);
+      }
+      const payload = keyChangePayload(agentId, keys.publicKey ?? null, keys.signingPublicKey ?? null);
+      if (!signature || !verifyPayload(payload, signature, current!.signing_public_key)) {
+        throw new Error(`Replacing the keys of ${agentId} needs a signature made with its current signing key`);
+      }
+    }
+
+    const publish = this.db.transaction(() => {
+      if (keys.publicKey && keys.publicKey !== current?.public_key) {
+        this.publishPublicKey(agentId, keys.publicKey);
+      }
+      if (keys.signingPublicKey) {
+        this.publishSigningKey(agentId, keys.signingPublicKey);
+      }
+    });
+    publish();
+    return this.getPublicKey(agentId)!;
+  }
+
+  getPublicKey(agentId: string): AgentKey | null {
+    const stmt = this.db.prepare(`
+      SELECT * FROM agent_keys
+      WHERE agent_id = ? AND (expires_at IS NULL OR datetime(expires_at) > datetime('now'))
+    `);
+    return stmt.get(agentId) as AgentKey | null;
+  }
+
+  /**
+   * Agents an encrypted message on this channel is sealed for: both parties
+   * of a dm: channel, otherwise every agent currently subscribed to it.
+   */
+  getEncryptionRecipients(channel: string, senderAgent: string): string[] {
+    let recipients: string[];
+    if (channel.startsWith('dm:')) {
+      recipients = channel.slice(3).split(':');
+    } else {
+      const rows = this.db.prepare(`
+        SELECT DISTINCT a.agent_id FROM agents a, json_each(a.subscribed_channels) c
+        WHERE json_valid(a.subscribed_channels) AND c.value = ?
+      `).all(channel) as { agent_id: string }[];
+      recipients = rows.map(r => r.agent_id);
+    }
+    return [...new Set([...recipients, senderAgent])].sort();
+  }
+
   getAgent(agentId: string, sessionId: string): Agent | null {
     const stmt = this.db.prepare('SELECT * FROM agents WHERE agent_id = ? AND session_id = ?');
     return stmt.get(agentId, sessionId) as Agent | null;
@@ -95,6 +522,7 @@ export class MessageBus {
     if (!agent) {
       throw new Error(`Agent ${agentId} not registered`);
     }
+    this.checkChannelAccess(channel, agentId, 'subscribe');
 
     let channels: string[];
     try {
@@ -124,6 +552,132 @@ export class MessageBus {
     stmt.run(JSON.stringify(filtered), agentId, sessionId);
   }
 
+  // Channel access control
+  getChannelAcl(channel: string): ChannelAclEntry[] {
+    const stmt = this.db.prepare('SELECT * FROM channel_acl WHERE channel = ? ORDER BY granted_at ASC, agent_id ASC');
+    return stmt.all(channel) as ChannelAclEntry[];
+  }
+
+  getChannelRole(channel: string, agentId: string): ChannelRole | null {
+    const row = this.db.prepare('SELECT role FROM channel_acl WHERE channel = ? AND agent_id = ?').get(channel, agentId) as
+      { role: ChannelRole } | undefined;
+    return row?.role ?? null;
+  }
+
+  isChannelRestricted(channel: string): boolean {
+    return this.db.prepare('SELECT 1 FROM channel_acl WHERE channel = ? LIMIT 1').get(channel) !== undefined;
+  }
+
+  /**
+   * Makes an open channel restricted, with ownerId as its first owner. Only
+   * owners may change the ACL after that (see grantChannelRole).
+   */
+  restrictChannel(channel: string, ownerId: string): ChannelAclEntry {
+    if (!this.getChannel(channel)) {
+      throw new Error(`Channel ${channel} not found`);
+    }
+    if (SYSTEM_CHANNELS.includes(channel)) {
+      throw new Error(`System channel ${channel} can't be restricted`);
+    }
+
+    const restrict = this.db.transaction(() => {
+      if (this.isChannelRestricted(channel)) {
+        throw new Error(`Channel ${channel} is already restricted; its owners manage its ACL`);
+      }
+      this.db.prepare(`
+        INSERT INTO channel_acl (channel, agent_id, role, granted_by)
+        VALUES (?, ?, 'owner', ?)
+      `).run(channel, ownerId, ownerId);
+    });
+    restrict();
+    return this.getChannelAcl(channel).find(entry => entry.agent_id === ownerId)!;
+  }
+
+  /**
+   * Channels without ACL entries are open to everyone, and stay open until
+   * restrictChannel names their owner. After that only owners may change
+   * the ACL.
+   */
+  grantChannelRole(channel: string, agentId: string, role: ChannelRole, grantedBy: string): ChannelAclEntry {
+    if (!CHANNEL_ROLES.includes(role)) {
+      throw new Error(`Invalid channel role: ${role}. Must be one of: ${CHANNEL_ROLES.join(', ')}`);
+    }
+    if (!this.getChannel(channel)) {
+      throw new Error(`Channel ${channel} not found`);
+    }
+
+    const upsert = this.db.prepare(`
+      INSERT INTO channel_acl (channel, agent_id, role, granted_by)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(channel, agent_id) DO UPDATE SET
+        role = excluded.role,
+        granted_by = excluded.granted_by,
+        granted_at = datetime('now')
+    `);
+    const grant = this.db.transaction(() => {
+      if (!this.isChannelRestricted(channel)) {
+        throw new Error(`Channel ${channel} is open; create it with restricted=true to name its owner before granting roles`);
+      }
+      this.checkChannelAccess(channel, grantedBy, 'manage');
+      upsert.run(channel, agentId, role, grantedBy);
+      this.assertChannelHasOwner(channel);
+    });
+    grant();
+
+    if (!CHANNEL_ROLE_PERMISSIONS[role].includes('subscribe')) {
+      this.dropSubscriptions(channel, agentId);
+    }
+    return this.getChannelAcl(channel).find(entry => entry.agent_id === agentId)!;
+  }
+
+  revokeChannelRole(channel: string, agentId: string, revokedBy: string): boolean {
+    const revoke = this.db.transaction(() => {
+      this.checkChannelAccess(channel, revokedBy, 'manage');
+      const result = this.db.prepare('DELETE FROM channel_acl WHERE channel = ? AND agent_id = ?').run(channel, agentId);
+      this.assertChannelHasOwner(channel);
+      return result.changes > 0;
+    });
+    if (!revoke()) {
+      return false;
+    }
+    this.dropSubscriptions(channel, agentId);
+    return true;
+  }
+
+  /**
+   * Throws unless the agent may perform the action on the channel. Open
+   * channels allow everything, including anonymous access.
+   */
+  checkChannelAccess(channel: string, agentId: string | null, action: ChannelAction): void {
+    if (!this.isChannelRestricted(channel)) {
+      return;
+    }
+    if (!agentId) {
+      throw new Error(`Channel ${channel} is restricted; an agent_id is required to ${action}`);
+    }
+    const role = this.getChannelRole(channel, agentId);
+    if (!role || !CHANNEL_ROLE_PERMISSIONS[role].includes(action)) {
+      throw new Error(`Agent ${agentId} (${role ?? 'no role'}) is not allowed to ${action} on channel ${channel}`);
+    }
+  }
+
+  private assertChannelHasOwner(channel: string): void {
+    const acl = this.db.prepare(`
+      SELECT COUNT(*) AS entries, COUNT(CASE WHEN role = 'owner' THEN 1 END) AS owners
+      FROM channel_acl WHERE channel = ?
+    `).get(channel) as { entries: number; owners: number };
+    if (acl.entries > 0 && acl.owners === 0) {
+      throw new Error(`Channel ${channel} must keep at least one owner`);
+    }
+  }
+
+  private dropSubscriptions(channel: string, agentId: string): void {
+    const sessions = this.db.prepare('SELECT session_id FROM agents WHERE agent_id = ?').all(agentId) as { session_id: string }[];
+    for (const { session_id } of sessions) {
+      this.unsubscribeFromChannel(agentId, session_id, channel);
+    }
+  }
+
   // Message operations
   sendMessage(
     channel: string,
@@ -135,6 +689,28 @@ export class MessageBus {
       correlationId?: string;
       priority?: number;
       ttlSeconds?: number;
+      // Seal the content for these agents instead of storing it in plaintext
+      encryptFor?: string[];
+      // Content sealed by the client, or kept from an encrypted dead letter;
+      // the content argument is ignored
+      sealed?: SealedContent;
+      // Base64 Ed25519 signature over signingPayload(channel, senderAgent, content, ...),
+      // where a sealed message signs its encrypted_content
+      signature?: string;
+      // The client's single-use nonce and ISO signing time; required with a signature
+      nonce?: string;
+      signedAt?: string;
+      // Set by the bus when it re-sends a message it already accepted, whose
+      // nonce is therefore taken and whose signing time may be long past
+      resend?: boolean;
+      // Only these agents (and the sender) will see the message
+      recipients?: string[];
+      // ID of the message this one answers; it joins that message's thread
+      replyTo?: string;
+      // Validated at send time; defaults to text
+      contentType?: ContentType;
+      // Stores the content compressed. Encrypted messages are never compressed.
+      compression?: CompressionAlgorithm | 'auto';
     } = {}
   ): Message {
     const id = generateMessageId();
@@ -145,56 +721,289 @@ export class MessageBus {
       effectiveChannelInfo = this.createChannel(channel);
     }
 
+    this.checkChannelAccess(channel, senderAgent, options.messageType === 'response' ? 'respond' : 'publish');
+
+    if (options.sealed) {
+      validateSealedContent(options.sealed);
+    }
+
+    if (options.signature) {
+      if (options.encryptFor) {
+        throw new Error('Signed messages must be sealed before signing: pass the sealed content and sign its encrypted_content');
+      }
+      if (!options.nonce || !options.signedAt) {
+        throw new Error('Signed messages need the nonce and signed_at their signature covers');
+      }
+      const signedContent = options.sealed ? options.sealed.encrypted_content : content;
+      const signed: SignedFields = {
+        messageType: options.messageType ?? 'broadcast',
+        recipients: options.recipients ?? [],
+        replyTo: options.replyTo ?? null,
+        nonce: options.nonce,
+        signedAt: options.signedAt
+      };
+      if (!this.isValidSignature(channel, senderAgent, signedContent, options.signature, signed)) {
+        throw new Error(`Invalid signature from ${senderAgent} on channel ${channel}`);
+      }
+      const signedAtMs = Date.parse(options.signedAt);
+      if (!options.resend && !(Math.abs(Date.now() - signedAtMs) <= SIGNATURE_MAX_AGE_SECONDS * 1000)) {
+        throw new Error(`Signature from ${senderAgent} is stale: signed_at must be within ${SIGNATURE_MAX_AGE_SECONDS} seconds of now`);
+      }
+    } else if (effectiveChannelInfo.require_signatures) {
+      throw new Error(`Channel ${channel} requires signed messages`);
+    }
+
+    const parent = options.replyTo ? this.getMessage(options.replyTo) : null;
+    if (options.replyTo && !parent) {
+      throw new Error(`Cannot reply to ${options.replyTo}: message not found`);
+    }
+    if (parent && parent.channel !== channel) {
+      throw new Error(`Replies must be sent to the channel of the message they answer (${parent.channel})`);
+    }
+
+    const contentType = options.contentType ?? 'text';
+    if (!options.sealed) {
+      validateContent(content, contentType);
+    }
+
+    const sealed = options.sealed
+      ?? (options.encryptFor ? this.sealFor(content, options.encryptFor, senderAgent) : null);
+    const encoded = sealed ? null : encodeContent(content, options.compression);
+
+    const channelInfo = effectiveChannelInfo;
     const ttl = options.ttlSeconds ?? effectiveChannelInfo.message_ttl_seconds ?? 3600;
     const expiresAt = ttl > 0
       ? new Date(Date.now() + ttl * 1000).toISOString().replace('T', ' ').slice(0, 19)
       : null;
 
     const stmt = this.db.prepare(`
-      INSERT INTO messages (id, channel, sender_agent, sender_session, content, message_type, correlation_id, priority, expires_at)
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO messages (
+        id, channel, sender_agent, sender_session, content, message_type, correlation_id, priority, expires_at,
+        encrypted, signature, signature_nonce, signed_at, reply_to, thread_id, content_type, content_encoding,
+        content_size, stored_size
+      )
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
+    const storedSize = encoded ? encoded.stored_size : Buffer.byteLength(sealed!.encrypted_content);
 
-    stmt.run(
-      id,
-      channel,
-      senderAgent,
-      senderSession,
-      content,
-      options.messageType ?? 'broadcast',
-      options.correlationId ?? null,
-      options.priority ?? 0,
-      expiresAt
-    );
+    const insert = this.db.transaction(() => {
+      if (options.signature && !options.resend) {
+        this.claimSignatureNonce(senderAgent, options.nonce!, options.signedAt!);
+      }
+      this.enforceChannelLimits(channelInfo, storedSize);
+      stmt.run(
+        id,
+        channel,
+        senderAgent,
+        senderSession,
+        encoded ? encoded.content : ENCRYPTED_PLACEHOLDER,
+        options.messageType ?? 'broadcast',
+        options.correlationId ?? null,
+        options.priority ?? 0,
+        expiresAt,
+        sealed ? 1 : 0,
+        options.signature ?? null,
+        options.signature ? options.nonce : null,
+        options.signature ? options.signedAt : null,
+        parent?.id ?? null,
+        // Every message starts a thread of its own unless it replies to one
+        parent ? (parent.thread_id ?? parent.id) : id,
+        contentType,
+        encoded?.encoding ?? 'identity',
+        options.sealed ? null : Buffer.byteLength(content),
+        storedSize
+      );
+      if (sealed) {
+        this.storeSealedContent(id, sealed);
+      }
+      if (encoded && encoded.encoding !== 'identity') {
+        indexCompressedMessage(this.db, id, content);
+      }
+      const recipientStmt = this.db.prepare(`
+        INSERT OR IGNORE INTO message_recipients (message_id, agent_id)
+        VALUES (?, ?)
+      `);
+      for (const recipientId of options.recipients ?? []) {
+        recipientStmt.run(id, recipientId);
+      }
+    });
+    insert();
 
     const result = this.getMessage(id);
     if (!result) throw new Error(`Failed to create/retrieve message: ${id}`);
+
+    this.emit('message', result);
+    if (result.message_type === 'response') {
+      this.emit('response', result);
+    }
     return result;
   }
 
+  getSealedContent(messageId: string): SealedContent | null {
+    const row = this.db.prepare('SELECT * FROM encrypted_messages WHERE message_id = ?').get(messageId) as
+      { encrypted_content: string; encryption_metadata: string; recipient_keys: string } | undefined;
+    if (!row) {
+      return null;
+    }
+    return {
+      encrypted_content: row.encrypted_content,
+      encryption_metadata: JSON.parse(row.encryption_metadata),
+      recipient_keys: JSON.parse(row.recipient_keys)
+    };
+  }
+
+  /**
+   * Replaces compressed content with the original. Run it after
+   * decryptMessages and before verifyMessages, as signatures cover the
+   * original content.
+   */
+  decodeMessages<T extends Message>(messages: T[]): T[] {
+    return messages.map(message => message.content_encoding === 'identity'
+      ? message
+      : { ...message, content: decodeContent(message.content, message.content_encoding), content_encoding: 'identity' });
+  }
+
+  /**
+   * Attaches to each still encrypted message what agentId needs to open it
+   * on its own side: the ciphertext and its wrapped copy of the content key.
+   * Messages not sealed for the agent are left as they are.
+   */
+  attachSealedContent<T extends Message>(messages: T[], agentId: string): (T & { sealed?: SealedForRecipient })[] {
+    return messages.map(message => {
+      const sealed = message.encrypted ? this.getSealedContent(message.id) : null;
+      const wrappedKey = sealed?.recipient_keys[agentId];
+      if (!sealed || !wrappedKey) {
+        return message;
+      }
+      return {
+        ...message,
+        sealed: {
+          encrypted_content: sealed.encrypted_content,
+          encryption_metadata: sealed.encryption_metadata,
+          wrapped_key: wrappedKey
+        }
+      };
+    });
+  }
+
+  /**
+   * Replaces the placeholder content of encrypted messages with the
+   * plaintext for agentId, trying each of the agent's private keys in turn
+   * so messages sealed before a key rotation still open. Messages the agent
+   * can't open are returned unchanged, still flagged as encrypted.
+   */
+  decryptMessages<T extends Message>(messages: T[], agentId: string, privateKeyPems: string | string[] | null): T[] {
+    const keys = privateKeyPems === null ? [] : [privateKeyPems].flat();
+    return messages.map(message => {
+      if (!message.encrypted || keys.length === 0) {
+        return message;
+      }
+      const sealed = this.getSealedContent(message.id);
+      if (!sealed || !sealed.recipient_keys[agentId]) {
+        return message;
+      }
+      for (const key of keys) {
+        try {
+          return { ...message, content: openContent(sealed, agentId, key), encrypted: 0 };
+        } catch {
+          // Sealed for an older or newer key; try the next one
+        }
+      }
+      console.error(`Failed to decrypt message ${message.id} for ${agentId}: none of its keys open it`);
+      return message;
+    });
+  }
+
+  /**
+   * Flags each message with whether its signature matches the sender's
+   * published signing key. Signatures on encrypted messages cover the
+   * ciphertext, so they verify whether or not the message was decrypted.
+   */
+  verifyMessages<T extends Message>(messages: T[]): VerifiedMessage<T>[] {
+    return messages.map(message => {
+      if (!message.signature || !message.signature_nonce || !message.signed_at) {
+        return { ...message, verified: false };
+      }
+      const signedContent = this.getSealedContent(message.id)?.encrypted_content ?? message.content;
+      return {
+        ...message,
+        verified: this.isValidSignature(message.channel, message.sender_agent, signedContent, message.signature, {
+          messageType: message.message_type,
+          recipients: this.getRecipients(message.id),
+          replyTo: message.reply_to,
+          nonce: message.signature_nonce,
+          signedAt: message.signed_at
+        })
+      };
+    });
+  }
+
+  isValidSignature(channel: string, senderAgent: string, content: string, signature: string, signed: SignedFields): boolean {
+    const key = this.getPublicKey(senderAgent)?.signing_public_key;
+    return !!key && verifyPayload(signingPayload(channel, senderAgent, content, signed), signature, key);
+  }
+
+  // Records a signed message's nonce, rejecting one the sender has used before
+  private claimSignatureNonce(senderAgent: string, nonce: string, signedAt: string): void {
+    this.db.prepare("DELETE FROM signature_nonces WHERE expires_at < datetime('now')").run();
+    const expiresAt = toSqliteDatetime(new Date(Date.parse(signedAt) + SIGNATURE_MAX_AGE_SECONDS * 1000).toISOString());
+    const claimed = this.db.prepare(`
+      INSERT OR IGNORE INTO signature_nonces (agent_id, nonce, expires_at)
+      VALUES (?, ?, ?)
+    `).run(senderAgent, nonce, expiresAt);
+    if (claimed.changes === 0) {
+      throw new Error(`Signature nonce ${nonce} was already used by ${senderAgent}`);
+    }
+  }
+
+  private sealFor(content: string, recipients: string[], senderAgent: string): SealedContent {
+    const keys: { agent_id: string; public_key: string }[] = [];
+    const missing: string[] = [];
+    for (const agentId of new Set(recipients)) {
+      const key = this.getPublicKey(agentId);
+      if (key) {
+        keys.push(key);
+      } else if (agentId !== senderAgent) {
+        // The sender only gets a copy if it has published a key of its own
+        missing.push(agentId);
+      }
+    }
+    if (missing.length > 0) {
+      throw new Error(`Cannot encrypt: no public key published for ${missing.join(', ')}`);
+    }
+    return sealContent(content, keys);
+  }
+
+  private storeSealedContent(messageId: string, sealed: SealedContent): void {
+    this.db.prepare(`
+      INSERT INTO encrypted_messages (message_id, encrypted_content, encryption_metadata, recipient_keys)
+      VALUES (?, ?, ?, ?)
+    `).run(messageId, sealed.encrypted_content, JSON.stringify(sealed.encryption_metadata), JSON.stringify(sealed.recipient_keys));
+  }
+
   getMessage(id: string): Message | null {
     const stmt = this.db.prepare('SELECT * FROM messages WHERE id = ?');
     return stmt.get(id) as Message | null;
   }
 
-  getMessages(
-    channel: string,
-    options: {
-      limit?: number;
-      since?: string;
-      unacknowledgedOnly?: boolean;
-      excludeSender?: string;
-    } = {}
-  ): Message[] {
+  getMessages(channel: string, options: GetMessagesOptions = {}): Message[] {
     let query = 'SELECT * FROM messages WHERE channel = ?';
     const params: (string | number)[] = [channel];
 
+    if (options.reader !== undefined) {
+      this.checkChannelAccess(channel, options.reader, 'read');
+      query += this.readerCondition(options.reader, params);
+    }
+
     if (options.since) {
       query += ' AND datetime(created_at) > datetime(?)';
       params.push(options.since);
     }
 
-    if (options.unacknowledgedOnly) {
+    if (options.unacknowledgedOnly && options.consumer) {
+      query += ' AND NOT EXISTS (SELECT 1 FROM message_acks a WHERE a.message_id = messages.id AND a.agent_id = ?)';
+      params.push(options.consumer);
+    } else if (options.unacknowledgedOnly) {
       query += ' AND acknowledged_at IS NULL';
     }
 
@@ -218,13 +1027,55 @@ export class MessageBus {
   }
 
   acknowledgeMessage(messageId: string, acknowledgedBy: string): boolean {
+    const acknowledge = this.db.transaction(() => {
+      if (!this.getMessage(messageId)) {
+        return false;
+      }
+
+      const result = this.db.prepare(`
+        INSERT OR IGNORE INTO message_acks (message_id, agent_id)
+        VALUES (?, ?)
+      `).run(messageId, acknowledgedBy);
+      if (result.changes === 0) {
+        return false;
+      }
+
+      // The first acknowledgement is also stamped on the message row so
+      // waitForAck and consumer-less readers keep their existing semantics
+      this.db.prepare(`
+        UPDATE messages
+        SET acknowledged_at = datetime('now'), acknowledged_by = ?
+        WHERE id = ? AND acknowledged_at IS NULL
+      `).run(acknowledgedBy, messageId);
+
+      this.db.prepare(`
+        UPDATE message_recipients
+        SET read_at = datetime('now'), delivered_at = COALESCE(delivered_at, datetime('now'))
+        WHERE message_id = ? AND agent_id = ? AND read_at IS NULL
+      `).run(messageId, acknowledgedBy);
+      return true;
+    });
+
+    if (!acknowledge()) {
+      return false;
+    }
+
+    this.emit('acknowledged', { message_id: messageId, agent_id: acknowledgedBy });
+    return true;
+  }
+
+  isAcknowledgedBy(messageId: string, agentId: string): boolean {
+    const stmt = this.db.prepare('SELECT 1 FROM message_acks WHERE message_id = ? AND agent_id = ?');
+    return stmt.get(messageId, agentId) !== undefined;
+  }
+
+  getAcknowledgements(messageId: string): { agent_id: string; acknowledged_at: string }[] {
     const stmt = this.db.prepare(`
-      UPDATE messages
-      SET acknowledged_at = datetime('now'), acknowledged_by = ?
-      WHERE id = ? AND acknowledged_at IS NULL
+      SELECT agent_id, acknowledged_at FROM message_acks
+      WHERE message_id = ?
+      ORDER BY acknowledged_at ASC
     `);
-    const result = stmt.run(acknowledgedBy, messageId);
-    return result.changes > 0;
+    return stmt.all(messageId) as { agent_id: string; acknowledged_at: string }[];
   }
 
   // Request-response pattern
@@ -233,13 +1084,25 @@ export class MessageBus {
     senderAgent: string,
     senderSession: string,
     content: string,
-    ttlSeconds: number = 60
+    ttlSeconds: number = 60,
+    options: {
+      encryptFor?: string[];
+      sealed?: SealedContent;
+      signature?: string;
+      nonce?: string;
+      signedAt?: string;
+      recipients?: string[];
+      replyTo?: string;
+      contentType?: ContentType;
+      compression?: CompressionAlgorithm | 'auto';
+    } = {}
   ): Message {
     const correlationId = generateMessageId();
     return this.sendMessage(channel, senderAgent, senderSession, content, {
       messageType: 'request',
       correlationId,
-      ttlSeconds
+      ttlSeconds,
+      ...options
     });
   }
 
@@ -247,43 +1110,259 @@ export class MessageBus {
     correlationId: string,
     senderAgent: string,
     senderSession: string,
-    content: string
+    content: string,
+    options: { signature?: string; nonce?: string; signedAt?: string } = {}
   ): Message {
-    // Find the original request to get the channel
+    const request = this.getRequest(correlationId);
+    if (!request) {
+      throw new Error(`No request found with correlation ID: ${correlationId}`);
+    }
+
+    return this.sendMessage(request.channel, senderAgent, senderSession, content, {
+      messageType: 'response',
+      correlationId,
+      signature: options.signature,
+      nonce: options.nonce,
+      signedAt: options.signedAt,
+      replyTo: request.id
+    });
+  }
+
+  getRequest(correlationId: string): Message | null {
     const stmt = this.db.prepare(`
-      SELECT channel FROM messages
+      SELECT * FROM messages
       WHERE (id = ? OR correlation_id = ?) AND message_type = 'request'
       LIMIT 1
     `);
-    const original = stmt.get(correlationId, correlationId) as { channel: string } | undefined;
+    return stmt.get(correlationId, correlationId) as Message | null;
+  }
 
-    if (!original) {
-      throw new Error(`No request found with correlation ID: ${correlationId}`);
+  /**
+   * All unexpired messages in the conversation containing messageId, oldest
+   * first. Reader works as in getMessages.
+   */
+  getThread(messageId: string, reader?: string | null): Message[] {
+    const message = this.getMessage(messageId);
+    if (!message) {
+      throw new Error(`Message ${messageId} not found`);
     }
+    const threadId = message.thread_id ?? message.id;
 
-    return this.sendMessage(original.channel, senderAgent, senderSession, content, {
-      messageType: 'response',
-      correlationId
-    });
+    let query = `
+      SELECT * FROM messages
+      WHERE (id = ? OR thread_id = ?)
+        AND (expires_at IS NULL OR datetime(expires_at) > datetime('now'))
+    `;
+    const params: (string | number)[] = [threadId, threadId];
+    if (reader !== undefined) {
+      this.checkChannelAccess(message.channel, reader, 'read');
+      query += this.readerCondition(reader, params);
+    }
+    query += ' ORDER BY created_at ASC, rowid ASC';
+
+    return this.db.prepare(query).all(...params) as Message[];
   }
 
-  getResponses(correlationId: string): Message[] {
-    const stmt = this.db.prepare(`
+  // Anonymous readers only see unaddressed messages
+  private readerCondition(reader: string | null, params: (string | number)[]): string {
+    if (!reader) {
+      return ' AND NOT EXISTS (SELECT 1 FROM message_recipients r WHERE r.message_id = messages.id)';
+    }
+    params.push(reader, reader);
+    return ` AND ${visibleToAgentCondition('messages')}`;
+  }
+
+  /**
+   * Responses to a request, oldest first. With a reader, only those it may
+   * read: responses to a request addressed to others stay hidden, and
+   * restricted channels need read access.
+   */
+  getResponses(correlationId: string, reader?: string | null): Message[] {
+    let query = `
       SELECT * FROM messages
       WHERE correlation_id = ? AND message_type = 'response'
-      ORDER BY created_at ASC
-    `);
-    return stmt.all(correlationId) as Message[];
+    `;
+    const params: (string | number)[] = [correlationId];
+    if (reader !== undefined) {
+      const request = this.getRequest(correlationId);
+      if (request && !this.isVisibleTo(request, reader)) {
+        return [];
+      }
+      query += this.readerCondition(reader, params);
+    }
+    query += ' ORDER BY created_at ASC';
+
+    const responses = this.db.prepare(query).all(...params) as Message[];
+    if (reader !== undefined) {
+      // Responses outlive short-lived requests, so check their own channel
+      for (const channel of new Set(responses.map(r => r.channel))) {
+        this.checkChannelAccess(channel, reader, 'read');
+      }
+    }
+    return responses;
+  }
+
+  // Whether reader may read the message: channel access and its recipient list
+  private isVisibleTo(message: Message, reader: string | null): boolean {
+    this.checkChannelAccess(message.channel, reader, 'read');
+    const params: (string | number)[] = [message.id];
+    return this.db.prepare(`SELECT 1 FROM messages WHERE id = ?${this.readerCondition(reader, params)}`).get(...params) !== undefined;
   }
 
   // Cleanup
   cleanupExpiredMessages(): number {
-    const stmt = this.db.prepare(`
-      DELETE FROM messages
-      WHERE expires_at IS NOT NULL AND datetime(expires_at) < datetime('now')
-    `);
-    const result = stmt.run();
-    return result.changes;
+    const cleanup = this.db.transaction(() => {
+      this.deadLetterExpiredMessages();
+
+      // Messages acknowledged by all their readers leave after the channel's ack retention. Without one,
+      // only messages without a TTL do, ACKNOWLEDGED_ARCHIVE_DELAY_SECONDS after their last acknowledgement.
+      let removed = this.archiveMessages(`
+        (expires_at IS NOT NULL AND datetime(expires_at) < datetime('now'))
+        OR (${FULLY_ACKNOWLEDGED_CONDITION} AND datetime(
+          (SELECT MAX(a.acknowledged_at) FROM message_acks a WHERE a.message_id = messages.id)
+        ) < datetime('now', '-' || COALESCE(
+          (SELECT c.ack_retention_seconds FROM channels c WHERE c.name = messages.channel),
+          CASE WHEN expires_at IS NULL THEN ${ACKNOWLEDGED_ARCHIVE_DELAY_SECONDS} END
+        ) || ' seconds'))
+      `, []);
+
+      // Catches channels whose limits were lowered, or messages sent by older clients
+      const limited = this.db.prepare(`
+        SELECT * FROM channels
+        WHERE (max_messages IS NOT NULL OR max_total_bytes IS NOT NULL) AND overflow_policy != 'reject'
+      `).all() as Channel[];
+      for (const channel of limited) {
+        removed += this.enforceChannelLimits(channel, null);
+      }
+      return removed;
+    });
+    return cleanup();
+  }
+
+  /**
+   * Moves messages matching condition (over the messages table, with params)
+   * into messages_archive, unless their channel's archive retention is 0,
+   * and deletes them. Dead letters keep their original message alive until
+   * they are resolved; resolved ones go with it. Returns the number of
+   * messages removed.
+   */
+  private archiveMessages(condition: string, params: unknown[], reason?: 'evicted'): number {
+    const done = `(${condition}) AND id NOT IN (SELECT original_message_id FROM dead_letter_queue WHERE resolved_at IS NULL)`;
+
+    // Ciphertext isn't archived; the archive keeps the [encrypted] placeholder
+    this.db.prepare(`
+      INSERT OR IGNORE INTO messages_archive (
+        id, channel, sender_agent, sender_session, content, message_type, correlation_id, priority,
+        created_at, expires_at, acknowledged_at, acknowledged_by, encrypted, signature, signature_nonce, signed_at,
+        reply_to, thread_id, content_type, content_encoding, content_size, stored_size,
+        recipients, acknowledgements, archive_reason, purge_after
+      )
+      SELECT
+        m.id, m.channel, m.sender_agent, m.sender_session, m.content, m.message_type, m.correlation_id, m.priority,
+        m.created_at, m.expires_at, m.acknowledged_at, m.acknowledged_by, m.encrypted, m.signature, m.signature_nonce, m.signed_at,
+        m.reply_to, m.thread_id, m.content_type, m.content_encoding, m.content_size, m.stored_size,
+        (SELECT json_group_array(json_object('agent_id', r.agent_id, 'delivered_at', r.delivered_at, 'read_at', r.read_at))
+          FROM message_recipients r WHERE r.message_id = m.id),
+        (SELECT json_group_array(json_object('agent_id', a.agent_id, 'acknowledged_at', a.acknowledged_at))
+          FROM message_acks a WHERE a.message_id = m.id),
+        COALESCE(?, CASE
+          WHEN m.expires_at IS NOT NULL AND datetime(m.expires_at) < datetime('now') THEN 'expired'
+          ELSE 'acknowledged'
+        END),
+        datetime('now', '+' || COALESCE(c.archive_retention_seconds, ?) || ' seconds')
+      FROM messages m
+      JOIN channels c ON c.name = m.channel
+      WHERE COALESCE(c.archive_retention_seconds, ?) > 0
+        AND m.id IN (SELECT id FROM messages WHERE ${done})
+      ORDER BY m.rowid
+    `).run(reason ?? null, DEFAULT_ARCHIVE_RETENTION_SECONDS, DEFAULT_ARCHIVE_RETENTION_SECONDS, ...params);
+
+    this.db.prepare(`DELETE FROM encrypted_messages WHERE message_id IN (SELECT id FROM messages WHERE ${done})`).run(...params);
+    this.db.prepare(`DELETE FROM message_recipients WHERE message_id IN (SELECT id FROM messages WHERE ${done})`).run(...params);
+    // Otherwise their foreign key would keep the message from being deleted
+    this.db.prepare(`
+      DELETE FROM dead_letter_queue
+      WHERE resolved_at IS NOT NULL AND original_message_id IN (SELECT id FROM messages WHERE ${done})
+    `).run(...params);
+    return this.db.prepare(`DELETE FROM messages WHERE ${done}`).run(...params).changes;
+  }
+
+  /**
+   * Keeps a channel within max_messages and max_total_bytes, counting a new
+   * message of incomingBytes (null when re-checking on cleanup). Over the
+   * limit, the channel's overflow_policy rejects the new message, or evicts
+   * its oldest live messages to the archive (drop_oldest) or the dead letter
+   * queue (dead_letter). Returns the number of messages evicted.
+   */
+  private enforceChannelLimits(channel: Channel, incomingBytes: number | null): number {
+    if (incomingBytes !== null) {
+      const maxBytes = Math.min(channel.max_message_bytes ?? Infinity, channel.max_total_bytes ?? Infinity);
+      if (incomingBytes > maxBytes) {
+        throw new Error(`Message is ${incomingBytes} bytes; channel ${channel.name} accepts at most ${maxBytes}`);
+      }
+    }
+    if (channel.max_messages === null && channel.max_total_bytes === null) {
+      return 0;
+    }
+
+    // Dead-lettered messages stay around for retries but no longer count as live
+    const liveCondition = `
+      m.channel = ?
+      AND (m.expires_at IS NULL OR datetime(m.expires_at) > datetime('now'))
+      AND m.id NOT IN (SELECT original_message_id FROM dead_letter_queue WHERE resolved_at IS NULL)
+    `;
+    const usage = this.db.prepare(`
+      SELECT COUNT(*) AS count, COALESCE(SUM(${MESSAGE_BYTES}), 0) AS bytes
+      FROM messages m LEFT JOIN encrypted_messages e ON e.message_id = m.id
+      WHERE ${liveCondition}
+    `).get(channel.name) as { count: number; bytes: number };
+
+    let count = usage.count + (incomingBytes === null ? 0 : 1);
+    let bytes = usage.bytes + (incomingBytes ?? 0);
+    const overLimit = () =>
+      (channel.max_messages !== null && count > channel.max_messages)
+      || (channel.max_total_bytes !== null && bytes > channel.max_total_bytes);
+    if (!overLimit()) {
+      return 0;
+    }
+    if (channel.overflow_policy === 'reject') {
+      if (incomingBytes === null) {
+        return 0;
+      }
+      throw new Error(
+        `Channel ${channel.name} is full (${usage.count} messages, ${usage.bytes} bytes; ` +
+        `limits: ${channel.max_messages ?? 'none'} messages, ${channel.max_total_bytes ?? 'none'} bytes)`
+      );
+    }
+
+    const oldest = this.db.prepare(`
+      SELECT m.id, ${MESSAGE_BYTES} AS bytes
+      FROM messages m LEFT JOIN encrypted_messages e ON e.message_id = m.id
+      WHERE ${liveCondition}
+      ORDER BY m.created_at ASC, m.rowid ASC
+    `).iterate(channel.name) as IterableIterator<{ id: string; bytes: number }>;
+    const evicted: string[] = [];
+    for (const row of oldest) {
+      if (!overLimit()) {
+        break;
+      }
+      evicted.push(row.id);
+      count--;
+      bytes -= row.bytes;
+    }
+
+    if (channel.overflow_policy === 'dead_letter') {
+      for (const id of evicted) {
+        this.addToDeadLetter(id, `Evicted: channel ${channel.name} is full`);
+      }
+      // Expire them so readers no longer see them; the dead letters keep the rows
+      this.db.prepare(`
+        UPDATE messages SET expires_at = datetime('now', '-1 second')
+        WHERE id IN (SELECT value FROM json_each(?))
+      `).run(JSON.stringify(evicted));
+      return evicted.length;
+    }
+    return this.archiveMessages('id IN (SELECT value FROM json_each(?))', [JSON.stringify(evicted)], 'evicted');
   }
 
   cleanupInactiveAgents(inactiveSeconds: number = 3600): number {
@@ -295,18 +1374,61 @@ export class MessageBus {
     return result.changes;
   }
 
-  addToDeadLetter(messageId: string, failureReason: string): void {
+  // Dead letter queue
+  addToDeadLetter(
+    messageId: string,
+    failureReason: string,
+    options: {
+      content?: string;
+      senderAgent?: string;
+      senderSession?: string;
+      maxRetries?: number;
+      // Records the dead letter as already resolved, e.g. to keep a rejected
+      // payload on file without holding its message back from cleanup
+      resolution?: string;
+    } = {}
+  ): DeadLetter {
     const message = this.getMessage(messageId);
     if (!message) {
       throw new Error(`Message ${messageId} not found`);
     }
 
     const dlqId = `dlq_${generateMessageId().slice(4)}`;
+    const maxRetries = options.resolution === undefined ? options.maxRetries ?? DEFAULT_DEAD_LETTER_MAX_RETRIES : 0;
     const stmt = this.db.prepare(`
-      INSERT INTO dead_letter_queue (id, original_message_id, channel, sender_agent, sender_session, content, failure_reason)
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      INSERT INTO dead_letter_queue (
+        id, original_message_id, channel, sender_agent, sender_session, content,
+        failure_reason, max_retries, next_retry_at, resolved_at
+      )
+      VALUES (
+        ?, ?, ?, ?, ?, ?, ?, ?,
+        CASE WHEN ? > 0 THEN datetime('now', '+' || ? || ' seconds') END,
+        CASE WHEN ? THEN datetime('now') END
+      )
     `);
-    stmt.run(dlqId, messageId, message.channel, message.sender_agent, message.sender_session, message.content, failureReason);
+    stmt.run(
+      dlqId,
+      messageId,
+      message.channel,
+      options.senderAgent ?? message.sender_agent,
+      options.senderSession ?? message.sender_session,
+      // Dead letters hold the original content, so they can be edited and re-sent
+      options.content ?? decodeContent(message.content, message.content_encoding),
+      options.resolution === undefined ? failureReason : `${failureReason} | Resolution: ${options.resolution}`,
+      maxRetries,
+      maxRetries,
+      deadLetterBackoffSeconds(0),
+      options.resolution === undefined ? 0 : 1
+    );
+
+    const result = this.getDeadLetter(dlqId);
+    if (!result) throw new Error(`Failed to create/retrieve dead letter: ${dlqId}`);
+    return result;
+  }
+
+  getDeadLetter(dlqId: string): DeadLetter | null {
+    const stmt = this.db.prepare('SELECT * FROM dead_letter_queue WHERE id = ?');
+    return stmt.get(dlqId) as DeadLetter | null;
   }
 
   getDeadLetters(channel?: string, limit?: number): DeadLetter[] {
@@ -329,11 +1451,28 @@ export class MessageBus {
     return stmt.all(...params) as DeadLetter[];
   }
 
+  getDueDeadLetters(limit: number = 50): DeadLetter[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM dead_letter_queue
+      WHERE resolved_at IS NULL
+        AND next_retry_at IS NOT NULL
+        AND datetime(next_retry_at) <= datetime('now')
+        AND retry_count < max_retries
+      ORDER BY next_retry_at ASC
+      LIMIT ?
+    `);
+    return stmt.all(limit) as DeadLetter[];
+  }
+
+  /**
+   * Re-sends a dead letter to its channel. The entry stays open until the
+   * re-sent message is acknowledged or answered (see resolveDeliveredDeadLetters);
+   * if it expires undelivered again, the next retry is scheduled with backoff.
+   */
   retryDeadLetter(dlqId: string, agentId: string): boolean {
-    const stmt = this.db.prepare('SELECT * FROM dead_letter_queue WHERE id = ? AND resolved_at IS NULL');
-    const dlq = stmt.get(dlqId) as DeadLetter | undefined;
+    const dlq = this.getDeadLetter(dlqId);
 
-    if (!dlq) {
+    if (!dlq || dlq.resolved_at) {
       return false;
     }
 
@@ -341,22 +1480,43 @@ export class MessageBus {
       return false;
     }
 
+    const original = this.getMessage(dlq.original_message_id);
     try {
-      this.sendMessage(dlq.channel, dlq.sender_agent, dlq.sender_session, dlq.content);
-      const updateStmt = this.db.prepare(`
+      // Re-sends reuse the original ciphertext; the bus never holds the plaintext
+      const sealed = original?.encrypted && dlq.content === ENCRYPTED_PLACEHOLDER
+        ? this.getSealedContent(original.id)
+        : null;
+      // Stay in the conversation unless the parent has since been cleaned up
+      const replyTo = original?.reply_to && this.getMessage(original.reply_to) ? original.reply_to : undefined;
+      // The signature still holds as long as the dead letter kept the original content and thread
+      const signed = original?.signature && original.signature_nonce && original.signed_at
+        && (replyTo ?? null) === original.reply_to
+        && (sealed || dlq.content === decodeContent(original.content, original.content_encoding))
+        ? original
+        : null;
+      const retried = this.sendMessage(dlq.channel, dlq.sender_agent, dlq.sender_session, dlq.content, {
+        messageType: original?.message_type,
+        correlationId: original?.correlation_id ?? undefined,
+        priority: original?.priority,
+        sealed: sealed ?? undefined,
+        recipients: original ? this.getRecipients(original.id) : undefined,
+        contentType: original?.content_type,
+        compression: original && original.content_encoding !== 'identity' ? original.content_encoding : undefined,
+        replyTo,
+        signature: signed?.signature ?? undefined,
+        nonce: signed?.signature_nonce ?? undefined,
+        signedAt: signed?.signed_at ?? undefined,
+        resend: true
+      });
+      this.db.prepare(`
         UPDATE dead_letter_queue
-        SET retry_count = retry_count + 1, resolved_at = datetime('now')
+        SET retry_count = retry_count + 1, retry_message_id = ?, next_retry_at = NULL
         WHERE id = ?
-      `);
-      updateStmt.run(dlqId);
+      `).run(retried.id, dlqId);
       return true;
     } catch (error) {
-      const updateStmt = this.db.prepare(`
-        UPDATE dead_letter_queue
-        SET retry_count = retry_count + 1
-        WHERE id = ?
-      `);
-      updateStmt.run(dlqId);
+      console.error(`Retry of dead letter ${dlqId} requested by ${agentId} failed:`, error);
+      this.scheduleNextRetry(dlq.id, dlq.retry_count + 1);
       return false;
     }
   }
@@ -371,24 +1531,107 @@ export class MessageBus {
     return result.changes > 0;
   }
 
+  /**
+   * Resolves open dead letters whose most recent retry has since been
+   * acknowledged or answered.
+   */
+  resolveDeliveredDeadLetters(): number {
+    const stmt = this.db.prepare(`
+      UPDATE dead_letter_queue
+      SET resolved_at = datetime('now'), failure_reason = failure_reason || ' | Resolution: delivered on retry'
+      WHERE resolved_at IS NULL
+        AND retry_message_id IS NOT NULL
+        AND EXISTS (
+          SELECT 1 FROM messages m
+          WHERE m.id = dead_letter_queue.retry_message_id AND ${DELIVERED_CONDITION}
+        )
+    `);
+    return stmt.run().changes;
+  }
+
+  /**
+   * Routes expired direct messages, requests and consumer-group messages that
+   * nobody acknowledged or answered to the dead letter queue, and schedules the
+   * next retry for dead letters whose retried message expired undelivered.
+   */
+  deadLetterExpiredMessages(): number {
+    const expired = this.db.prepare(`
+      SELECT m.id FROM messages m
+      WHERE m.expires_at IS NOT NULL AND datetime(m.expires_at) < datetime('now')
+        AND (
+          m.message_type IN ('direct', 'request')
+          OR EXISTS (SELECT 1 FROM message_leases l WHERE l.message_id = m.id)
+        )
+        AND NOT (${DELIVERED_CONDITION})
+        AND NOT EXISTS (SELECT 1 FROM dead_letter_queue d WHERE d.original_message_id = m.id)
+        AND NOT EXISTS (SELECT 1 FROM dead_letter_queue d WHERE d.retry_message_id = m.id)
+    `).all() as { id: string }[];
+
+    for (const { id } of expired) {
+      this.addToDeadLetter(id, 'Expired without acknowledgement');
+    }
+
+    const failedRetries = this.db.prepare(`
+      SELECT d.* FROM dead_letter_queue d
+      WHERE d.resolved_at IS NULL
+        AND d.retry_message_id IS NOT NULL
+        AND NOT EXISTS (
+          SELECT 1 FROM messages m
+          WHERE m.id = d.retry_message_id
+            AND (m.expires_at IS NULL OR datetime(m.expires_at) >= datetime('now') OR ${DELIVERED_CONDITION})
+        )
+    `).all() as DeadLetter[];
+
+    for (const dlq of failedRetries) {
+      this.scheduleNextRetry(dlq.id, dlq.retry_count);
+    }
+
+    return expired.length;
+  }
+
+  private scheduleNextRetry(dlqId: string, retryCount: number): void {
+    this.db.prepare(`
+      UPDATE dead_letter_queue
+      SET retry_count = ?,
+          retry_message_id = NULL,
+          next_retry_at = CASE WHEN ? < max_retries THEN datetime('now', '+' || ? || ' seconds') END
+      WHERE id = ?
+    `).run(retryCount, retryCount, deadLetterBackoffSeconds(retryCount), dlqId);
+  }
+
   sendMultiRecipient(channel: string, senderAgent: string, senderSession: string, content: string, recipients: string[]): Message {
-    const message = this.sendMessage(channel, senderAgent, senderSession, content, {
-      messageType: 'direct'
+    return this.sendMessage(channel, senderAgent, senderSession, content, {
+      messageType: 'direct',
+      recipients
     });
+  }
 
-    const recipientStmt = this.db.prepare(`
-      INSERT INTO message_recipients (message_id, agent_id)
-      VALUES (?, ?)
+  /**
+   * Stamps delivered_at for the agent on the given messages it is a
+   * recipient of. Returns how many were newly delivered.
+   */
+  markDelivered(agentId: string, messageIds: string[]): number {
+    const stmt = this.db.prepare(`
+      UPDATE message_recipients SET delivered_at = datetime('now')
+      WHERE message_id = ? AND agent_id = ? AND delivered_at IS NULL
     `);
+    const mark = this.db.transaction(() => messageIds.reduce((count, id) => count + stmt.run(id, agentId).changes, 0));
+    return mark();
+  }
 
-    for (const recipientId of recipients) {
-      recipientStmt.run(message.id, recipientId);
-    }
-
-    return message;
+  getRecipients(messageId: string): string[] {
+    const rows = this.db.prepare('SELECT agent_id FROM message_recipients WHERE message_id = ? ORDER BY agent_id').all(messageId) as
+      { agent_id: string }[];
+    return rows.map(r => r.agent_id);
   }
 
-  sendDirectMessage(fromAgent: string, toAgent: string, sessionId: string, content: string): Message {
+  sendDirectMessage(
+    fromAgent: string,
+    toAgent: string,
+    sessionId: string,
+    content: string,
+    options: { encrypt?: boolean; signature?: string; nonce?: string; signedAt?: string } = {}
+  ): Message {
     const agents = [fromAgent, toAgent].sort();
     const dmChannel = `dm:${agents[0]}:${agents[1]}`;
 
@@ -398,11 +1641,25 @@ export class MessageBus {
     }
 
     return this.sendMessage(dmChannel, fromAgent, sessionId, content, {
-      messageType: 'direct'
+      messageType: 'direct',
+      encryptFor: options.encrypt ? [fromAgent, toAgent] : undefined,
+      signature: options.signature,
+      nonce: options.nonce,
+      signedAt: options.signedAt
     });
   }
 
-  getDeliveryStatus(messageId: string): DeliveryStatus {
+  /**
+   * Per-recipient receipts of a message. With a reader, only for agents that
+   * can read the message: its sender and recipients.
+   */
+  getDeliveryStatus(messageId: string, reader?: string | null): DeliveryStatus {
+    if (reader !== undefined) {
+      const message = this.getMessage(messageId);
+      if (!message || !this.isVisibleTo(message, reader)) {
+        throw new Error(`Message ${messageId} not found`);
+      }
+    }
     const stmt = this.db.prepare(`
       SELECT agent_id, delivered_at, read_at
       FROM message_recipients
@@ -426,10 +1683,11 @@ export class MessageBus {
       FROM messages
       WHERE channel IN (${placeholders})
         AND sender_agent != ?
-        AND acknowledged_at IS NULL
+        AND NOT EXISTS (SELECT 1 FROM message_acks a WHERE a.message_id = messages.id AND a.agent_id = ?)
         AND (expires_at IS NULL OR datetime(expires_at) > datetime('now'))
+        AND ${visibleToAgentCondition('messages')}
     `);
-    const result = stmt.get(...channels, agentId) as { count: number };
+    const result = stmt.get(...channels, agentId, agentId, agentId, agentId) as { count: number };
     return result.count > 0;
   }
 
@@ -445,10 +1703,11 @@ export class MessageBus {
       FROM messages
       WHERE channel IN (${placeholders})
         AND sender_agent != ?
-        AND acknowledged_at IS NULL
+        AND NOT EXISTS (SELECT 1 FROM message_acks a WHERE a.message_id = messages.id AND a.agent_id = ?)
         AND (expires_at IS NULL OR datetime(expires_at) > datetime('now'))
+        AND ${visibleToAgentCondition('messages')}
     `);
-    const result = stmt.get(...channels, agentId) as { count: number; oldest_age_seconds: number | null; channels: string };
+    const result = stmt.get(...channels, agentId, agentId, agentId, agentId) as { count: number; oldest_age_seconds: number | null; channels: string };
     return {
       count: result.count,
       oldest_age_seconds: result.oldest_age_seconds,
@@ -456,37 +1715,89 @@ export class MessageBus {
     };
   }
 
-  async waitForAck(messageId: string, timeoutMs: number = 30000, pollIntervalMs: number = 500): Promise<boolean> {
-    const startTime = Date.now();
-    
-    while (Date.now() - startTime < timeoutMs) {
-      const message = this.getMessage(messageId);
-      if (!message) {
-        throw new Error(`Message ${messageId} not found`);
-      }
-      
-      if (message.acknowledged_at) {
-        return true;
-      }
-      
-      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
+  async waitForAck(messageId: string, timeoutMs: number = 30000, pollIntervalMs: number = FALLBACK_POLL_INTERVAL_MS): Promise<boolean> {
+    if (!this.getMessage(messageId)) {
+      throw new Error(`Message ${messageId} not found`);
     }
-    
-    return false;
+
+    const acknowledged = await this.waitUntil(
+      () => (this.getMessage(messageId)?.acknowledged_at ? true : null),
+      wake => this.on('acknowledged', event => {
+        if (event.message_id === messageId) wake();
+      }),
+      timeoutMs,
+      pollIntervalMs
+    );
+    return acknowledged ?? false;
   }
 
-  async waitForResponse(correlationId: string, timeoutMs: number = 30000, pollIntervalMs: number = 500): Promise<Message | null> {
-    const startTime = Date.now();
-    
-    while (Date.now() - startTime < timeoutMs) {
-      const responses = this.getResponses(correlationId);
-      if (responses.length > 0) {
-        return responses[0];
-      }
-      
-      await new Promise(resolve => setTimeout(resolve, pollIntervalMs));
-    }
-    
-    return null;
+  async waitForResponse(correlationId: string, timeoutMs: number = 30000, pollIntervalMs: number = FALLBACK_POLL_INTERVAL_MS): Promise<Message | null> {
+    return this.waitUntil(
+      () => this.getResponses(correlationId)[0] ?? null,
+      wake => this.on('response', response => {
+        if (response.correlation_id === correlationId) wake();
+      }),
+      timeoutMs,
+      pollIntervalMs
+    );
+  }
+
+  /**
+   * Long-poll variant of getMessages: resolves as soon as at least one matching
+   * message is available, or with an empty list once timeoutMs elapses.
+   */
+  async waitForMessages(
+    channel: string,
+    options: GetMessagesOptions = {},
+    timeoutMs: number = 30000,
+    pollIntervalMs: number = FALLBACK_POLL_INTERVAL_MS
+  ): Promise<Message[]> {
+    const messages = await this.waitUntil(
+      () => {
+        const found = this.getMessages(channel, options);
+        return found.length > 0 ? found : null;
+      },
+      wake => this.on('message', message => {
+        if (message.channel === channel && message.sender_agent !== options.excludeSender) wake();
+      }),
+      timeoutMs,
+      pollIntervalMs
+    );
+    return messages ?? [];
+  }
+
+  private waitUntil<T>(
+    check: () => T | null,
+    subscribe: (wake: () => void) => () => void,
+    timeoutMs: number,
+    pollIntervalMs: number
+  ): Promise<T | null> {
+    return new Promise((resolve, reject) => {
+      let settled = false;
+      const settle = (): boolean => {
+        if (settled) return false;
+        settled = true;
+        unsubscribe();
+        clearTimeout(timer);
+        clearInterval(poller);
+        return true;
+      };
+      const wake = () => {
+        if (settled) return;
+        try {
+          const value = check();
+          if (value !== null && settle()) resolve(value);
+        } catch (error) {
+          if (settle()) reject(error);
+        }
+      };
+
+      const unsubscribe = subscribe(wake);
+      const timer = setTimeout(() => {
+        if (settle()) resolve(null);
+      }, timeoutMs);
+      const poller = setInterval(wake, pollIntervalMs);
+      wake();
+    });
   }
 }
@@ -0,0 +1,452 @@
+import type Database from 'better-sqlite3';
+import { MessageBus } from './bus.js';
+import { toSqliteDatetime, type Message } from './database.js';
+import { createACPMessage, type ConsensusVote } from './acp-protocol.js';
+
+export type ConsensusThreshold = 'majority' | 'supermajority';
+
+export type ConsensusOutcome = 'approved' | 'rejected' | 'changes_requested' | 'no_consensus' | 'no_quorum';
+
+export interface ConsensusRequestRecord {
+  id: string;
+  request_message_id: string;
+  channel: string;
+  requester_agent: string;
+  requester_session: string;
+  proposal: string;
+  proposal_data: Record<string, unknown>;
+  target_agents: string[] | null;
+  quorum: number;
+  threshold: ConsensusThreshold;
+  voting_deadline: string;
+  status: 'open' | 'decided';
+  outcome: ConsensusOutcome | null;
+  decided_at: string | null;
+  decision_message_id: string | null;
+  created_at: string;
+}
+
+export interface CastVote {
+  agent_id: string;
+  vote: ConsensusVote;
+  reason: string | null;
+  suggestions: string | null;
+  message_id: string;
+  cast_at: string;
+}
+
+export interface IgnoredVote {
+  agent_id: string;
+  message_id: string;
+  reason: string;
+}
+
+export interface ConsensusResult extends ConsensusRequestRecord {
+  tally: Record<ConsensusVote, number>;
+  total_votes: number;
+  quorum_met: boolean;
+  votes: CastVote[];
+  pending_agents: string[];
+  ignored: IgnoredVote[];
+  // Outcome if voting closed now; equals outcome once decided
+  projected_outcome: ConsensusOutcome;
+}
+
+export interface RequestConsensusOptions {
+  channel?: string;
+  proposalData?: Record<string, unknown>;
+  targetAgents?: string[];
+  quorum?: number;
+  threshold?: ConsensusThreshold;
+  votingDeadlineSeconds?: number;
+}
+
+const VOTES: ConsensusVote[] = ['AGREE', 'DISAGREE', 'SUGGEST_CHANGES'];
+
+// Share of cast votes a choice needs under each threshold
+const THRESHOLD_SHARES: Record<ConsensusThreshold, number> = {
+  majority: 0.5,
+  supermajority: 2 / 3
+};
+
+const THRESHOLD_OUTCOMES: Record<ConsensusVote, ConsensusOutcome> = {
+  AGREE: 'approved',
+  DISAGREE: 'rejected',
+  SUGGEST_CHANGES: 'changes_requested'
+};
+
+interface ConsensusRequestRow extends Omit<ConsensusRequestRecord, 'proposal_data' | 'target_agents'> {
+  proposal_data: string;
+  target_agents: string | null;
+}
+
+/**
+ * Tallies CONSENSUS_RESPONSE votes for consensus requests.
+ *
+ * Votes are read from the bus rather than captured in-process, so votes sent
+ * through other server processes sharing the database count too. Agents vote
+ * either with bus_respond on the request's correlation ID or with an ACP
+ * CONSENSUS_RESPONSE carrying that correlation_id on the request's channel.
+ * Counted votes are copied to consensus_votes so a decided tally survives
+ * message expiry.
+ */
+export class ConsensusManager {
+  private db: Database.Database;
+  private bus: MessageBus;
+  private intervalHandle: NodeJS.Timeout | null = null;
+  private unsubscribe: (() => void) | null = null;
+
+  constructor(db: Database.Database, bus: MessageBus) {
+    this.db = db;
+    this.bus = bus;
+  }
+
+  requestConsensus(
+    agentId: string,
+    sessionId: string,
+    proposal: string,
+    options: RequestConsensusOptions = {}
+  ): ConsensusRequestRecord {
+    const channel = options.channel || 'coordination';
+    const votingDeadlineSeconds = options.votingDeadlineSeconds || 60;
+    const threshold = options.threshold ?? 'majority';
+    const targetAgents = options.targetAgents?.length ? [...new Set(options.targetAgents)] : null;
+
+    if (!Number.isInteger(votingDeadlineSeconds) || votingDeadlineSeconds <= 0) {
+      throw new Error('voting_deadline_seconds must be a positive integer');
+    }
+    if (!(threshold in THRESHOLD_SHARES)) {
+      throw new Error(`Invalid threshold: ${threshold}`);
+    }
+
+    const quorum = options.quorum || (targetAgents ? Math.ceil(targetAgents.length / 2) : 2);
+    if (!Number.isInteger(quorum) || quorum <= 0) {
+      throw new Error('quorum must be a positive integer');
+    }
+    if (targetAgents && quorum > targetAgents.length) {
+      throw new Error(`quorum ${quorum} exceeds the ${targetAgents.length} target agents`);
+    }
+
+    const votingDeadline = new Date(Date.now() + votingDeadlineSeconds * 1000).toISOString();
+    const acpMessage = createACPMessage('CONSENSUS_REQUEST', agentId, sessionId, {
+      proposal,
+      voting_deadline: votingDeadline,
+      quorum,
+      threshold,
+      proposal_data: options.proposalData || {},
+      target_agents: targetAgents ?? undefined
+    });
+
+    const request = this.bus.sendRequest(channel, agentId, sessionId, JSON.stringify(acpMessage), votingDeadlineSeconds);
+
+    this.db.prepare(`
+      INSERT INTO consensus_requests (
+        id, request_message_id, channel, requester_agent, requester_session, proposal,
+        proposal_data, target_agents, quorum, threshold, voting_deadline
+      ) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      request.correlation_id,
+      request.id,
+      channel,
+      agentId,
+      sessionId,
+      proposal,
+      JSON.stringify(options.proposalData || {}),
+      targetAgents ? JSON.stringify(targetAgents) : null,
+      quorum,
+      threshold,
+      toSqliteDatetime(votingDeadline)
+    );
+
+    return this.getRequest(request.correlation_id!)!;
+  }
+
+  getRequest(id: string): ConsensusRequestRecord | null {
+    const row = this.db.prepare('SELECT * FROM consensus_requests WHERE id = ?').get(id) as ConsensusRequestRow | undefined;
+    if (!row) {
+      return null;
+    }
+    return {
+      ...row,
+      proposal_data: JSON.parse(row.proposal_data),
+      target_agents: row.target_agents ? JSON.parse(row.target_agents) : null
+    };
+  }
+
+  /**
+   * Current tally for a consensus request. Decides the request first if
+   * voting has closed, so callers never see a stale open result.
+   */
+  getResult(id: string): ConsensusResult {
+    const request = this.getRequest(id);
+    if (!request) {
+      throw new Error(`Consensus request ${id} not found`);
+    }
+    if (request.status === 'open') {
+      this.evaluate(id);
+    }
+    return this.buildResult(this.getRequest(id)!);
+  }
+
+  start(intervalMs: number = 10000): void {
+    if (this.intervalHandle) {
+      return;
+    }
+
+    // Votes from this process can close a request early; the interval covers deadlines and other processes.
+    // Only a vote for an open request can change a tally, so other messages cost no scan
+    this.unsubscribe = this.bus.on('message', message => {
+      try {
+        const vote = parseVote(this.bus.decodeMessages([message])[0]);
+        if (!vote) {
+          return;
+        }
+        const open = this.db.prepare(`
+          SELECT 1 FROM consensus_requests WHERE id = ? AND status = 'open'
+        `).get(vote.requestId);
+        if (open) {
+          this.evaluate(vote.requestId);
+        }
+      } catch (error) {
+        console.error('Consensus evaluation failed:', error);
+      }
+    });
+    this.intervalHandle = setInterval(() => {
+      this.processOpenRequests();
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.intervalHandle) {
+      clearInterval(this.intervalHandle);
+      this.intervalHandle = null;
+    }
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  processOpenRequests(): number {
+    let decided = 0;
+    try {
+      const open = this.db.prepare("SELECT id FROM consensus_requests WHERE status = 'open'").all() as { id: string }[];
+      for (const { id } of open) {
+        if (this.evaluate(id)) {
+          decided++;
+        }
+      }
+    } catch (error) {
+      console.error('Consensus pass failed:', error);
+    }
+    return decided;
+  }
+
+  /**
+   * Collects new votes and decides the request once the deadline has passed
+   * or every target agent has voted. Returns true if it was decided now.
+   */
+  private evaluate(id: string): boolean {
+    const request = this.getRequest(id);
+    if (!request || request.status !== 'open') {
+      return false;
+    }
+
+    const ignored = this.collectVotes(request);
+    const result = this.buildResult(request, ignored);
+    const deadlinePassed = Date.parse(request.voting_deadline.replace(' ', 'T') + 'Z') <= Date.now();
+    const everyoneVoted = request.target_agents !== null && result.pending_agents.length === 0;
+    if (!deadlinePassed && !everyoneVoted) {
+      return false;
+    }
+
+    const decide = this.db.transaction(() => {
+      const claimed = this.db.prepare(`
+        UPDATE consensus_requests SET status = 'decided', outcome = ?, decided_at = datetime('now')
+        WHERE id = ? AND status = 'open'
+      `).run(result.projected_outcome, id);
+      return claimed.changes > 0;
+    });
+    if (!decide()) {
+      return false;
+    }
+
+    const decision = createACPMessage('STATUS_UPDATE', request.requester_agent, request.requester_session, {
+      status: 'consensus_decided',
+      proposal: request.proposal,
+      outcome: result.projected_outcome,
+      tally: result.tally,
+      total_votes: result.total_votes,
+      quorum: request.quorum,
+      quorum_met: result.quorum_met,
+      threshold: request.threshold
+    }, { correlationId: id });
+
+    try {
+      const message = this.bus.sendMessage(
+        request.channel,
+        request.requester_agent,
+        request.requester_session,
+        JSON.stringify(decision),
+        { correlationId: id, priority: 1 }
+      );
+      this.db.prepare('UPDATE consensus_requests SET decision_message_id = ? WHERE id = ?').run(message.id, id);
+    } catch (error) {
+      console.error(`Failed to publish consensus decision for ${id}:`, error);
+    }
+    return true;
+  }
+
+  // Returns the vote messages that were not counted, for the result built right after
+  private collectVotes(request: ConsensusRequestRecord): IgnoredVote[] {
+    const upsert = this.db.prepare(`
+      INSERT INTO consensus_votes (request_id, agent_id, vote, reason, suggestions, message_id, cast_at)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+      ON CONFLICT(request_id, agent_id) DO UPDATE SET
+        vote = excluded.vote,
+        reason = excluded.reason,
+        suggestions = excluded.suggestions,
+        message_id = excluded.message_id,
+        cast_at = excluded.cast_at
+      WHERE datetime(excluded.cast_at) >= datetime(consensus_votes.cast_at)
+    `);
+
+    const { votes, ignored } = this.scanVotes(request);
+    const collect = this.db.transaction(() => {
+      for (const vote of votes) {
+        upsert.run(request.id, vote.agent_id, vote.vote, vote.reason, vote.suggestions, vote.message_id, vote.cast_at);
+      }
+    });
+    collect();
+    return ignored;
+  }
+
+  /**
+   * Reads vote messages for the request from the bus. When an agent votes more
+   * than once, the latest vote before the deadline counts.
+   */
+  private scanVotes(request: ConsensusRequestRecord): { votes: CastVote[]; ignored: IgnoredVote[] } {
+    // Stored content may be compressed, so envelopes are only recognised once decoded
+    const messages = this.bus.decodeMessages(this.db.prepare(`
+      SELECT * FROM messages
+      WHERE id != ? AND encrypted = 0
+        AND (
+          (correlation_id = ? AND message_type = 'response')
+          OR (channel = ? AND datetime(created_at) >= datetime(?))
+        )
+      ORDER BY created_at ASC, rowid ASC
+    `).all(request.request_message_id, request.id, request.channel, request.created_at) as Message[]);
+
+    const latest = new Map<string, CastVote>();
+    const ignored: IgnoredVote[] = [];
+
+    for (const message of messages) {
+      const parsed = parseVote(message);
+      if (!parsed || parsed.requestId !== request.id) {
+        continue;
+      }
+      const reject = (reason: string) => ignored.push({ agent_id: message.sender_agent, message_id: message.id, reason });
+
+      if (!VOTES.includes(parsed.vote as ConsensusVote)) {
+        reject(`Invalid vote "${parsed.vote}"; expected one of ${VOTES.join(', ')}`);
+      } else if (request.target_agents && !request.target_agents.includes(message.sender_agent)) {
+        reject('Agent is not in target_agents');
+      } else if (message.created_at > request.voting_deadline) {
+        reject('Cast after the voting deadline');
+      } else {
+        latest.set(message.sender_agent, {
+          agent_id: message.sender_agent,
+          vote: parsed.vote as ConsensusVote,
+          reason: parsed.reason ?? null,
+          suggestions: parsed.suggestions ?? null,
+          message_id: message.id,
+          cast_at: message.created_at
+        });
+      }
+    }
+
+    return { votes: [...latest.values()], ignored };
+  }
+
+  private buildResult(request: ConsensusRequestRecord, ignored?: IgnoredVote[]): ConsensusResult {
+    const votes = this.db.prepare(`
+      SELECT agent_id, vote, reason, suggestions, message_id, cast_at FROM consensus_votes
+      WHERE request_id = ? ORDER BY cast_at, agent_id
+    `).all(request.id) as CastVote[];
+    ignored ??= request.status === 'open' ? this.scanVotes(request).ignored : [];
+
+    const tally = { AGREE: 0, DISAGREE: 0, SUGGEST_CHANGES: 0 } as Record<ConsensusVote, number>;
+    for (const vote of votes) {
+      tally[vote.vote]++;
+    }
+    const totalVotes = votes.length;
+    const quorumMet = totalVotes >= request.quorum;
+    const voted = new Set(votes.map(v => v.agent_id));
+
+    return {
+      ...request,
+      tally,
+      total_votes: totalVotes,
+      quorum_met: quorumMet,
+      votes,
+      pending_agents: (request.target_agents ?? []).filter(agent => !voted.has(agent)),
+      ignored,
+      projected_outcome: request.outcome ?? computeOutcome(tally, totalVotes, quorumMet, request.threshold)
+    };
+  }
+}
+
+function computeOutcome(
+  tally: Record<ConsensusVote, number>,
+  totalVotes: number,
+  quorumMet: boolean,
+  threshold: ConsensusThreshold
+): ConsensusOutcome {
+  if (!quorumMet) {
+    return 'no_quorum';
+  }
+
+  // A simple majority must be strictly more than half; a supermajority at least two thirds
+  const share = THRESHOLD_SHARES[threshold];
+  for (const vote of VOTES) {
+    const passes = threshold === 'majority' ? tally[vote] > totalVotes * share : tally[vote] >= totalVotes * share;
+    if (passes) {
+      return THRESHOLD_OUTCOMES[vote];
+    }
+  }
+  return 'no_consensus';
+}
+
+interface ParsedVote {
+  requestId: string;
+  vote: unknown;
+  reason?: string;
+  suggestions?: string;
+}
+
+// Accepts a bare ConsensusResponse or an ACP CONSENSUS_RESPONSE envelope; returns null for anything else
+function parseVote(message: Message): ParsedVote | null {
+  let content: any;
+  try {
+    content = JSON.parse(message.content);
+  } catch {
+    return null;
+  }
+  if (!content || typeof content !== 'object') {
+    return null;
+  }
+
+  if (content.type === 'CONSENSUS_RESPONSE') {
+    const requestId = content.correlation_id ?? message.correlation_id;
+    if (typeof requestId !== 'string' || !content.payload || typeof content.payload !== 'object') {
+      return null;
+    }
+    const { vote, reason, suggestions } = content.payload;
+    return { requestId, vote, reason, suggestions };
+  }
+
+  if (message.message_type === 'response' && message.correlation_id && 'vote' in content) {
+    return { requestId: message.correlation_id, vote: content.vote, reason: content.reason, suggestions: content.suggestions };
+  }
+  return null;
+}
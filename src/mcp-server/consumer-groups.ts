@@ -0,0 +1,288 @@
+import type Database from 'better-sqlite3';
+import { MessageBus, visibleToAgentCondition } from './bus.js';
+import type { Message } from './database.js';
+
+// Lease expiries and writes from other processes are picked up at least this often
+const FALLBACK_POLL_INTERVAL_MS = 5000;
+
+export interface ConsumerGroup {
+  channel: string;
+  group_name: string;
+  visibility_timeout_seconds: number;
+  max_deliveries: number;
+  created_by: string;
+  created_at: string;
+}
+
+export interface ConsumerGroupSummary extends ConsumerGroup {
+  members: string[];
+  in_flight: number;
+}
+
+export interface LeasedMessage extends Message {
+  consumer_group: string;
+  lease_expires_at: string;
+  delivery_count: number;
+}
+
+/**
+ * Competing-consumer delivery on top of a channel.
+ *
+ * Each message on the channel is leased to exactly one member of a group for
+ * the group's visibility timeout. A lease that expires without bus_acknowledge
+ * makes the message available again, preferring a different member. After
+ * max_deliveries unacknowledged leases the message goes to the dead letter queue.
+ */
+export class ConsumerGroupManager {
+  private db: Database.Database;
+  private bus: MessageBus;
+
+  constructor(db: Database.Database, bus: MessageBus) {
+    this.db = db;
+    this.bus = bus;
+  }
+
+  createGroup(
+    channel: string,
+    groupName: string,
+    createdBy: string,
+    visibilityTimeoutSeconds: number = 300,
+    maxDeliveries: number = 5
+  ): ConsumerGroup {
+    if (!Number.isInteger(visibilityTimeoutSeconds) || visibilityTimeoutSeconds <= 0) {
+      throw new Error('visibilityTimeoutSeconds must be a positive integer');
+    }
+    if (!Number.isInteger(maxDeliveries) || maxDeliveries <= 0) {
+      throw new Error('maxDeliveries must be a positive integer');
+    }
+
+    if (!this.bus.getChannel(channel)) {
+      this.bus.createChannel(channel);
+    }
+
+    this.db.prepare(`
+      INSERT INTO consumer_groups (channel, group_name, visibility_timeout_seconds, max_deliveries, created_by)
+      VALUES (?, ?, ?, ?, ?)
+      ON CONFLICT(channel, group_name) DO UPDATE SET
+        visibility_timeout_seconds = excluded.visibility_timeout_seconds,
+        max_deliveries = excluded.max_deliveries
+    `).run(channel, groupName, visibilityTimeoutSeconds, maxDeliveries, createdBy);
+
+    const result = this.getGroup(channel, groupName);
+    if (!result) throw new Error(`Failed to create/retrieve consumer group: ${channel}/${groupName}`);
+    return result;
+  }
+
+  getGroup(channel: string, groupName: string): ConsumerGroup | null {
+    const stmt = this.db.prepare('SELECT * FROM consumer_groups WHERE channel = ? AND group_name = ?');
+    return stmt.get(channel, groupName) as ConsumerGroup | null;
+  }
+
+  listGroups(channel?: string): ConsumerGroupSummary[] {
+    let query = 'SELECT * FROM consumer_groups';
+    const params: string[] = [];
+
+    if (channel) {
+      query += ' WHERE channel = ?';
+      params.push(channel);
+    }
+
+    query += ' ORDER BY channel, group_name';
+
+    const groups = this.db.prepare(query).all(...params) as ConsumerGroup[];
+    const inFlightStmt = this.db.prepare(`
+      SELECT COUNT(*) as count FROM message_leases
+      WHERE channel = ? AND group_name = ?
+        AND acknowledged_at IS NULL
+        AND datetime(lease_expires_at) > datetime('now')
+    `);
+
+    return groups.map(group => ({
+      ...group,
+      members: this.getMembers(group.channel, group.group_name),
+      in_flight: (inFlightStmt.get(group.channel, group.group_name) as { count: number }).count
+    }));
+  }
+
+  getMembers(channel: string, groupName: string): string[] {
+    const stmt = this.db.prepare(`
+      SELECT agent_id FROM consumer_group_members
+      WHERE channel = ? AND group_name = ?
+      ORDER BY joined_at
+    `);
+    return (stmt.all(channel, groupName) as { agent_id: string }[]).map(row => row.agent_id);
+  }
+
+  joinGroup(channel: string, groupName: string, agentId: string): void {
+    if (!this.getGroup(channel, groupName)) {
+      throw new Error(`Consumer group ${groupName} does not exist on channel ${channel}`);
+    }
+    this.bus.checkChannelAccess(channel, agentId, 'subscribe');
+
+    this.db.prepare(`
+      INSERT OR IGNORE INTO consumer_group_members (channel, group_name, agent_id)
+      VALUES (?, ?, ?)
+    `).run(channel, groupName, agentId);
+  }
+
+  leaveGroup(channel: string, groupName: string, agentId: string): boolean {
+    const leave = this.db.transaction(() => {
+      const result = this.db.prepare(`
+        DELETE FROM consumer_group_members
+        WHERE channel = ? AND group_name = ? AND agent_id = ?
+      `).run(channel, groupName, agentId);
+
+      // Release in-flight leases so the remaining members pick them up immediately
+      this.db.prepare(`
+        UPDATE message_leases
+        SET lease_expires_at = datetime('now')
+        WHERE channel = ? AND group_name = ? AND agent_id = ? AND acknowledged_at IS NULL
+      `).run(channel, groupName, agentId);
+
+      return result.changes > 0;
+    });
+    return leave();
+  }
+
+  receive(channel: string, groupName: string, agentId: string, limit: number = 10): LeasedMessage[] {
+    const group = this.getGroup(channel, groupName);
+    if (!group) {
+      throw new Error(`Consumer group ${groupName} does not exist on channel ${channel}`);
+    }
+    this.bus.checkChannelAccess(channel, agentId, 'read');
+
+    const lease = this.db.transaction((): LeasedMessage[] => {
+      const members = this.getMembers(channel, groupName);
+      if (!members.includes(agentId)) {
+        throw new Error(`Agent ${agentId} is not a member of consumer group ${groupName}`);
+      }
+
+      this.deadLetterExhaustedLeases(group);
+
+      // Expired leases go to a different member unless this agent is the only one left
+      const candidates = this.db.prepare(`
+        SELECT m.* FROM messages m
+        LEFT JOIN message_leases l
+          ON l.message_id = m.id AND l.channel = ? AND l.group_name = ?
+        WHERE m.channel = ?
+          AND m.sender_agent != ?
+          AND (m.expires_at IS NULL OR datetime(m.expires_at) > datetime('now'))
+          AND ${visibleToAgentCondition('m')}
+          AND (
+            l.message_id IS NULL
+            OR (
+              l.acknowledged_at IS NULL
+              AND l.dead_lettered_at IS NULL
+              AND datetime(l.lease_expires_at) <= datetime('now')
+              AND (l.agent_id != ? OR ? = 1)
+            )
+          )
+        ORDER BY m.priority DESC, m.created_at ASC
+        LIMIT ?
+      `).all(channel, groupName, channel, agentId, agentId, agentId, agentId, members.length, limit) as Message[];
+
+      const leaseStmt = this.db.prepare(`
+        INSERT INTO message_leases (message_id, channel, group_name, agent_id, lease_expires_at)
+        VALUES (?, ?, ?, ?, datetime('now', '+' || ? || ' seconds'))
+        ON CONFLICT(message_id, channel, group_name) DO UPDATE SET
+          agent_id = excluded.agent_id,
+          leased_at = datetime('now'),
+          lease_expires_at = excluded.lease_expires_at,
+          delivery_count = delivery_count + 1
+        RETURNING lease_expires_at, delivery_count
+      `);
+
+      return candidates.map(message => {
+        const leaseInfo = leaseStmt.get(
+          message.id, channel, groupName, agentId, group.visibility_timeout_seconds
+        ) as { lease_expires_at: string; delivery_count: number };
+
+        return {
+          ...message,
+          consumer_group: groupName,
+          lease_expires_at: leaseInfo.lease_expires_at,
+          delivery_count: leaseInfo.delivery_count
+        };
+      });
+    });
+
+    return lease();
+  }
+
+  private deadLetterExhaustedLeases(group: ConsumerGroup): void {
+    const exhausted = this.db.prepare(`
+      SELECT message_id FROM message_leases
+      WHERE channel = ? AND group_name = ?
+        AND acknowledged_at IS NULL
+        AND dead_lettered_at IS NULL
+        AND datetime(lease_expires_at) <= datetime('now')
+        AND delivery_count >= ?
+    `).all(group.channel, group.group_name, group.max_deliveries) as { message_id: string }[];
+
+    const markStmt = this.db.prepare(`
+      UPDATE message_leases SET dead_lettered_at = datetime('now')
+      WHERE message_id = ? AND channel = ? AND group_name = ?
+    `);
+
+    for (const { message_id } of exhausted) {
+      this.bus.addToDeadLetter(
+        message_id,
+        `Exceeded ${group.max_deliveries} delivery attempts in consumer group ${group.group_name}`
+      );
+      markStmt.run(message_id, group.channel, group.group_name);
+    }
+  }
+
+  /**
+   * Long-poll variant of receive: waits for new channel messages or expiring
+   * leases until something can be leased to the agent or timeoutMs elapses.
+   */
+  async receiveWait(channel: string, groupName: string, agentId: string, limit: number, timeoutMs: number): Promise<LeasedMessage[]> {
+    const deadline = Date.now() + timeoutMs;
+    let leased = this.receive(channel, groupName, agentId, limit);
+
+    while (leased.length === 0 && Date.now() < deadline) {
+      await this.nextWakeup(channel, groupName, deadline);
+      leased = this.receive(channel, groupName, agentId, limit);
+    }
+    return leased;
+  }
+
+  private nextWakeup(channel: string, groupName: string, deadline: number): Promise<void> {
+    const nextExpiry = this.db.prepare(`
+      SELECT MIN(lease_expires_at) as next_expiry FROM message_leases
+      WHERE channel = ? AND group_name = ? AND acknowledged_at IS NULL
+        AND datetime(lease_expires_at) > datetime('now')
+    `).get(channel, groupName) as { next_expiry: string | null };
+
+    let wakeAt = Math.min(deadline, Date.now() + FALLBACK_POLL_INTERVAL_MS);
+    if (nextExpiry.next_expiry) {
+      wakeAt = Math.min(wakeAt, new Date(nextExpiry.next_expiry.replace(' ', 'T') + 'Z').getTime() + 1000);
+    }
+
+    return new Promise(resolve => {
+      const timer = setTimeout(done, Math.max(0, wakeAt - Date.now()));
+      const unsubscribe = this.bus.on('message', message => {
+        if (message.channel === channel) done();
+      });
+      function done() {
+        clearTimeout(timer);
+        unsubscribe();
+        resolve();
+      }
+    });
+  }
+
+  /**
+   * Completes every lease the agent currently holds on the message.
+   * Returns true if at least one lease was completed.
+   */
+  acknowledge(messageId: string, agentId: string): boolean {
+    const result = this.db.prepare(`
+      UPDATE message_leases
+      SET acknowledged_at = datetime('now')
+      WHERE message_id = ? AND agent_id = ? AND acknowledged_at IS NULL
+    `).run(messageId, agentId);
+    return result.changes > 0;
+  }
+}
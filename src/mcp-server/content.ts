@@ -0,0 +1,90 @@
+import { brotliCompressSync, brotliDecompressSync, gzipSync, gunzipSync } from 'zlib';
+import { validateACPMessage } from './acp-protocol.js';
+
+export type ContentType = 'text' | 'json' | 'acp' | 'binary-base64';
+export type CompressionAlgorithm = 'gzip' | 'br';
+// How content is stored in messages.content; compressed content is base64
+export type ContentEncoding = 'identity' | CompressionAlgorithm;
+
+export const CONTENT_TYPES: ContentType[] = ['text', 'json', 'acp', 'binary-base64'];
+export const COMPRESSION_ALGORITHMS: CompressionAlgorithm[] = ['gzip', 'br'];
+
+// 'auto' compression only kicks in for payloads at least this large
+export const AUTO_COMPRESSION_THRESHOLD_BYTES = 1024;
+
+export interface EncodedContent {
+  content: string;
+  encoding: ContentEncoding;
+  // Bytes of the original content, and of what is stored
+  content_size: number;
+  stored_size: number;
+}
+
+const BASE64_PATTERN = /^(?:[A-Za-z0-9+/]{4})*(?:[A-Za-z0-9+/]{2}==|[A-Za-z0-9+/]{3}=)?$/;
+
+/**
+ * Throws if content doesn't match its declared type: json must parse,
+ * acp must be a valid ACP envelope and binary-base64 must be base64.
+ */
+export function validateContent(content: string, contentType: ContentType): void {
+  if (!CONTENT_TYPES.includes(contentType)) {
+    throw new Error(`content_type must be one of: ${CONTENT_TYPES.join(', ')}`);
+  }
+  if (contentType === 'binary-base64') {
+    if (!BASE64_PATTERN.test(content)) {
+      throw new Error('Content is not valid base64');
+    }
+    return;
+  }
+  if (contentType === 'text') {
+    return;
+  }
+
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`Content is not valid JSON: ${error instanceof Error ? error.message : String(error)}`);
+  }
+  if (contentType === 'acp') {
+    const validation = validateACPMessage(parsed ?? {});
+    if (!validation.valid) {
+      throw new Error(`Content is not a valid ACP message: ${validation.errors.join('; ')}`);
+    }
+  }
+}
+
+/**
+ * Compresses content with the given algorithm, or with gzip when 'auto' and
+ * the content is at least AUTO_COMPRESSION_THRESHOLD_BYTES. Content is left
+ * as is when compression wouldn't make it smaller.
+ */
+export function encodeContent(content: string, compression?: CompressionAlgorithm | 'auto'): EncodedContent {
+  const size = Buffer.byteLength(content);
+  const identity: EncodedContent = { content, encoding: 'identity', content_size: size, stored_size: size };
+
+  const algorithm = compression === 'auto'
+    ? (size >= AUTO_COMPRESSION_THRESHOLD_BYTES ? 'gzip' : null)
+    : compression ?? null;
+  if (!algorithm) {
+    return identity;
+  }
+  if (!COMPRESSION_ALGORITHMS.includes(algorithm)) {
+    throw new Error(`compression must be one of: auto, ${COMPRESSION_ALGORITHMS.join(', ')}`);
+  }
+
+  const input = Buffer.from(content, 'utf8');
+  const compressed = (algorithm === 'gzip' ? gzipSync(input) : brotliCompressSync(input)).toString('base64');
+  if (compressed.length >= size) {
+    return identity;
+  }
+  return { content: compressed, encoding: algorithm, content_size: size, stored_size: compressed.length };
+}
+
+export function decodeContent(content: string, encoding: ContentEncoding): string {
+  if (encoding === 'identity') {
+    return content;
+  }
+  const input = Buffer.from(content, 'base64');
+  return (encoding === 'gzip' ? gunzipSync(input) : brotliDecompressSync(input)).toString('utf8');
+}
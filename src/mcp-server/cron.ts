@@ -0,0 +1,319 @@
+/**
+ * Cron expressions for MessageScheduler.
+ *
+ * Five fields (minute hour day-of-month month day-of-week) or six with a
+ * leading seconds field. Each field takes *, lists (1,15), ranges (1-5),
+ * steps (*\/15, 0-30/10) and, for months and weekdays, names (JAN, MON).
+ * Day-of-month also takes L (last day); day-of-week takes 5L (last Friday)
+ * and 5#3 (third Friday); ? is accepted as * in either. As in Vixie cron,
+ * when both day fields are restricted a day matching either one fires.
+ *
+ * Times are matched against the wall clock of an IANA timezone. A time that
+ * a DST change skips fires that much later (02:30 becomes 03:30), and a time
+ * that repeats when clocks go back fires once.
+ */
+
+export interface CronExpression {
+  source: string;
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  lastDayOfMonth: boolean;
+  months: Set<number>;
+  // 0 = Sunday
+  daysOfWeek: Set<number>;
+  lastWeekdays: Set<number>;
+  nthWeekdays: { weekday: number; nth: number }[];
+  // Whether the day fields were anything other than * or ?
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const WEEKDAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *'
+};
+
+// Long enough for Feb 29 falling on a given weekday
+const MAX_SEARCH_YEARS = 28;
+
+export function parseCron(expression: string): CronExpression {
+  const source = expression.trim();
+  const fields = (MACROS[source.toLowerCase()] ?? source).split(/\s+/);
+  if (fields.length !== 5 && fields.length !== 6) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 or 6 fields, got ${fields.length}`);
+  }
+  if (fields.length === 5) {
+    fields.unshift('0');
+  }
+  const [secondField, minuteField, hourField, dayField, monthField, weekdayField] = fields;
+
+  try {
+    const days = parseDayOfMonthField(dayField);
+    const weekdays = parseDayOfWeekField(weekdayField);
+    return {
+      source,
+      seconds: parseField(secondField, 0, 59),
+      minutes: parseField(minuteField, 0, 59),
+      hours: parseField(hourField, 0, 23),
+      daysOfMonth: days.values,
+      lastDayOfMonth: days.last,
+      months: parseField(monthField, 1, 12, MONTH_NAMES, 1),
+      daysOfWeek: weekdays.values,
+      lastWeekdays: weekdays.last,
+      nthWeekdays: weekdays.nth,
+      dayOfMonthRestricted: !isWildcard(dayField),
+      dayOfWeekRestricted: !isWildcard(weekdayField)
+    };
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${error instanceof Error ? error.message : String(error)}`);
+  }
+}
+
+/**
+ * The first time strictly after `after` that the expression fires, in the
+ * given timezone (default: the server's).
+ */
+export function nextCronOccurrence(expression: CronExpression | string, after: Date, timezone?: string): Date {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const zone = timezone ?? defaultTimezone();
+  assertValidTimezone(zone);
+
+  // Wall-clock times are held as UTC dates so calendar arithmetic ignores DST
+  let wall = new Date(Math.floor(toWallClock(after, zone).getTime() / 1000) * 1000 + 1000);
+  const limitYear = wall.getUTCFullYear() + MAX_SEARCH_YEARS;
+
+  while (wall.getUTCFullYear() <= limitYear) {
+    const match = nextWallClockMatch(cron, wall, limitYear);
+    if (!match) {
+      break;
+    }
+    const instant = fromWallClock(match, zone);
+    if (instant.getTime() > after.getTime()) {
+      return instant;
+    }
+    // Repeated wall-clock times when clocks go back map to an earlier instant
+    wall = new Date(match.getTime() + 1000);
+  }
+  throw new Error(`Cron expression "${cron.source}" never fires`);
+}
+
+export function previewCron(expression: CronExpression | string, count: number, after: Date, timezone?: string): Date[] {
+  const cron = typeof expression === 'string' ? parseCron(expression) : expression;
+  const times: Date[] = [];
+  let from = after;
+  for (let i = 0; i < count; i++) {
+    from = nextCronOccurrence(cron, from, timezone);
+    times.push(from);
+  }
+  return times;
+}
+
+export function defaultTimezone(): string {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone;
+}
+
+export function assertValidTimezone(timezone: string): void {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new Error(`Unknown timezone: ${timezone}`);
+  }
+}
+
+/**
+ * Formats an instant as the wall-clock time in timezone, e.g.
+ * "2025-03-10 09:00:00".
+ */
+export function formatInTimezone(date: Date, timezone: string): string {
+  return toWallClock(date, timezone).toISOString().replace('T', ' ').slice(0, 19);
+}
+
+function isWildcard(field: string): boolean {
+  return field === '*' || field === '?';
+}
+
+function parseField(field: string, min: number, max: number, names?: string[], nameOffset = 0): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseNumber(stepText, 1, max - min + 1, 'step');
+
+    let start: number;
+    let end: number;
+    if (isWildcard(range)) {
+      start = min;
+      end = max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, min, max, names, nameOffset);
+      end = parseValue(to, min, max, names, nameOffset);
+      if (start > end) {
+        throw new Error(`range ${range} is backwards`);
+      }
+    } else {
+      start = parseValue(range, min, max, names, nameOffset);
+      // 5/15 means "from 5, every 15"
+      end = stepText === undefined ? start : max;
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseValue(text: string, min: number, max: number, names?: string[], nameOffset = 0): number {
+  const nameIndex = names?.indexOf(text.toUpperCase()) ?? -1;
+  if (nameIndex >= 0) {
+    return nameIndex + nameOffset;
+  }
+  return parseNumber(text, min, max, 'value');
+}
+
+function parseNumber(text: string, min: number, max: number, label: string): number {
+  if (!/^\d+$/.test(text)) {
+    throw new Error(`${label} "${text}" is not a number`);
+  }
+  const value = parseInt(text, 10);
+  if (value < min || value > max) {
+    throw new Error(`${label} ${value} is outside ${min}-${max}`);
+  }
+  return value;
+}
+
+function parseDayOfMonthField(field: string): { values: Set<number>; last: boolean } {
+  const parts = field.split(',');
+  const last = parts.some(part => part.toUpperCase() === 'L');
+  const rest = parts.filter(part => part.toUpperCase() !== 'L');
+  return { values: rest.length > 0 ? parseField(rest.join(','), 1, 31) : new Set(), last };
+}
+
+function parseDayOfWeekField(field: string): {
+  values: Set<number>;
+  last: Set<number>;
+  nth: { weekday: number; nth: number }[];
+} {
+  const last = new Set<number>();
+  const nth: { weekday: number; nth: number }[] = [];
+  const rest: string[] = [];
+
+  for (const part of field.split(',')) {
+    const lastMatch = /^(\w+)L$/i.exec(part);
+    const nthMatch = /^(\w+)#(\d)$/.exec(part);
+    if (lastMatch) {
+      last.add(parseValue(lastMatch[1], 0, 7, WEEKDAY_NAMES) % 7);
+    } else if (nthMatch) {
+      nth.push({ weekday: parseValue(nthMatch[1], 0, 7, WEEKDAY_NAMES) % 7, nth: parseNumber(nthMatch[2], 1, 5, 'occurrence') });
+    } else {
+      rest.push(part);
+    }
+  }
+
+  // 7 is Sunday as well as 0
+  const values = rest.length > 0
+    ? new Set([...parseField(rest.join(','), 0, 7, WEEKDAY_NAMES)].map(day => day % 7))
+    : new Set<number>();
+  return { values, last, nth };
+}
+
+function daysInMonth(year: number, month: number): number {
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+function dayMatches(cron: CronExpression, wall: Date): boolean {
+  const year = wall.getUTCFullYear();
+  const month = wall.getUTCMonth() + 1;
+  const day = wall.getUTCDate();
+  const weekday = wall.getUTCDay();
+  const monthLength = daysInMonth(year, month);
+
+  const dayOfMonthMatch = cron.daysOfMonth.has(day) || (cron.lastDayOfMonth && day === monthLength);
+  const dayOfWeekMatch = cron.daysOfWeek.has(weekday)
+    || (cron.lastWeekdays.has(weekday) && day + 7 > monthLength)
+    || cron.nthWeekdays.some(n => n.weekday === weekday && Math.ceil(day / 7) === n.nth);
+
+  if (cron.dayOfMonthRestricted && cron.dayOfWeekRestricted) {
+    return dayOfMonthMatch || dayOfWeekMatch;
+  }
+  if (cron.dayOfMonthRestricted) {
+    return dayOfMonthMatch;
+  }
+  if (cron.dayOfWeekRestricted) {
+    return dayOfWeekMatch;
+  }
+  return true;
+}
+
+// Earliest wall-clock time at or after start that matches every field
+function nextWallClockMatch(cron: CronExpression, start: Date, limitYear: number): Date | null {
+  const t = new Date(start);
+  while (t.getUTCFullYear() <= limitYear) {
+    if (!cron.months.has(t.getUTCMonth() + 1)) {
+      t.setUTCMonth(t.getUTCMonth() + 1, 1);
+      t.setUTCHours(0, 0, 0, 0);
+    } else if (!dayMatches(cron, t)) {
+      t.setUTCDate(t.getUTCDate() + 1);
+      t.setUTCHours(0, 0, 0, 0);
+    } else if (!cron.hours.has(t.getUTCHours())) {
+      t.setUTCHours(t.getUTCHours() + 1, 0, 0, 0);
+    } else if (!cron.minutes.has(t.getUTCMinutes())) {
+      t.setUTCMinutes(t.getUTCMinutes() + 1, 0, 0);
+    } else if (!cron.seconds.has(t.getUTCSeconds())) {
+      t.setUTCSeconds(t.getUTCSeconds() + 1, 0);
+    } else {
+      return t;
+    }
+  }
+  return null;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function toWallClock(date: Date, timezone: string): Date {
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: timezone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatters.set(timezone, formatter);
+  }
+  const parts: Record<string, number> = {};
+  for (const part of formatter.formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = parseInt(part.value, 10);
+    }
+  }
+  return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+}
+
+function fromWallClock(wall: Date, timezone: string): Date {
+  const offsetAt = (instant: number) => toWallClock(new Date(instant), timezone).getTime() - Math.floor(instant / 1000) * 1000;
+  const first = wall.getTime() - offsetAt(wall.getTime());
+  const second = wall.getTime() - offsetAt(first);
+  if (first === second) {
+    return new Date(first);
+  }
+
+  // Near a DST change the two offsets differ. Prefer the earlier instant that
+  // really shows this wall-clock time; if neither does, the time was skipped
+  // and the later candidate lands just as far past the gap.
+  const candidates = [first, second].filter(instant => toWallClock(new Date(instant), timezone).getTime() === wall.getTime());
+  return new Date(candidates.length > 0 ? Math.min(...candidates) : Math.max(first, second));
+}
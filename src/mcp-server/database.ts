@@ -17,6 +17,23 @@ export interface Message {
   expires_at: string | null;
   acknowledged_at: string | null;
   acknowledged_by: string | null;
+  // 1 when content is a placeholder and the ciphertext lives in encrypted_messages
+  encrypted: number;
+  // Base64 Ed25519 signature over signingPayload(channel, sender_agent, content, ...),
+  // with the ciphertext as content for encrypted messages
+  signature: string | null;
+  // The client's single-use nonce and signing time the signature covers
+  signature_nonce: string | null;
+  signed_at: string | null;
+  // Message this one replies to, and the root message of its conversation
+  reply_to: string | null;
+  thread_id: string | null;
+  content_type: 'text' | 'json' | 'acp' | 'binary-base64';
+  // 'identity', or the compression applied to content (stored as base64)
+  content_encoding: 'identity' | 'gzip' | 'br';
+  // Bytes of the original content (null for re-sent encrypted messages), and of what is stored
+  content_size: number | null;
+  stored_size: number | null;
 }
 
 export interface Agent {
@@ -32,16 +49,35 @@ export interface Channel {
   description: string;
   created_at: string;
   message_ttl_seconds: number;
+  // 1 when unsigned or invalidly signed messages are rejected
+  require_signatures: number;
+  // How long expired messages stay in messages_archive; null uses the default, 0 deletes them
+  archive_retention_seconds: number | null;
+  // Limits on live messages; null means unlimited
+  max_messages: number | null;
+  max_total_bytes: number | null;
+  max_message_bytes: number | null;
+  // How long messages stay on the channel once everyone they were meant for acknowledged them;
+  // null keeps them until they expire (messages without a TTL leave an hour after the last acknowledgement)
+  ack_retention_seconds: number | null;
+  // What happens when a new message would exceed max_messages or max_total_bytes
+  overflow_policy: 'drop_oldest' | 'reject' | 'dead_letter';
 }
 
-export function initializeDatabase(): Database.Database {
-  const dataDir = join(homedir(), '.config', 'opencode', 'agent-bus');
+// Heartbeats are only useful while fresh, so the status channel is capped by default
+const STATUS_CHANNEL_MAX_MESSAGES = 1000;
 
-  if (!existsSync(dataDir)) {
-    mkdirSync(dataDir, { recursive: true });
+export function initializeDatabase(dbPath?: string): Database.Database {
+  if (!dbPath) {
+    const dataDir = join(homedir(), '.config', 'opencode', 'agent-bus');
+
+    if (!existsSync(dataDir)) {
+      mkdirSync(dataDir, { recursive: true });
+    }
+
+    dbPath = join(dataDir, 'messages.db');
   }
 
-  const dbPath = join(dataDir, 'messages.db');
   const db = new Database(dbPath);
 
   // Enable WAL mode for better concurrent access
@@ -49,13 +85,32 @@ export function initializeDatabase(): Database.Database {
   // Enable foreign key enforcement
   db.pragma('foreign_keys = ON');
 
+  const isNewDatabase = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'channels'").get() === undefined;
+
   // Create tables
   db.exec(`
     CREATE TABLE IF NOT EXISTS channels (
       name TEXT PRIMARY KEY,
       description TEXT DEFAULT '',
       created_at TEXT DEFAULT (datetime('now')),
-      message_ttl_seconds INTEGER DEFAULT 3600
+      message_ttl_seconds INTEGER DEFAULT 3600,
+      require_signatures INTEGER DEFAULT 0,
+      archive_retention_seconds INTEGER,
+      max_messages INTEGER,
+      max_total_bytes INTEGER,
+      max_message_bytes INTEGER,
+      ack_retention_seconds INTEGER,
+      overflow_policy TEXT DEFAULT 'drop_oldest' CHECK(overflow_policy IN ('drop_oldest', 'reject', 'dead_letter'))
+    );
+
+    CREATE TABLE IF NOT EXISTS channel_acl (
+      channel TEXT NOT NULL,
+      agent_id TEXT NOT NULL,
+      role TEXT NOT NULL CHECK(role IN ('owner', 'publisher', 'subscriber', 'observer')),
+      granted_by TEXT NOT NULL,
+      granted_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (channel, agent_id),
+      FOREIGN KEY (channel) REFERENCES channels(name) ON DELETE CASCADE
     );
 
     CREATE TABLE IF NOT EXISTS agents (
@@ -67,6 +122,15 @@ export function initializeDatabase(): Database.Database {
       PRIMARY KEY (agent_id, session_id)
     );
 
+    CREATE TABLE IF NOT EXISTS agent_capabilities (
+      agent_id TEXT PRIMARY KEY,
+      tags TEXT DEFAULT '[]',
+      languages TEXT DEFAULT '[]',
+      tools TEXT DEFAULT '[]',
+      max_concurrency INTEGER DEFAULT 1,
+      updated_at TEXT DEFAULT (datetime('now'))
+    );
+
     CREATE TABLE IF NOT EXISTS messages (
       id TEXT PRIMARY KEY,
       channel TEXT NOT NULL,
@@ -80,9 +144,62 @@ export function initializeDatabase(): Database.Database {
       expires_at TEXT,
       acknowledged_at TEXT,
       acknowledged_by TEXT,
+      encrypted INTEGER DEFAULT 0,
+      signature TEXT,
+      signature_nonce TEXT,
+      signed_at TEXT,
+      reply_to TEXT,
+      thread_id TEXT,
+      content_type TEXT DEFAULT 'text' CHECK(content_type IN ('text', 'json', 'acp', 'binary-base64')),
+      content_encoding TEXT DEFAULT 'identity' CHECK(content_encoding IN ('identity', 'gzip', 'br')),
+      content_size INTEGER,
+      stored_size INTEGER,
+      FOREIGN KEY (channel) REFERENCES channels(name)
+    );
+
+    CREATE TABLE IF NOT EXISTS message_acks (
+      message_id TEXT NOT NULL,
+      agent_id TEXT NOT NULL,
+      acknowledged_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (message_id, agent_id),
+      FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS consumer_groups (
+      channel TEXT NOT NULL,
+      group_name TEXT NOT NULL,
+      visibility_timeout_seconds INTEGER DEFAULT 300,
+      max_deliveries INTEGER DEFAULT 5,
+      created_by TEXT NOT NULL,
+      created_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (channel, group_name),
       FOREIGN KEY (channel) REFERENCES channels(name)
     );
 
+    CREATE TABLE IF NOT EXISTS consumer_group_members (
+      channel TEXT NOT NULL,
+      group_name TEXT NOT NULL,
+      agent_id TEXT NOT NULL,
+      joined_at TEXT DEFAULT (datetime('now')),
+      PRIMARY KEY (channel, group_name, agent_id),
+      FOREIGN KEY (channel, group_name) REFERENCES consumer_groups(channel, group_name) ON DELETE CASCADE
+    );
+
+    CREATE TABLE IF NOT EXISTS message_leases (
+      message_id TEXT NOT NULL,
+      channel TEXT NOT NULL,
+      group_name TEXT NOT NULL,
+      agent_id TEXT NOT NULL,
+      leased_at TEXT DEFAULT (datetime('now')),
+      lease_expires_at TEXT NOT NULL,
+      delivery_count INTEGER DEFAULT 1,
+      acknowledged_at TEXT,
+      dead_lettered_at TEXT,
+      PRIMARY KEY (message_id, channel, group_name),
+      FOREIGN KEY (message_id) REFERENCES messages(id) ON DELETE CASCADE,
+      FOREIGN KEY (channel, group_name) REFERENCES consumer_groups(channel, group_name) ON DELETE CASCADE
+    );
+
     CREATE TABLE IF NOT EXISTS dead_letter_queue (
       id TEXT PRIMARY KEY,
       original_message_id TEXT NOT NULL,
@@ -94,11 +211,42 @@ export function initializeDatabase(): Database.Database {
       retry_count INTEGER DEFAULT 0,
       max_retries INTEGER DEFAULT 3,
       next_retry_at TEXT,
+      retry_message_id TEXT,
       failed_at TEXT DEFAULT (datetime('now')),
       resolved_at TEXT,
       FOREIGN KEY (original_message_id) REFERENCES messages(id)
     );
 
+    CREATE TABLE IF NOT EXISTS messages_archive (
+      id TEXT PRIMARY KEY,
+      channel TEXT NOT NULL,
+      sender_agent TEXT NOT NULL,
+      sender_session TEXT NOT NULL,
+      content TEXT NOT NULL,
+      message_type TEXT,
+      correlation_id TEXT,
+      priority INTEGER DEFAULT 0,
+      created_at TEXT,
+      expires_at TEXT,
+      acknowledged_at TEXT,
+      acknowledged_by TEXT,
+      encrypted INTEGER DEFAULT 0,
+      signature TEXT,
+      signature_nonce TEXT,
+      signed_at TEXT,
+      reply_to TEXT,
+      thread_id TEXT,
+      content_type TEXT DEFAULT 'text' CHECK(content_type IN ('text', 'json', 'acp', 'binary-base64')),
+      content_encoding TEXT DEFAULT 'identity' CHECK(content_encoding IN ('identity', 'gzip', 'br')),
+      content_size INTEGER,
+      stored_size INTEGER,
+      recipients TEXT DEFAULT '[]',
+      acknowledgements TEXT DEFAULT '[]',
+      archive_reason TEXT CHECK(archive_reason IN ('expired', 'acknowledged', 'evicted')),
+      archived_at TEXT DEFAULT (datetime('now')),
+      purge_after TEXT
+    );
+
     CREATE TABLE IF NOT EXISTS message_recipients (
       message_id TEXT NOT NULL,
       agent_id TEXT NOT NULL,
@@ -138,7 +286,26 @@ export function initializeDatabase(): Database.Database {
       enabled BOOLEAN DEFAULT 1,
       created_at TEXT DEFAULT (datetime('now')),
       expires_at TEXT,
-      metadata TEXT DEFAULT '{}'
+      metadata TEXT DEFAULT '{}',
+      timezone TEXT,
+      run_count INTEGER DEFAULT 0,
+      misfire_policy TEXT DEFAULT 'fire_once' CHECK(misfire_policy IN ('fire_once', 'fire_all', 'skip')),
+      missed_count INTEGER DEFAULT 0,
+      max_occurrences INTEGER,
+      action TEXT DEFAULT 'message' CHECK(action IN ('message', 'task')),
+      task_template TEXT
+    );
+
+    CREATE TABLE IF NOT EXISTS scheduled_runs (
+      id TEXT PRIMARY KEY,
+      schedule_id TEXT NOT NULL,
+      scheduled_for TEXT NOT NULL,
+      ran_at TEXT DEFAULT (datetime('now')),
+      outcome TEXT NOT NULL CHECK(outcome IN ('sent', 'failed', 'missed')),
+      message_id TEXT,
+      task_id TEXT,
+      error TEXT,
+      FOREIGN KEY (schedule_id) REFERENCES recurring_messages(id) ON DELETE CASCADE
     );
 
     CREATE TABLE IF NOT EXISTS health_metrics (
@@ -158,7 +325,17 @@ export function initializeDatabase(): Database.Database {
       public_key TEXT NOT NULL,
       key_algorithm TEXT DEFAULT 'RSA-4096',
       created_at TEXT DEFAULT (datetime('now')),
-      expires_at TEXT
+      expires_at TEXT,
+      signing_public_key TEXT,
+      signing_algorithm TEXT
+    );
+
+    -- Nonces of recent signed messages, kept until their signatures would be stale anyway
+    CREATE TABLE IF NOT EXISTS signature_nonces (
+      agent_id TEXT NOT NULL,
+      nonce TEXT NOT NULL,
+      expires_at TEXT NOT NULL,
+      PRIMARY KEY (agent_id, nonce)
     );
 
     CREATE TABLE IF NOT EXISTS encrypted_messages (
@@ -182,7 +359,9 @@ export function initializeDatabase(): Database.Database {
       max_retries INTEGER DEFAULT 0,
       created_at TEXT DEFAULT (datetime('now')),
       deadline_at TEXT,
-      status TEXT DEFAULT 'created'
+      status TEXT DEFAULT 'created',
+      retry_count INTEGER DEFAULT 0,
+      failure_reason TEXT
     );
 
     CREATE TABLE IF NOT EXISTS orch_assignments (
@@ -194,7 +373,9 @@ export function initializeDatabase(): Database.Database {
       started_at TEXT,
       submitted_at TEXT,
       approved_at TEXT,
+      revision_requested_at TEXT,
       status TEXT DEFAULT 'assigned',
+      status_reason TEXT,
       blocking INTEGER DEFAULT 1,
       FOREIGN KEY (task_id) REFERENCES orch_tasks(id)
     );
@@ -219,19 +400,58 @@ export function initializeDatabase(): Database.Database {
       approval_notes TEXT
     );
 
+    CREATE TABLE IF NOT EXISTS consensus_requests (
+      id TEXT PRIMARY KEY,
+      request_message_id TEXT NOT NULL,
+      channel TEXT NOT NULL,
+      requester_agent TEXT NOT NULL,
+      requester_session TEXT NOT NULL,
+      proposal TEXT NOT NULL,
+      proposal_data TEXT DEFAULT '{}',
+      target_agents TEXT,
+      quorum INTEGER NOT NULL,
+      threshold TEXT DEFAULT 'majority' CHECK(threshold IN ('majority', 'supermajority')),
+      voting_deadline TEXT NOT NULL,
+      status TEXT DEFAULT 'open' CHECK(status IN ('open', 'decided')),
+      outcome TEXT,
+      decided_at TEXT,
+      decision_message_id TEXT,
+      created_at TEXT DEFAULT (datetime('now'))
+    );
+
+    CREATE TABLE IF NOT EXISTS consensus_votes (
+      request_id TEXT NOT NULL,
+      agent_id TEXT NOT NULL,
+      vote TEXT NOT NULL CHECK(vote IN ('AGREE', 'DISAGREE', 'SUGGEST_CHANGES')),
+      reason TEXT,
+      suggestions TEXT,
+      message_id TEXT NOT NULL,
+      cast_at TEXT NOT NULL,
+      PRIMARY KEY (request_id, agent_id),
+      FOREIGN KEY (request_id) REFERENCES consensus_requests(id) ON DELETE CASCADE
+    );
+
     CREATE INDEX IF NOT EXISTS idx_messages_channel ON messages(channel);
+    CREATE INDEX IF NOT EXISTS idx_messages_expires ON messages(expires_at);
     CREATE INDEX IF NOT EXISTS idx_messages_created ON messages(created_at);
     CREATE INDEX IF NOT EXISTS idx_messages_correlation ON messages(correlation_id);
     CREATE INDEX IF NOT EXISTS idx_messages_sender ON messages(sender_agent, sender_session);
     CREATE INDEX IF NOT EXISTS idx_agents_session ON agents(session_id);
+    CREATE INDEX IF NOT EXISTS idx_message_acks_agent ON message_acks(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_leases_group ON message_leases(channel, group_name, lease_expires_at) WHERE acknowledged_at IS NULL;
     CREATE INDEX IF NOT EXISTS idx_dlq_retry ON dead_letter_queue(next_retry_at) WHERE resolved_at IS NULL;
     CREATE INDEX IF NOT EXISTS idx_recipients_agent ON message_recipients(agent_id);
+    CREATE INDEX IF NOT EXISTS idx_archive_channel ON messages_archive(channel, created_at);
+    CREATE INDEX IF NOT EXISTS idx_archive_purge ON messages_archive(purge_after) WHERE purge_after IS NOT NULL;
     CREATE INDEX IF NOT EXISTS idx_files_uploader ON file_transfers(uploader_agent);
     CREATE INDEX IF NOT EXISTS idx_files_expires ON file_transfers(expires_at);
     CREATE INDEX IF NOT EXISTS idx_recurring_next ON recurring_messages(next_send_at) WHERE enabled = 1;
+    CREATE INDEX IF NOT EXISTS idx_scheduled_runs_schedule ON scheduled_runs(schedule_id);
     CREATE INDEX IF NOT EXISTS idx_health_server ON health_metrics(server_id, timestamp);
     CREATE INDEX IF NOT EXISTS idx_orch_tasks_status ON orch_tasks(status);
     CREATE INDEX IF NOT EXISTS idx_orch_assignments_agent ON orch_assignments(agent_id, status);
+    CREATE INDEX IF NOT EXISTS idx_orch_dependencies_upstream ON orch_dependencies(depends_on_task_id);
+    CREATE INDEX IF NOT EXISTS idx_consensus_open ON consensus_requests(status, voting_deadline);
 
     -- Create default channels
     INSERT OR IGNORE INTO channels (name, description) VALUES
@@ -239,11 +459,141 @@ export function initializeDatabase(): Database.Database {
       ('coordination', 'Agent coordination and task assignment'),
       ('status', 'Agent status updates and heartbeats'),
       ('errors', 'Error reporting and alerts');
+
+    -- Carry acknowledgements recorded before per-agent tracking existed
+    INSERT OR IGNORE INTO message_acks (message_id, agent_id, acknowledged_at)
+      SELECT id, acknowledged_by, acknowledged_at FROM messages
+      WHERE acknowledged_at IS NOT NULL AND acknowledged_by IS NOT NULL;
   `);
 
+  // Columns added after the initial schema; CREATE TABLE IF NOT EXISTS won't add them to existing databases
+  ensureColumn(db, 'consumer_groups', 'max_deliveries', 'INTEGER DEFAULT 5');
+  ensureColumn(db, 'message_leases', 'dead_lettered_at', 'TEXT');
+  ensureColumn(db, 'dead_letter_queue', 'retry_message_id', 'TEXT');
+  ensureColumn(db, 'orch_tasks', 'retry_count', 'INTEGER DEFAULT 0');
+  ensureColumn(db, 'orch_tasks', 'failure_reason', 'TEXT');
+  ensureColumn(db, 'orch_assignments', 'revision_requested_at', 'TEXT');
+  ensureColumn(db, 'orch_assignments', 'status_reason', 'TEXT');
+  ensureColumn(db, 'messages', 'encrypted', 'INTEGER DEFAULT 0');
+  ensureColumn(db, 'messages', 'signature', 'TEXT');
+  ensureColumn(db, 'messages', 'signature_nonce', 'TEXT');
+  ensureColumn(db, 'messages', 'signed_at', 'TEXT');
+  ensureColumn(db, 'messages', 'reply_to', 'TEXT');
+  ensureColumn(db, 'messages', 'thread_id', 'TEXT');
+  ensureColumn(db, 'messages', 'content_type', "TEXT DEFAULT 'text' CHECK(content_type IN ('text', 'json', 'acp', 'binary-base64'))");
+  ensureColumn(db, 'messages', 'content_encoding', "TEXT DEFAULT 'identity' CHECK(content_encoding IN ('identity', 'gzip', 'br'))");
+  ensureColumn(db, 'messages', 'content_size', 'INTEGER');
+  ensureColumn(db, 'messages', 'stored_size', 'INTEGER');
+  ensureColumn(db, 'messages_archive', 'content_type', "TEXT DEFAULT 'text' CHECK(content_type IN ('text', 'json', 'acp', 'binary-base64'))");
+  ensureColumn(db, 'messages_archive', 'content_encoding', "TEXT DEFAULT 'identity' CHECK(content_encoding IN ('identity', 'gzip', 'br'))");
+  ensureColumn(db, 'messages_archive', 'content_size', 'INTEGER');
+  ensureColumn(db, 'messages_archive', 'stored_size', 'INTEGER');
+  ensureColumn(db, 'messages_archive', 'signature_nonce', 'TEXT');
+  ensureColumn(db, 'messages_archive', 'signed_at', 'TEXT');
+  ensureColumn(db, 'channels', 'require_signatures', 'INTEGER DEFAULT 0');
+  ensureColumn(db, 'channels', 'archive_retention_seconds', 'INTEGER');
+  const addedChannelLimits = ensureColumn(db, 'channels', 'max_messages', 'INTEGER');
+  ensureColumn(db, 'channels', 'max_total_bytes', 'INTEGER');
+  ensureColumn(db, 'channels', 'max_message_bytes', 'INTEGER');
+  ensureColumn(db, 'channels', 'ack_retention_seconds', 'INTEGER');
+  ensureColumn(db, 'channels', 'overflow_policy', "TEXT DEFAULT 'drop_oldest' CHECK(overflow_policy IN ('drop_oldest', 'reject', 'dead_letter'))");
+  ensureColumn(db, 'agent_keys', 'signing_public_key', 'TEXT');
+  ensureColumn(db, 'agent_keys', 'signing_algorithm', 'TEXT');
+  ensureColumn(db, 'recurring_messages', 'timezone', 'TEXT');
+  ensureColumn(db, 'recurring_messages', 'run_count', 'INTEGER DEFAULT 0');
+  ensureColumn(db, 'recurring_messages', 'misfire_policy', "TEXT DEFAULT 'fire_once' CHECK(misfire_policy IN ('fire_once', 'fire_all', 'skip'))");
+  ensureColumn(db, 'recurring_messages', 'missed_count', 'INTEGER DEFAULT 0');
+  ensureColumn(db, 'recurring_messages', 'max_occurrences', 'INTEGER');
+  ensureColumn(db, 'recurring_messages', 'action', "TEXT DEFAULT 'message' CHECK(action IN ('message', 'task'))");
+  ensureColumn(db, 'recurring_messages', 'task_template', 'TEXT');
+  ensureColumn(db, 'scheduled_runs', 'task_id', 'TEXT');
+  db.exec('CREATE INDEX IF NOT EXISTS idx_messages_thread ON messages(thread_id)');
+
+  if (isNewDatabase || addedChannelLimits) {
+    db.prepare("UPDATE channels SET max_messages = ? WHERE name = 'status'").run(STATUS_CHANNEL_MAX_MESSAGES);
+  }
+  db.exec('CREATE INDEX IF NOT EXISTS idx_dlq_retry_message ON dead_letter_queue(retry_message_id) WHERE retry_message_id IS NOT NULL');
+  ensureSearchIndex(db);
+
   return db;
 }
 
+// ACP envelopes get their type and payload indexed separately. CASE keeps
+// json_type away from content that isn't JSON, which it would reject.
+function acpField(contentRef: string, path: '$.type' | '$.payload'): string {
+  return `CASE WHEN json_valid(${contentRef}) THEN
+    CASE WHEN json_type(${contentRef}, '$.type') = 'text' AND json_type(${contentRef}, '$.from_agent') = 'text'
+      THEN json_extract(${contentRef}, '${path}') END
+  END`;
+}
+
+/**
+ * Full-text index over message content, kept in sync by triggers so writes
+ * from other processes (e.g. the CLI) are indexed too. Rows share the
+ * message's rowid; encrypted messages are never indexed. Compressed messages
+ * are indexed by indexCompressedMessage, as the trigger can't decompress them.
+ */
+function ensureSearchIndex(db: Database.Database): void {
+  const exists = db.prepare("SELECT 1 FROM sqlite_master WHERE type = 'table' AND name = 'messages_fts'").get() !== undefined;
+
+  db.exec(`
+    CREATE VIRTUAL TABLE IF NOT EXISTS messages_fts USING fts5(
+      content,
+      acp_payload,
+      acp_type UNINDEXED,
+      tokenize = 'porter unicode61'
+    );
+
+    -- Recreated so databases indexed before compression existed skip compressed content
+    DROP TRIGGER IF EXISTS messages_fts_insert;
+    CREATE TRIGGER messages_fts_insert AFTER INSERT ON messages
+    WHEN new.encrypted = 0 AND new.content_encoding = 'identity'
+    BEGIN
+      INSERT INTO messages_fts (rowid, content, acp_payload, acp_type)
+      VALUES (new.rowid, new.content, ${acpField('new.content', '$.payload')}, ${acpField('new.content', '$.type')});
+    END;
+
+    CREATE TRIGGER IF NOT EXISTS messages_fts_delete AFTER DELETE ON messages
+    BEGIN
+      DELETE FROM messages_fts WHERE rowid = old.rowid;
+    END;
+  `);
+
+  if (!exists) {
+    db.exec(`
+      INSERT INTO messages_fts (rowid, content, acp_payload, acp_type)
+      SELECT rowid, content, ${acpField('content', '$.payload')}, ${acpField('content', '$.type')}
+      FROM messages WHERE encrypted = 0 AND content_encoding = 'identity'
+    `);
+  }
+}
+
+export function indexCompressedMessage(db: Database.Database, messageId: string, content: string): void {
+  db.prepare(`
+    INSERT INTO messages_fts (rowid, content, acp_payload, acp_type)
+    SELECT rowid, @content, ${acpField('@content', '$.payload')}, ${acpField('@content', '$.type')}
+    FROM messages WHERE id = @messageId
+  `).run({ content, messageId });
+}
+
+function ensureColumn(db: Database.Database, table: string, column: string, definition: string): boolean {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all() as { name: string }[];
+  if (columns.some(c => c.name === column)) {
+    return false;
+  }
+  db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  return true;
+}
+
+// Deadlines are compared with datetime('now'), so store them in SQLite's UTC format
+export function toSqliteDatetime(value: string): string {
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new Error(`Invalid datetime: ${value}`);
+  }
+  return date.toISOString().replace('T', ' ').slice(0, 19);
+}
+
 export function generateMessageId(): string {
   return `msg_${randomUUID()}`;
 }
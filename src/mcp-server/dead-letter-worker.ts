@@ -0,0 +1,61 @@
+import { MessageBus } from './bus.js';
+
+/**
+ * Background worker that re-sends dead letters once their next_retry_at is
+ * due. Backoff is applied by MessageBus when a retry expires undelivered.
+ */
+export class DeadLetterWorker {
+  private bus: MessageBus;
+  private intervalHandle: NodeJS.Timeout | null = null;
+  private unsubscribers: Array<() => void> = [];
+  private isRunning = false;
+
+  constructor(bus: MessageBus) {
+    this.bus = bus;
+  }
+
+  start(intervalMs: number = 15000): void {
+    if (this.isRunning) {
+      return;
+    }
+
+    this.isRunning = true;
+    const resolveDelivered = () => {
+      this.bus.resolveDeliveredDeadLetters();
+    };
+    this.unsubscribers = [
+      this.bus.on('acknowledged', resolveDelivered),
+      this.bus.on('response', resolveDelivered)
+    ];
+    this.intervalHandle = setInterval(() => {
+      this.processDueRetries();
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.intervalHandle) {
+      clearInterval(this.intervalHandle);
+      this.intervalHandle = null;
+    }
+    for (const unsubscribe of this.unsubscribers) {
+      unsubscribe();
+    }
+    this.unsubscribers = [];
+    this.isRunning = false;
+  }
+
+  processDueRetries(): number {
+    let retried = 0;
+    try {
+      this.bus.resolveDeliveredDeadLetters();
+      for (const dlq of this.bus.getDueDeadLetters()) {
+        if (this.bus.retryDeadLetter(dlq.id, 'dead-letter-worker')) {
+          retried++;
+        }
+      }
+    } catch (error) {
+      console.error('Dead letter retry pass failed:', error);
+    }
+    return retried;
+  }
+}
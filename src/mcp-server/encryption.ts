@@ -0,0 +1,219 @@
+import {
+  createCipheriv,
+  createDecipheriv,
+  createPrivateKey,
+  createPublicKey,
+  generateKeyPairSync,
+  privateDecrypt,
+  publicEncrypt,
+  randomBytes,
+  constants
+} from 'crypto';
+import { existsSync, mkdirSync, readFileSync, readdirSync, renameSync, writeFileSync, chmodSync } from 'fs';
+import { homedir } from 'os';
+import { join } from 'path';
+
+export interface EncryptionMetadata {
+  algorithm: 'AES-256-GCM';
+  key_wrap: 'RSA-OAEP-SHA256';
+  iv: string;
+  auth_tag: string;
+}
+
+/**
+ * A message sealed for a set of recipients: the content is encrypted once
+ * with a random AES key, and that key is wrapped with each recipient's RSA
+ * public key. All values are base64.
+ */
+export interface SealedContent {
+  encrypted_content: string;
+  encryption_metadata: EncryptionMetadata;
+  recipient_keys: Record<string, string>;
+}
+
+/**
+ * One recipient's view of a sealed message: the shared ciphertext and the
+ * copy of the content key wrapped for that recipient.
+ */
+export interface SealedForRecipient {
+  encrypted_content: string;
+  encryption_metadata: EncryptionMetadata;
+  wrapped_key: string;
+}
+
+export interface RecipientKey {
+  agent_id: string;
+  public_key: string;
+}
+
+export const MIN_RSA_MODULUS_BITS = 2048;
+
+export function generateEncryptionKeyPair(modulusLength: number = 4096): { publicKey: string; privateKey: string } {
+  return generateKeyPairSync('rsa', {
+    modulusLength,
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+}
+
+/**
+ * Validates a PEM public key for sealing and returns its algorithm label
+ * (e.g. "RSA-4096") as stored in agent_keys.key_algorithm.
+ */
+export function describeEncryptionKey(publicKeyPem: string): string {
+  let key;
+  try {
+    key = createPublicKey(publicKeyPem);
+  } catch {
+    throw new Error('public_key is not a valid PEM public key');
+  }
+  if (key.asymmetricKeyType !== 'rsa') {
+    throw new Error(`Encryption keys must be RSA, got ${key.asymmetricKeyType}`);
+  }
+  const bits = key.asymmetricKeyDetails?.modulusLength ?? 0;
+  if (bits < MIN_RSA_MODULUS_BITS) {
+    throw new Error(`RSA keys must be at least ${MIN_RSA_MODULUS_BITS} bits, got ${bits}`);
+  }
+  return `RSA-${bits}`;
+}
+
+const BASE64 = /^[A-Za-z0-9+/]*={0,2}$/;
+
+/**
+ * Checks the shape of content sealed by a client before it is stored. The
+ * ciphertext itself can only be checked by its recipients.
+ */
+export function validateSealedContent(sealed: SealedContent): void {
+  const isBase64 = (value: unknown) => typeof value === 'string' && value.length > 0 && BASE64.test(value);
+  const metadata = sealed?.encryption_metadata;
+  if (!isBase64(sealed?.encrypted_content)) {
+    throw new Error('sealed.encrypted_content must be base64');
+  }
+  if (!metadata || metadata.algorithm !== 'AES-256-GCM' || metadata.key_wrap !== 'RSA-OAEP-SHA256'
+    || !isBase64(metadata.iv) || !isBase64(metadata.auth_tag)) {
+    throw new Error('sealed.encryption_metadata must describe AES-256-GCM content with RSA-OAEP-SHA256 wrapped keys');
+  }
+  const wrappedKeys = sealed.recipient_keys && typeof sealed.recipient_keys === 'object'
+    ? Object.values(sealed.recipient_keys)
+    : [];
+  if (wrappedKeys.length === 0 || !wrappedKeys.every(isBase64)) {
+    throw new Error('sealed.recipient_keys must map at least one agent ID to its base64 wrapped key');
+  }
+}
+
+export function sealContent(plaintext: string, recipients: RecipientKey[]): SealedContent {
+  if (recipients.length === 0) {
+    throw new Error('Cannot encrypt a message without recipients');
+  }
+
+  const key = randomBytes(32);
+  const iv = randomBytes(12);
+  const cipher = createCipheriv('aes-256-gcm', key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+  const recipientKeys: Record<string, string> = {};
+  for (const recipient of recipients) {
+    recipientKeys[recipient.agent_id] = publicEncrypt(
+      { key: recipient.public_key, padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+      key
+    ).toString('base64');
+  }
+
+  return {
+    encrypted_content: ciphertext.toString('base64'),
+    encryption_metadata: {
+      algorithm: 'AES-256-GCM',
+      key_wrap: 'RSA-OAEP-SHA256',
+      iv: iv.toString('base64'),
+      auth_tag: cipher.getAuthTag().toString('base64')
+    },
+    recipient_keys: recipientKeys
+  };
+}
+
+/**
+ * Decrypts sealed content for one recipient. Throws if the agent is not a
+ * recipient or the ciphertext fails authentication.
+ */
+export function openContent(sealed: SealedContent, agentId: string, privateKeyPem: string): string {
+  const wrappedKey = sealed.recipient_keys[agentId];
+  if (!wrappedKey) {
+    throw new Error(`Message was not encrypted for ${agentId}`);
+  }
+
+  const key = privateDecrypt(
+    { key: createPrivateKey(privateKeyPem), padding: constants.RSA_PKCS1_OAEP_PADDING, oaepHash: 'sha256' },
+    Buffer.from(wrappedKey, 'base64')
+  );
+  const decipher = createDecipheriv('aes-256-gcm', key, Buffer.from(sealed.encryption_metadata.iv, 'base64'));
+  decipher.setAuthTag(Buffer.from(sealed.encryption_metadata.auth_tag, 'base64'));
+  return Buffer.concat([
+    decipher.update(Buffer.from(sealed.encrypted_content, 'base64')),
+    decipher.final()
+  ]).toString('utf8');
+}
+
+/**
+ * Decrypts a sealed message as handed to one recipient by the bus.
+ */
+export function openSealedForRecipient(sealed: SealedForRecipient, agentId: string, privateKeyPem: string): string {
+  return openContent(
+    {
+      encrypted_content: sealed.encrypted_content,
+      encryption_metadata: sealed.encryption_metadata,
+      recipient_keys: { [agentId]: sealed.wrapped_key }
+    },
+    agentId,
+    privateKeyPem
+  );
+}
+
+/**
+ * Private keys on local disk, one PEM file per agent, readable only by the
+ * current user. The database only ever holds public keys. Replaced keys are
+ * kept next to the current one so messages sealed before a rotation can
+ * still be opened.
+ */
+export class KeyStore {
+  private dir: string;
+
+  constructor(dir?: string) {
+    this.dir = dir ?? join(homedir(), '.config', 'opencode', 'agent-bus', 'keys');
+  }
+
+  savePrivateKey(agentId: string, privateKeyPem: string, keyType: string = 'encryption'): void {
+    mkdirSync(this.dir, { recursive: true, mode: 0o700 });
+    const path = this.keyPath(agentId, keyType);
+    if (existsSync(path) && readFileSync(path, 'utf8') !== privateKeyPem) {
+      renameSync(path, this.keyPath(agentId, `${keyType}.${Date.now()}`));
+    }
+    writeFileSync(path, privateKeyPem, { mode: 0o600 });
+    chmodSync(path, 0o600);
+  }
+
+  loadPrivateKey(agentId: string, keyType: string = 'encryption'): string | null {
+    const path = this.keyPath(agentId, keyType);
+    return existsSync(path) ? readFileSync(path, 'utf8') : null;
+  }
+
+  /**
+   * The current key followed by the keys it replaced, newest first.
+   */
+  loadPrivateKeys(agentId: string, keyType: string = 'encryption'): string[] {
+    const current = this.loadPrivateKey(agentId, keyType);
+    const prefix = `${encodeURIComponent(agentId)}.${keyType}.`;
+    const retired = existsSync(this.dir)
+      ? readdirSync(this.dir)
+        .filter(name => name.startsWith(prefix) && /^\d+\.pem$/.test(name.slice(prefix.length)))
+        .map(name => ({ name, replacedAt: Number(name.slice(prefix.length, -'.pem'.length)) }))
+        .sort((a, b) => b.replacedAt - a.replacedAt)
+        .map(({ name }) => readFileSync(join(this.dir, name), 'utf8'))
+      : [];
+    return current ? [current, ...retired] : retired;
+  }
+
+  private keyPath(agentId: string, keyType: string): string {
+    // Agent IDs are caller-supplied; encoding keeps them from escaping the key directory
+    return join(this.dir, `${encodeURIComponent(agentId)}.${keyType}.pem`);
+  }
+}
@@ -231,7 +231,7 @@ export class FileTransferManager {
     };
   }
 
-  private canAccess(fileInfo: FileTransferInfo, agentId: string): boolean {
+  canAccess(fileInfo: FileTransferInfo, agentId: string): boolean {
     if (fileInfo.access_mode === 'public') {
       return true;
     }
@@ -8,63 +8,124 @@ import {
   type Tool,
 } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
-import { initializeDatabase } from './database.js';
-import { MessageBus } from './bus.js';
+import { initializeDatabase, type Message } from './database.js';
+import { CHANNEL_ROLE_FOR_AGENT_ROLE, MessageBus, buildThreadTree, groupByThread, type ChannelRole, type OverflowPolicy } from './bus.js';
+import { ConsumerGroupManager } from './consumer-groups.js';
+import { DeadLetterWorker } from './dead-letter-worker.js';
+import { StructuredRequestManager } from './structured-requests.js';
 import { FileTransferManager } from './file-transfer.js';
-import { MessageScheduler } from './scheduler.js';
+import { KeyStore } from './encryption.js';
+import { MessageSearch } from './search.js';
+import { MessageArchive } from './archive.js';
+import { MessageScheduler, type MisfirePolicy, type TaskTemplate } from './scheduler.js';
+import { defaultTimezone, formatInTimezone } from './cron.js';
 import { ConfigManager } from './config.js';
 import { RegistryClient } from './registry-client.js';
 import { HealthMonitor } from './health-monitor.js';
 import { formatMcpResponse } from '../utils/toon-formatter.js';
-import { Orchestrator } from './orchestrator.js';
-import { getACPProtocolTemplate, validateACPMessage, createACPMessage } from './acp-protocol.js';
+import { ConsensusManager, type ConsensusThreshold } from './consensus.js';
+import { Orchestrator, type DependencyType, type ExecutionMetrics, type TriggerRule } from './orchestrator.js';
+import { getACPProtocolTemplate, validateACPMessage, type AgentRole } from './acp-protocol.js';
 import { checkUnackedMessages, type UnackedSummary } from './unacked-checker.js';
 
 // Zod validation schemas for critical tools
 const RegisterAgentSchema = z.object({
   agent_id: z.string().min(1, 'agent_id is required'),
   session_id: z.string().min(1, 'session_id is required'),
-  metadata: z.record(z.unknown()).optional()
+  metadata: z.record(z.unknown()).optional(),
+  capabilities: z.object({
+    tags: z.array(z.string()).optional(),
+    languages: z.array(z.string()).optional(),
+    tools: z.array(z.string()).optional(),
+    max_concurrency: z.number().int().positive().optional()
+  }).optional()
 });
 
 const SendMessageSchema = z.object({
   channel: z.string().min(1, 'channel is required'),
   agent_id: z.string().min(1, 'agent_id is required'),
   session_id: z.string().min(1, 'session_id is required'),
-  content: z.string().min(1, 'content is required'),
+  content: z.string().optional(),
   priority: z.number().optional(),
   ttl_seconds: z.number().positive().optional(),
   force_send: z.boolean().optional(),
   wait_for_ack: z.boolean().optional(),
   wait_for_response: z.boolean().optional(),
-  wait_timeout_ms: z.number().positive().optional()
-});
+  wait_timeout_ms: z.number().positive().optional(),
+  encrypt: z.boolean().optional(),
+  sealed: z.object({
+    encrypted_content: z.string(),
+    encryption_metadata: z.object({
+      algorithm: z.literal('AES-256-GCM'),
+      key_wrap: z.literal('RSA-OAEP-SHA256'),
+      iv: z.string(),
+      auth_tag: z.string()
+    }),
+    recipient_keys: z.record(z.string())
+  }).optional(),
+  signature: z.string().optional(),
+  nonce: z.string().min(1).optional(),
+  signed_at: z.string().optional(),
+  recipients: z.array(z.string().min(1)).min(1).optional(),
+  reply_to: z.string().min(1).optional(),
+  content_type: z.enum(['text', 'json', 'acp', 'binary-base64']).optional(),
+  compress: z.enum(['auto', 'gzip', 'br']).optional()
+}).refine(args => args.sealed || args.content, { message: 'content is required', path: ['content'] })
+  .refine(args => !(args.sealed && args.encrypt), { message: 'sealed content is already encrypted; leave out encrypt', path: ['encrypt'] });
 
 const RequestSchema = z.object({
   channel: z.string().min(1, 'channel is required'),
   agent_id: z.string().min(1, 'agent_id is required'),
   session_id: z.string().min(1, 'session_id is required'),
   content: z.string().min(1, 'content is required'),
-  ttl_seconds: z.number().positive().optional()
+  ttl_seconds: z.number().positive().optional(),
+  signature: z.string().optional(),
+  nonce: z.string().min(1).optional(),
+  signed_at: z.string().optional()
+});
+
+const StructuredRequestSchema = z.object({
+  channel: z.string().min(1, 'channel is required'),
+  agent_id: z.string().min(1, 'agent_id is required'),
+  session_id: z.string().min(1, 'session_id is required'),
+  content: z.string().min(1, 'content is required'),
+  response_schema: z.record(z.unknown()),
+  validation_mode: z.enum(['strict', 'permissive']).optional(),
+  timeout_seconds: z.number().positive().optional()
 });
 
 const RespondSchema = z.object({
   correlation_id: z.string().min(1, 'correlation_id is required'),
   agent_id: z.string().min(1, 'agent_id is required'),
   session_id: z.string().min(1, 'session_id is required'),
-  content: z.string().min(1, 'content is required')
+  content: z.string().min(1, 'content is required'),
+  signature: z.string().optional(),
+  nonce: z.string().min(1).optional(),
+  signed_at: z.string().optional()
 });
 
+const MAX_RECEIVE_WAIT_MS = 120000;
+
 const db = initializeDatabase();
 const bus = new MessageBus(db);
-const orchestrator = new Orchestrator(db);
+const consumerGroups = new ConsumerGroupManager(db, bus);
+const structuredRequests = new StructuredRequestManager(db, bus);
 const fileTransfer = new FileTransferManager(db, './file-storage');
-const scheduler = new MessageScheduler(db, bus);
+const keyStore = new KeyStore();
+const search = new MessageSearch(db);
+const archive = new MessageArchive(db);
+const orchestrator = new Orchestrator(db, bus, fileTransfer);
+const consensus = new ConsensusManager(db, bus);
+const scheduler = new MessageScheduler(db, bus, orchestrator);
+const deadLetterWorker = new DeadLetterWorker(bus);
 const configManager = new ConfigManager();
 const healthMonitor = new HealthMonitor(db, configManager);
 
-// Start scheduler
+// Start background workers
 scheduler.start();
+deadLetterWorker.start();
+orchestrator.start();
+consensus.start();
 
 function formatResponse(data: any, format = 'toon'): string {
   return format === 'toon' ? formatMcpResponse(data) : JSON.stringify(data, null, 2);
@@ -88,6 +149,12 @@ function attachUnackedInfo(responseData: any, agentId: string, sessionId: string
   return responseData;
 }
 
+// Opens what agentId's private keys in the local key store can open; the
+// rest keeps its ciphertext and the agent's wrapped key, to open elsewhere
+function openMessages<T extends Message>(messages: T[], agentId: string) {
+  return bus.attachSealedContent(bus.decryptMessages(messages, agentId, keyStore.loadPrivateKeys(agentId)), agentId);
+}
+
 // Tool definitions
 const tools: Tool[] = [
   {
@@ -98,7 +165,17 @@ const tools: Tool[] = [
       properties: {
         agent_id: { type: 'string', description: 'Unique identifier for this agent (e.g., "code-reviewer", "test-runner")' },
         session_id: { type: 'string', description: 'Current session ID (use a unique ID per conversation)' },
-        metadata: { type: 'object', description: 'Optional metadata about the agent capabilities' },
+        metadata: { type: 'object', description: 'Optional free-form metadata about the agent' },
+        capabilities: {
+          type: 'object',
+          description: 'Structured capabilities used by bus_orchestrate auto_assign to match task tags',
+          properties: {
+            tags: { type: 'array', items: { type: 'string' }, description: 'Skills or domains (e.g., "review", "frontend")' },
+            languages: { type: 'array', items: { type: 'string' }, description: 'Programming languages (e.g., "typescript")' },
+            tools: { type: 'array', items: { type: 'string' }, description: 'Tools the agent can operate (e.g., "docker")' },
+            max_concurrency: { type: 'number', description: 'Maximum tasks assigned at once. Default: 1' }
+          }
+        },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       },
       required: ['agent_id', 'session_id']
@@ -141,37 +218,151 @@ const tools: Tool[] = [
         channel: { type: 'string', description: 'Channel to send message to' },
         agent_id: { type: 'string', description: 'Your agent ID (sender)' },
         session_id: { type: 'string', description: 'Your session ID' },
-        content: { type: 'string', description: 'Message content (can be JSON for structured data)' },
+        content: { type: 'string', description: 'Message content (can be JSON for structured data). Required unless sealed is given' },
         priority: { type: 'number', description: 'Message priority (higher = more urgent). Default: 0' },
         ttl_seconds: { type: 'number', description: 'Time-to-live in seconds. Default: 3600 (1 hour)' },
         force_send: { type: 'boolean', description: 'Skip unacked message check. Default: false' },
         wait_for_ack: { type: 'boolean', description: 'Block until message is acknowledged or timeout. Default: false' },
         wait_for_response: { type: 'boolean', description: 'Block until response received (sets message_type to request). Default: false' },
         wait_timeout_ms: { type: 'number', description: 'Timeout in milliseconds for wait operations. Default: 30000' },
+        recipients: { type: 'array', items: { type: 'string' }, description: 'Address the message to these agents only. Other agents on the channel will not see it. Track it with bus_delivery_status' },
+        reply_to: { type: 'string', description: 'ID of the message you are replying to (must be on the same channel). The reply joins its thread; see bus_get_thread' },
+        encrypt: { type: 'boolean', description: 'Store content encrypted for the recipients, or else the channel\'s subscribers (both parties on dm: channels), sealed with the public keys they published with bus_publish_key. Can\'t be combined with signature. Default: false' },
+        sealed: {
+          type: 'object',
+          description: 'Send content you encrypted yourself instead of content. Seal it with AES-256-GCM and wrap the key with RSA-OAEP-SHA256 for each recipient\'s public key (see bus_get_public_keys); the bus only stores the ciphertext',
+          properties: {
+            encrypted_content: { type: 'string', description: 'Base64 ciphertext' },
+            encryption_metadata: { type: 'object', description: '{ algorithm: "AES-256-GCM", key_wrap: "RSA-OAEP-SHA256", iv, auth_tag } with base64 iv and auth_tag' },
+            recipient_keys: { type: 'object', description: 'Base64 wrapped content key per recipient agent ID' }
+          },
+          required: ['encrypted_content', 'encryption_metadata', 'recipient_keys']
+        },
+        signature: { type: 'string', description: 'Base64 Ed25519 signature over the JSON array [channel, agent_id, message_type, recipients, reply_to, signed_at, nonce, content], made with the signing key you published with bus_publish_key. message_type is request with wait_for_response, direct with recipients, else broadcast; recipients is sorted ([] without), reply_to null without. For sealed messages, sign encrypted_content in place of content. Receivers see verified: true' },
+        nonce: { type: 'string', description: 'Required with signature: a value you never use twice, e.g. a random UUID. A nonce you already used is rejected' },
+        signed_at: { type: 'string', description: 'Required with signature: ISO timestamp of when you signed. Signatures more than 5 minutes off are rejected' },
+        content_type: { type: 'string', enum: ['text', 'json', 'acp', 'binary-base64'], description: 'What content holds. json and acp are validated before sending. Default: text' },
+        compress: { type: 'string', enum: ['auto', 'gzip', 'br'], description: 'Store content compressed (auto: gzip for content of 1 KB or more). Receivers get it decompressed. Not applied to encrypted messages' },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       },
-      required: ['channel', 'agent_id', 'session_id', 'content']
+      required: ['channel', 'agent_id', 'session_id']
+    }
+  },
+  {
+    name: 'bus_get_public_keys',
+    description: 'Get the public keys to seal a message with before sending it as sealed to bus_send: those of the given recipients, or else of everyone who can read the channel (both parties on dm: channels).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel: { type: 'string', description: 'Channel the message will be sent to' },
+        agent_id: { type: 'string', description: 'Your agent ID (your own key is included, so you can read what you sent)' },
+        recipients: { type: 'array', items: { type: 'string' }, description: 'Seal for these agents only, as with bus_send recipients' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['channel', 'agent_id']
+    }
+  },
+  {
+    name: 'bus_publish_key',
+    description: 'Publish public keys you generated, so others can send you encrypted messages and verify your signed ones. Keep the private keys yourself; the bus never sees them. Replacing a published key must be signed with your current signing key.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        agent_id: { type: 'string', description: 'Your agent ID' },
+        public_key: { type: 'string', description: 'PEM RSA public key (at least 2048 bits) others encrypt for you with. Required the first time' },
+        signing_public_key: { type: 'string', description: 'PEM Ed25519 public key your signatures are checked against' },
+        signature: { type: 'string', description: 'Required to replace a published key: base64 Ed25519 signature, made with your current signing key, over the JSON array ["publish_key", agent_id, public_key, signing_public_key], using null for a key you leave out' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['agent_id']
     }
   },
   {
     name: 'bus_receive',
-    description: 'Receive messages from a channel. Returns unacknowledged messages by default.',
+    description: 'Receive messages from a channel. Returns unacknowledged messages by default. Set wait_ms to block until a new message lands instead of polling.',
     inputSchema: {
       type: 'object',
       properties: {
         channel: { type: 'string', description: 'Channel to receive messages from' },
-        agent_id: { type: 'string', description: 'Your agent ID (to exclude your own messages)' },
+        agent_id: { type: 'string', description: 'Your agent ID (excludes your own messages and those you already acknowledged). Encrypted messages sealed for you are decrypted with your private key from the local key store; without it they carry sealed: the ciphertext and your wrapped key' },
         limit: { type: 'number', description: 'Maximum number of messages to receive. Default: 10' },
         since: { type: 'string', description: 'Only get messages after this ISO timestamp' },
         include_acknowledged: { type: 'boolean', description: 'Include already acknowledged messages. Default: false' },
+        wait_ms: { type: 'number', description: 'Long-poll: if no messages are available, wait up to this many milliseconds for one to arrive (max 120000). Default: 0 (return immediately)' },
+        group: { type: 'string', description: 'Consumer group to receive through. Each message is leased to a single group member until acknowledged or the visibility timeout expires. Requires agent_id' },
+        group_by_thread: { type: 'boolean', description: 'Return the received messages grouped into threads instead of a flat list. Default: false' },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       },
       required: ['channel']
     }
   },
+  {
+    name: 'bus_search',
+    description: 'Full-text search across message history, including decoded ACP payloads. Results are ranked by relevance and include highlighted snippets. Encrypted messages are not searchable.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'FTS5 query: words, "exact phrases", prefix*, AND/OR/NOT, or column filters like acp_payload:deploy' },
+        agent_id: { type: 'string', description: 'Your agent ID (includes restricted channels and addressed messages you can read)' },
+        channel: { type: 'string', description: 'Only search this channel' },
+        sender: { type: 'string', description: 'Only messages from this agent' },
+        message_type: { type: 'string', enum: ['broadcast', 'direct', 'request', 'response'], description: 'Only messages of this type' },
+        acp_type: { type: 'string', description: 'Only ACP messages of this type (e.g., "TASK_COMPLETE")' },
+        since: { type: 'string', description: 'Only messages created at or after this timestamp' },
+        until: { type: 'string', description: 'Only messages created at or before this timestamp' },
+        limit: { type: 'number', description: 'Maximum results (max 100). Default: 20' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['query']
+    }
+  },
+  {
+    name: 'bus_archive_query',
+    description: 'Query messages that have left the live bus: expired messages, and acknowledged messages without a TTL. They are kept for each channel\'s archive retention (default 30 days).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        agent_id: { type: 'string', description: 'Your agent ID (includes restricted channels and addressed messages you can read)' },
+        channel: { type: 'string', description: 'Only messages from this channel' },
+        sender: { type: 'string', description: 'Only messages from this agent' },
+        thread_id: { type: 'string', description: 'Only messages from this thread' },
+        since: { type: 'string', description: 'Only messages created at or after this timestamp' },
+        until: { type: 'string', description: 'Only messages created at or before this timestamp' },
+        limit: { type: 'number', description: 'Maximum messages (max 500). Default: 50' },
+        offset: { type: 'number', description: 'Messages to skip, for paging. Default: 0' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      }
+    }
+  },
+  {
+    name: 'bus_get_thread',
+    description: 'Get the full conversation a message belongs to, as a tree of replies. Use it to recover context when a discussion spans many messages.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message_id: { type: 'string', description: 'Any message in the thread' },
+        agent_id: { type: 'string', description: 'Your agent ID (includes messages addressed to you, and decrypts messages sealed for you)' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['message_id']
+    }
+  },
+  {
+    name: 'bus_delivery_status',
+    description: 'Get per-recipient delivery and read receipts for a message sent with recipients. delivered_at is stamped when the recipient receives it with bus_receive, read_at when it acknowledges it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        message_id: { type: 'string', description: 'ID of the message to check' },
+        agent_id: { type: 'string', description: 'Your agent ID. Receipts are only shown to the sender and recipients of the message' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['message_id']
+    }
+  },
   {
     name: 'bus_acknowledge',
-    description: 'Acknowledge receipt/processing of a message. Prevents the message from showing up in future bus_receive calls.',
+    description: 'Acknowledge receipt/processing of a message. Acknowledgements are tracked per agent: the message stops showing up in your own bus_receive calls while other subscribers still see it until they acknowledge it too.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -182,6 +373,27 @@ const tools: Tool[] = [
       required: ['message_id', 'agent_id']
     }
   },
+  {
+    name: 'bus_consumer_group',
+    description: 'Manage consumer groups for competing-consumer delivery on a channel. Members receive with bus_receive(group=...) and each message is handed to exactly one member; unacknowledged messages are redelivered to another member after the visibility timeout. Members do not need to bus_subscribe to the channel.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        command: {
+          type: 'string',
+          enum: ['create', 'join', 'leave', 'list'],
+          description: 'Consumer group command to execute'
+        },
+        channel: { type: 'string', description: 'Channel the group consumes (required for create, join, leave; optional filter for list)' },
+        group: { type: 'string', description: 'Consumer group name (required for create, join, leave)' },
+        agent_id: { type: 'string', description: 'Your agent ID (required for create, join, leave)' },
+        visibility_timeout_seconds: { type: 'number', description: 'Lease duration before an unacknowledged message is redelivered (create only). Default: 300' },
+        max_deliveries: { type: 'number', description: 'Leases without acknowledgement before the message is moved to the dead letter queue (create only). Default: 5' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['command']
+    }
+  },
   {
     name: 'bus_request',
     description: 'Send a request and wait for responses from other agents. Use for request-response patterns.',
@@ -193,6 +405,9 @@ const tools: Tool[] = [
         session_id: { type: 'string', description: 'Your session ID' },
         content: { type: 'string', description: 'Request content' },
         ttl_seconds: { type: 'number', description: 'How long to wait for responses. Default: 60' },
+        signature: { type: 'string', description: 'Base64 Ed25519 signature over the JSON array [channel, agent_id, "request", [], null, signed_at, nonce, content], made with the signing key you published with bus_publish_key. Receivers see verified: true' },
+        nonce: { type: 'string', description: 'Required with signature: a value you never use twice, e.g. a random UUID. A nonce you already used is rejected' },
+        signed_at: { type: 'string', description: 'Required with signature: ISO timestamp of when you signed. Signatures more than 5 minutes off are rejected' },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       },
       required: ['channel', 'agent_id', 'session_id', 'content']
@@ -208,6 +423,9 @@ const tools: Tool[] = [
         agent_id: { type: 'string', description: 'Your agent ID' },
         session_id: { type: 'string', description: 'Your session ID' },
         content: { type: 'string', description: 'Response content' },
+        signature: { type: 'string', description: 'Base64 Ed25519 signature over the JSON array [channel, agent_id, "response", [], request_id, signed_at, nonce, content], where request_id is the ID of the request message, made with the signing key you published with bus_publish_key. Receivers see verified: true' },
+        nonce: { type: 'string', description: 'Required with signature: a value you never use twice, e.g. a random UUID. A nonce you already used is rejected' },
+        signed_at: { type: 'string', description: 'Required with signature: ISO timestamp of when you signed. Signatures more than 5 minutes off are rejected' },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       },
       required: ['correlation_id', 'agent_id', 'session_id', 'content']
@@ -220,6 +438,53 @@ const tools: Tool[] = [
       type: 'object',
       properties: {
         correlation_id: { type: 'string', description: 'Correlation ID from the original request' },
+        agent_id: { type: 'string', description: 'Your agent ID (includes restricted channels and addressed requests you can read)' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['correlation_id']
+    }
+  },
+  {
+    name: 'bus_structured_request',
+    description: 'Send a request whose responses must conform to a JSON Schema. Supports type, enum, const, oneOf/anyOf/allOf, $ref/$defs, string formats, min/max constraints and additionalProperties. In strict mode non-conforming responses are rejected, and kept as resolved dead letters until the request is archived; in permissive mode they are accepted but flagged.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel: { type: 'string', description: 'Channel to send request to' },
+        agent_id: { type: 'string', description: 'Your agent ID' },
+        session_id: { type: 'string', description: 'Your session ID' },
+        content: { type: 'string', description: 'Request content' },
+        response_schema: { type: 'object', description: 'JSON Schema that responses must satisfy' },
+        validation_mode: { type: 'string', enum: ['strict', 'permissive'], description: 'Reject (strict) or flag (permissive) invalid responses. Default: strict' },
+        timeout_seconds: { type: 'number', description: 'How long the request stays open for responses. Default: 60' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['channel', 'agent_id', 'session_id', 'content', 'response_schema']
+    }
+  },
+  {
+    name: 'bus_structured_respond',
+    description: 'Respond to a structured request. Content must be JSON matching the request\'s response_schema.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        correlation_id: { type: 'string', description: 'Correlation ID from the structured request' },
+        agent_id: { type: 'string', description: 'Your agent ID' },
+        session_id: { type: 'string', description: 'Your session ID' },
+        content: { type: 'string', description: 'JSON response payload' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['correlation_id', 'agent_id', 'session_id', 'content']
+    }
+  },
+  {
+    name: 'bus_get_structured_responses',
+    description: 'Get all responses to a structured request, each with its validation result against the response schema.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        correlation_id: { type: 'string', description: 'Correlation ID from the structured request' },
+        agent_id: { type: 'string', description: 'Your agent ID (includes restricted channels and addressed requests you can read)' },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       },
       required: ['correlation_id']
@@ -244,11 +509,41 @@ const tools: Tool[] = [
         name: { type: 'string', description: 'Channel name (lowercase, no spaces)' },
         description: { type: 'string', description: 'Channel description' },
         ttl_seconds: { type: 'number', description: 'Default message TTL for this channel. Default: 3600' },
+        require_signatures: { type: 'boolean', description: 'Reject messages that are unsigned or fail signature verification. Unchanged when omitted' },
+        agent_id: { type: 'string', description: 'Your agent ID. Required to change a restricted channel, or with restricted=true' },
+        restricted: { type: 'boolean', description: 'Make agent_id the owner so only agents granted a role through bus_channel_acl can use the channel. Only when creating a new channel; system channels (global, coordination, status, errors) stay open. Default: false' },
+        archive_retention_seconds: { type: 'number', description: 'How long expired messages stay queryable with bus_archive_query. 0 deletes them on expiry. Default: 2592000 (30 days)' },
+        max_messages: { type: 'number', description: 'Maximum live messages on the channel. null removes the limit. Unchanged when omitted' },
+        max_total_bytes: { type: 'number', description: 'Maximum total size of live messages in bytes. null removes the limit. Unchanged when omitted' },
+        max_message_bytes: { type: 'number', description: 'Reject messages larger than this many bytes. null removes the limit. Unchanged when omitted' },
+        ack_retention_seconds: { type: 'number', description: 'Remove messages this long after all their recipients (or, for broadcasts, all channel subscribers) acknowledged them, even before their TTL. null keeps them until they expire. Unchanged when omitted' },
+        overflow_policy: { type: 'string', enum: ['drop_oldest', 'reject', 'dead_letter'], description: 'When max_messages or max_total_bytes would be exceeded: archive the oldest messages, reject the new one, or move the oldest to the dead letter queue. Default: drop_oldest' },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       },
       required: ['name']
     }
   },
+  {
+    name: 'bus_channel_acl',
+    description: 'Manage who may use a channel. Channels without ACL entries are open to everyone; once created with bus_create_channel(restricted=true), only agents with a role can use it. Roles: owner (everything, manages the ACL), publisher (send and read), subscriber (read and answer requests), observer (read only). ACP roles map as coordinator=owner, worker=publisher, observer=observer.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        command: {
+          type: 'string',
+          enum: ['grant', 'revoke', 'list'],
+          description: 'ACL command to execute'
+        },
+        channel: { type: 'string', description: 'Channel name' },
+        agent_id: { type: 'string', description: 'Your agent ID (required for grant and revoke); you must be an owner of the channel. Roles can only be granted on restricted channels: restrict an open one first with bus_create_channel(restricted=true), which makes you its owner' },
+        target_agent: { type: 'string', description: 'Agent to grant a role to or revoke from (grant, revoke)' },
+        role: { type: 'string', enum: ['owner', 'publisher', 'subscriber', 'observer'], description: 'Channel role to grant' },
+        agent_role: { type: 'string', enum: ['coordinator', 'worker', 'observer'], description: 'ACP agent role to grant instead of role' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['command', 'channel']
+    }
+  },
   {
     name: 'bus_list_agents',
     description: 'List all active agents on the message bus.',
@@ -327,22 +622,76 @@ const tools: Tool[] = [
         channel: { type: 'string', description: 'Channel to send message to' },
         agent_id: { type: 'string', description: 'Your agent ID' },
         session_id: { type: 'string', description: 'Your session ID' },
-        content: { type: 'string', description: 'Message content' },
+        content: { type: 'string', description: 'Message content. May use placeholders filled in each time it is sent, e.g. {{run_count}}, {{fire_time_local}}, {{channel.unacked_count}}, {{unacked.total}}, {{last_approved_task.title}}, {{last_approved_task.result | truncate:200}}. Filters: upper, lower, json, truncate:N, default:"text"' },
         schedule_for: { type: 'string', description: 'ISO datetime (e.g., "2025-01-20T15:30:00Z") or schedule expression (e.g., "interval:3600" for hourly)' },
-        recurrence: { type: 'string', description: 'Optional: cron expression for recurring messages (e.g., "*/5 * * * *" for every 5 minutes)' },
+        recurrence: { type: 'string', description: 'Optional: cron expression for recurring messages, with 5 fields or 6 with leading seconds (e.g., "0 9 * * MON-FRI" for weekdays at 9:00, "0 0 L * *" for the last day of each month), or "interval:N" for every N seconds' },
+        timezone: { type: 'string', description: 'IANA timezone the cron expression is evaluated in (e.g., "Europe/Berlin"). Default: the server\'s timezone' },
+        misfire_policy: { type: 'string', enum: ['fire_once', 'fire_all', 'skip'], description: 'What to do with fire times missed while the server was down: send one catch-up message (fire_once), one per missed time (fire_all) or none (skip). Default: fire_once' },
+        max_occurrences: { type: 'number', description: 'Stop a recurring message after it has been sent this many times (optional)' },
+        expires_at: { type: 'string', description: 'ISO datetime after which a recurring message stops (optional)' },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       },
       required: ['channel', 'agent_id', 'session_id', 'content', 'schedule_for']
     }
   },
+  {
+    name: 'bus_schedule_task',
+    description: 'Create an orchestrator task on a schedule, e.g. a nightly dependency audit, so each run is tracked through assignment, results and approval. You are the creator of every task.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        agent_id: { type: 'string', description: 'Your agent ID' },
+        session_id: { type: 'string', description: 'Your session ID' },
+        task: {
+          type: 'object',
+          description: 'Template for the task each run creates',
+          properties: {
+            title: { type: 'string', description: 'Task title; may use placeholders such as {{date}} or {{run_count}}' },
+            description: { type: 'string', description: 'Task description; may use placeholders' },
+            priority: { type: 'number', description: 'Task priority. Default: 0' },
+            tags: { type: 'array', items: { type: 'string' }, description: 'Required skills, matched against agent capabilities when auto-assigning' },
+            timeout_seconds: { type: 'number', description: 'Seconds an assignment may run without a result. Default: 3600' },
+            max_retries: { type: 'number', description: 'Times a timed-out task is reassigned. Default: 0' },
+            deadline_seconds: { type: 'number', description: 'Each task fails if not completed this many seconds after it is created' },
+            assign_to: { type: 'string', description: 'Agent to assign each task to, or "auto" to pick the best-ranked agent. Default: leave unassigned' }
+          },
+          required: ['title']
+        },
+        schedule: { type: 'string', description: 'Cron expression (e.g., "0 2 * * *" for nightly at 2:00), "interval:N" or "at:<ISO datetime>"' },
+        timezone: { type: 'string', description: 'IANA timezone the cron expression is evaluated in. Default: the server\'s timezone' },
+        channel: { type: 'string', description: 'Channel the {{channel.*}} placeholders read. Default: coordination' },
+        misfire_policy: { type: 'string', enum: ['fire_once', 'fire_all', 'skip'], description: 'What to do with runs missed while the server was down. Default: fire_once' },
+        max_occurrences: { type: 'number', description: 'Stop after creating this many tasks (optional)' },
+        expires_at: { type: 'string', description: 'ISO datetime after which the schedule stops (optional)' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['agent_id', 'session_id', 'task', 'schedule']
+    }
+  },
+  {
+    name: 'bus_preview_schedule',
+    description: 'Show the next times a schedule would fire, to check a cron expression before scheduling with it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        schedule: { type: 'string', description: 'Cron expression, "interval:N" or "at:<timestamp>"' },
+        timezone: { type: 'string', description: 'IANA timezone to evaluate the cron expression in. Default: the server\'s timezone' },
+        count: { type: 'number', description: 'Number of fire times to return (max 100). Default: 5' },
+        from: { type: 'string', description: 'Start from this ISO timestamp instead of now' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['schedule']
+    }
+  },
   {
     name: 'bus_list_scheduled',
-    description: 'List all scheduled messages.',
+    description: 'List all scheduled messages with the outcome of their last run and how many runs they missed.',
     inputSchema: {
       type: 'object',
       properties: {
         agent_id: { type: 'string', description: 'Filter by agent ID (optional)' },
         channel: { type: 'string', description: 'Filter by channel (optional)' },
+        schedule_id: { type: 'string', description: 'Show only this schedule, with its recent run history (optional)' },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       }
     }
@@ -360,6 +709,105 @@ const tools: Tool[] = [
       required: ['schedule_id', 'agent_id']
     }
   },
+  {
+    name: 'bus_update_scheduled',
+    description: 'Edit a scheduled message in place, keeping its ID and run history. Only the fields given are changed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        schedule_id: { type: 'string', description: 'ID of the scheduled message' },
+        agent_id: { type: 'string', description: 'Your agent ID (must be the sender)' },
+        content: { type: 'string', description: 'New message content; may use the same placeholders as bus_schedule_message' },
+        schedule: { type: 'string', description: 'New schedule: cron expression, "interval:N" or "at:<ISO datetime>". The next send moves to its next fire time from now' },
+        channel: { type: 'string', description: 'New channel' },
+        expires_at: { type: ['string', 'null'], description: 'New expiry as an ISO datetime, or null to remove it' },
+        timezone: { type: ['string', 'null'], description: 'New IANA timezone for cron schedules, or null for the server\'s' },
+        misfire_policy: { type: 'string', enum: ['fire_once', 'fire_all', 'skip'], description: 'New misfire policy' },
+        max_occurrences: { type: ['number', 'null'], description: 'New limit on the number of sends, or null to remove it' },
+        task: {
+          type: 'object',
+          description: 'New task template, replacing the old one (task schedules only)',
+          properties: {
+            title: { type: 'string', description: 'Task title; may use placeholders such as {{date}} or {{run_count}}' },
+            description: { type: 'string', description: 'Task description; may use placeholders' },
+            priority: { type: 'number', description: 'Task priority. Default: 0' },
+            tags: { type: 'array', items: { type: 'string' }, description: 'Required skills, matched against agent capabilities when auto-assigning' },
+            timeout_seconds: { type: 'number', description: 'Seconds an assignment may run without a result. Default: 3600' },
+            max_retries: { type: 'number', description: 'Times a timed-out task is reassigned. Default: 0' },
+            deadline_seconds: { type: 'number', description: 'Each task fails if not completed this many seconds after it is created' },
+            assign_to: { type: 'string', description: 'Agent to assign each task to, or "auto" to pick the best-ranked agent. Default: leave unassigned' }
+          },
+          required: ['title']
+        },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['schedule_id', 'agent_id']
+    }
+  },
+  {
+    name: 'bus_pause_scheduled',
+    description: 'Pause a scheduled message. It keeps its ID and history and sends nothing until resumed.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        schedule_id: { type: 'string', description: 'ID of the scheduled message to pause' },
+        agent_id: { type: 'string', description: 'Your agent ID (must be the sender)' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['schedule_id', 'agent_id']
+    }
+  },
+  {
+    name: 'bus_resume_scheduled',
+    description: 'Resume a paused scheduled message. Runs that fell in the pause are skipped.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        schedule_id: { type: 'string', description: 'ID of the scheduled message to resume' },
+        agent_id: { type: 'string', description: 'Your agent ID (must be the sender)' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['schedule_id', 'agent_id']
+    }
+  },
+  {
+    name: 'bus_list_dead_letters',
+    description: 'List unresolved dead letters: messages that expired unacknowledged, exceeded their consumer group delivery attempts, or failed structured validation.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        channel: { type: 'string', description: 'Filter by channel (optional)' },
+        limit: { type: 'number', description: 'Maximum number of entries to return. Default: 50' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      }
+    }
+  },
+  {
+    name: 'bus_retry_dead_letter',
+    description: 'Re-send a dead letter to its channel now instead of waiting for the automatic retry. The entry resolves once the re-sent message is acknowledged or answered.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        dlq_id: { type: 'string', description: 'Dead letter ID' },
+        agent_id: { type: 'string', description: 'Your agent ID' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['dlq_id', 'agent_id']
+    }
+  },
+  {
+    name: 'bus_resolve_dead_letter',
+    description: 'Mark a dead letter as resolved without re-sending it.',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        dlq_id: { type: 'string', description: 'Dead letter ID' },
+        resolution: { type: 'string', description: 'How the failure was handled' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['dlq_id', 'resolution']
+    }
+  },
   {
     name: 'bus_orchestrate',
     description: 'Orchestrate tasks between agents. Single tool with sub-commands for context efficiency.',
@@ -368,15 +816,61 @@ const tools: Tool[] = [
       properties: {
         command: { 
           type: 'string', 
-          enum: ['create_task', 'assign_task', 'accept_task', 'submit_result', 'approve_result', 'list_tasks', 'get_status'],
+          enum: [
+            'create_task', 'add_dependency', 'assign_task', 'auto_assign', 'accept_task', 'start_task', 'reject_task',
+            'fail_task', 'submit_result', 'approve_result', 'request_revision', 'cancel_task', 'list_tasks', 'get_task', 'get_status'
+          ],
           description: 'Orchestration command to execute'
         },
-        task_id: { type: 'string', description: 'Task ID (required for assign, accept, submit, approve)' },
-        agent_id: { type: 'string', description: 'Agent ID (required for create, assign, accept, submit, approve)' },
+        task_id: { type: 'string', description: 'Task ID (required for every command except create_task and list_tasks; optional for get_status)' },
+        agent_id: { type: 'string', description: 'Agent ID (required for create, assign, accept, start, reject, fail, submit, approve, request_revision, cancel). For approve_result and request_revision, the assignee whose result is reviewed; for cancel_task, the task creator' },
         title: { type: 'string', description: 'Task title (required for create_task)' },
         description: { type: 'string', description: 'Task description (optional for create_task)' },
+        depends_on: {
+          type: 'array',
+          items: {
+            oneOf: [
+              { type: 'string' },
+              {
+                type: 'object',
+                properties: {
+                  task_id: { type: 'string' },
+                  dependency_type: { type: 'string', enum: ['required', 'optional'] }
+                },
+                required: ['task_id']
+              }
+            ]
+          },
+          description: 'Upstream task IDs (create_task, add_dependency). The task stays blocked until its trigger rule is satisfied. Optional dependencies must finish but their outcome is ignored'
+        },
+        trigger_rule: {
+          type: 'string',
+          enum: ['all_success', 'all_done', 'one_success', 'one_failed'],
+          description: 'When a blocked task becomes ready (create_task, add_dependency). Default: all_success'
+        },
+        timeout_seconds: { type: 'number', description: 'Seconds an assignment may run without a result before it times out (create_task). Default: 3600' },
+        max_retries: { type: 'number', description: 'Times a timed-out task is reassigned to another agent before it fails (create_task). Default: 0' },
+        deadline_at: { type: 'string', description: 'ISO timestamp after which the task fails if not completed (create_task)' },
+        tags: { type: 'array', items: { type: 'string' }, description: 'Required skills matched against agent capabilities by auto_assign (create_task)' },
         result_data: { type: 'string', description: 'Result data (required for submit_result)' },
-        approval_notes: { type: 'string', description: 'Approval notes (optional for approve_result)' },
+        artifacts: {
+          type: 'array',
+          items: { type: 'string' },
+          description: 'File IDs from bus_upload_file attached to the result (submit_result). Files must be yours, unexpired and shared with the task creator'
+        },
+        metrics: {
+          type: 'object',
+          properties: {
+            duration_ms: { type: 'number' },
+            tokens: { type: 'number' },
+            cost_usd: { type: 'number' }
+          },
+          additionalProperties: { type: 'number' },
+          description: 'Execution metrics for the result (submit_result)'
+        },
+        approval_notes: { type: 'string', description: 'Approval notes (optional for approve_result) or requested changes (request_revision)' },
+        reason: { type: 'string', description: 'Reason (optional for reject_task, fail_task, cancel_task)' },
+        blocking: { type: 'boolean', description: 'Whether the task waits for this assignee before completing (assign_task, auto_assign). Default: true' },
         status: { type: 'string', description: 'Status filter (optional for list_tasks)' },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       },
@@ -395,7 +889,7 @@ const tools: Tool[] = [
   },
   {
     name: 'bus_request_consensus',
-    description: 'Request consensus from multiple agents on a proposal. Automatically sends CONSENSUS_REQUEST messages and collects CONSENSUS_RESPONSE votes. Returns aggregated results when quorum is reached or voting deadline expires.',
+    description: 'Request consensus from multiple agents on a proposal. Sends a CONSENSUS_REQUEST and tallies CONSENSUS_RESPONSE votes. The decision is published on the channel once every target agent has voted or the deadline passes; check progress with bus_get_consensus_result.',
     inputSchema: {
       type: 'object',
       properties: {
@@ -406,12 +900,29 @@ const tools: Tool[] = [
         proposal_data: { type: 'object', description: 'Optional: Additional structured data about the proposal' },
         target_agents: { type: 'array', items: { type: 'string' }, description: 'Optional: Specific agent IDs to request votes from' },
         quorum: { type: 'number', description: 'Minimum number of votes required. Default: majority of target_agents or 2' },
+        threshold: {
+          type: 'string',
+          enum: ['majority', 'supermajority'],
+          description: 'Share of cast votes an option needs: majority (more than half) or supermajority (at least two thirds). Default: majority'
+        },
         voting_deadline_seconds: { type: 'number', description: 'Seconds to wait for votes. Default: 60' },
         format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
       },
       required: ['agent_id', 'session_id', 'proposal']
     }
   },
+  {
+    name: 'bus_get_consensus_result',
+    description: 'Get the current tally of a consensus request: votes per option, quorum status, pending target agents, ignored votes and the outcome (projected while voting is open).',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        correlation_id: { type: 'string', description: 'Correlation ID returned by bus_request_consensus' },
+        format: { type: 'string', enum: ['json', 'toon'], description: 'Response format. Default: toon' }
+      },
+      required: ['correlation_id']
+    }
+  },
   {
     name: 'bus_validate_acp_message',
     description: 'Validate that a message conforms to the Agent Coordination Protocol (ACP) v1.0 specification. Checks for required fields, valid message types, and proper structure.',
@@ -451,9 +962,13 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
   try {
     switch (name) {
       case 'bus_register_agent': {
-        const { agent_id, session_id, metadata } = RegisterAgentSchema.parse(args);
-        const agent = bus.registerAgent(agent_id, session_id, metadata ?? {});
-        const responseData = attachUnackedInfo({ success: true, agent }, agent_id, session_id);
+        const { agent_id, session_id, metadata, capabilities } = RegisterAgentSchema.parse(args);
+        const agent = bus.registerAgent(agent_id, session_id, metadata ?? {}, capabilities);
+        const responseData = attachUnackedInfo(
+          { success: true, agent, capabilities: bus.getCapabilities(agent_id) },
+          agent_id,
+          session_id
+        );
         return { content: [{ type: 'text', text: JSON.stringify(responseData, null, 2) }] };
       }
 
@@ -471,7 +986,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'bus_send': {
-        const { channel, agent_id, session_id, content, priority, ttl_seconds, force_send, wait_for_ack, wait_for_response, wait_timeout_ms } = SendMessageSchema.parse(args);
+        const { channel, agent_id, session_id, content, priority, ttl_seconds, force_send, wait_for_ack, wait_for_response, wait_timeout_ms, encrypt, sealed, signature, nonce, signed_at, recipients, reply_to, content_type, compress } = SendMessageSchema.parse(args);
         
         const agent = bus.getAgent(agent_id, session_id);
         if (!agent) {
@@ -509,17 +1024,50 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           }
         }
 
+        let encryptFor: string[] | undefined;
+        if (encrypt) {
+          encryptFor = recipients ? [...new Set([...recipients, agent_id])].sort() : bus.getEncryptionRecipients(channel, agent_id);
+        }
         let message;
         if (wait_for_response) {
-          message = bus.sendRequest(channel, agent_id, session_id, content, ttl_seconds ?? 60);
+          message = bus.sendRequest(channel, agent_id, session_id, content ?? '', ttl_seconds ?? 60, {
+            encryptFor,
+            sealed,
+            signature,
+            nonce,
+            signedAt: signed_at,
+            recipients,
+            replyTo: reply_to,
+            contentType: content_type,
+            compression: compress
+          });
         } else {
-          message = bus.sendMessage(channel, agent_id, session_id, content, {
+          message = bus.sendMessage(channel, agent_id, session_id, content ?? '', {
+            messageType: recipients ? 'direct' : undefined,
             priority,
-            ttlSeconds: ttl_seconds
+            ttlSeconds: ttl_seconds,
+            encryptFor,
+            sealed,
+            signature,
+            nonce,
+            signedAt: signed_at,
+            recipients,
+            replyTo: reply_to,
+            contentType: content_type,
+            compression: compress
           });
         }
 
-        let responseData: any = { success: true, message };
+        // content_size and stored_size on the message report what compression saved
+        let responseData: any = { success: true, message: bus.decodeMessages([message])[0] };
+        if (message.content_encoding !== 'identity') {
+          responseData.compressed_with = message.content_encoding;
+        }
+        if (encryptFor) {
+          responseData.encrypted_for = encryptFor;
+        } else if (sealed) {
+          responseData.encrypted_for = Object.keys(sealed.recipient_keys).sort();
+        }
 
         if (wait_for_ack) {
           const timeoutMs = wait_timeout_ms ?? 30000;
@@ -537,7 +1085,7 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           responseData.wait_for_response_result = {
             received: response !== null,
             timeout_ms: timeoutMs,
-            response: response,
+            response: response ? bus.verifyMessages(bus.decodeMessages([response]))[0] : null,
             message: response ? 'Response received' : `Timeout after ${timeoutMs}ms without response`
           };
         }
@@ -547,27 +1095,215 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'bus_receive': {
-        const { channel, agent_id, limit, since, include_acknowledged } = args as {
-          channel: string; agent_id?: string; limit?: number; since?: string; include_acknowledged?: boolean;
+        const { channel, agent_id, limit, since, include_acknowledged, wait_ms, group, group_by_thread } = args as {
+          channel: string; agent_id?: string; limit?: number; since?: string; include_acknowledged?: boolean; wait_ms?: number; group?: string;
+          group_by_thread?: boolean;
         };
-        const messages = bus.getMessages(channel, {
+
+        if (group) {
+          if (!agent_id) {
+            throw new Error('agent_id is required when receiving through a consumer group');
+          }
+          const leased = wait_ms && wait_ms > 0
+            ? await consumerGroups.receiveWait(channel, group, agent_id, limit ?? 10, Math.min(wait_ms, MAX_RECEIVE_WAIT_MS))
+            : consumerGroups.receive(channel, group, agent_id, limit ?? 10);
+          bus.markDelivered(agent_id, leased.map(m => m.id));
+          const messages = bus.verifyMessages(bus.decodeMessages(openMessages(leased, agent_id)));
+          const body = group_by_thread ? { threads: groupByThread(messages) } : { messages };
+          return { content: [{ type: 'text', text: JSON.stringify({ success: true, count: messages.length, ...body }, null, 2) }] };
+        }
+
+        const receiveOptions = {
           limit: limit ?? 10,
           since,
           unacknowledgedOnly: !include_acknowledged,
-          excludeSender: agent_id
+          excludeSender: agent_id,
+          consumer: agent_id,
+          reader: agent_id ?? null
+        };
+        let messages = bus.getMessages(channel, receiveOptions);
+        if (messages.length === 0 && wait_ms && wait_ms > 0) {
+          messages = await bus.waitForMessages(channel, receiveOptions, Math.min(wait_ms, MAX_RECEIVE_WAIT_MS));
+        }
+        if (agent_id) {
+          bus.markDelivered(agent_id, messages.map(m => m.id));
+          messages = openMessages(messages, agent_id);
+        }
+        const verified = bus.verifyMessages(bus.decodeMessages(messages));
+        const body = group_by_thread ? { threads: groupByThread(verified) } : { messages: verified };
+        return { content: [{ type: 'text', text: JSON.stringify({ success: true, count: verified.length, ...body }, null, 2) }] };
+      }
+
+      case 'bus_get_public_keys': {
+        const { channel, agent_id, recipients, format } = args as {
+          channel: string;
+          agent_id: string;
+          recipients?: string[];
+          format?: string;
+        };
+        if (!channel) {
+          throw new Error('channel is required');
+        }
+        if (!agent_id) {
+          throw new Error('agent_id is required');
+        }
+        const agentIds = recipients ? [...new Set([...recipients, agent_id])].sort() : bus.getEncryptionRecipients(channel, agent_id);
+        const keys = agentIds.map(id => ({ agent_id: id, public_key: bus.getPublicKey(id)?.public_key ?? null }));
+        return {
+          content: [{
+            type: 'text',
+            text: formatResponse({
+              keys: keys.filter(k => k.public_key),
+              missing: keys.filter(k => !k.public_key).map(k => k.agent_id)
+            }, format)
+          }]
+        };
+      }
+
+      case 'bus_publish_key': {
+        const { agent_id, public_key, signing_public_key, signature, format } = args as {
+          agent_id: string;
+          public_key?: string;
+          signing_public_key?: string;
+          signature?: string;
+          format?: string;
+        };
+        const key = bus.publishAgentKeys(agent_id, { publicKey: public_key, signingPublicKey: signing_public_key }, signature);
+        return { content: [{ type: 'text', text: formatResponse({ success: true, key }, format) }] };
+      }
+
+      case 'bus_search': {
+        const { query, agent_id, channel, sender, message_type, acp_type, since, until, limit, format } = args as {
+          query: string;
+          agent_id?: string;
+          channel?: string;
+          sender?: string;
+          message_type?: 'broadcast' | 'direct' | 'request' | 'response';
+          acp_type?: string;
+          since?: string;
+          until?: string;
+          limit?: number;
+          format?: string;
+        };
+        const results = search.search(query, {
+          channel,
+          sender,
+          messageType: message_type,
+          acpType: acp_type,
+          since,
+          until,
+          limit,
+          reader: agent_id ?? null
+        });
+        return { content: [{ type: 'text', text: formatResponse({ query, count: results.length, results }, format) }] };
+      }
+
+      case 'bus_archive_query': {
+        const { agent_id, channel, sender, thread_id, since, until, limit, offset, format } = args as {
+          agent_id?: string;
+          channel?: string;
+          sender?: string;
+          thread_id?: string;
+          since?: string;
+          until?: string;
+          limit?: number;
+          offset?: number;
+          format?: string;
+        };
+        const messages = archive.query({
+          channel,
+          sender,
+          threadId: thread_id,
+          since,
+          until,
+          limit: Math.min(limit ?? 50, 500),
+          offset,
+          reader: agent_id ?? null
         });
-        return { content: [{ type: 'text', text: JSON.stringify({ success: true, count: messages.length, messages }, null, 2) }] };
+        return { content: [{ type: 'text', text: formatResponse({ count: messages.length, messages }, format) }] };
+      }
+
+      case 'bus_get_thread': {
+        const { message_id, agent_id, format } = args as { message_id: string; agent_id?: string; format?: string };
+        let messages = bus.getThread(message_id, agent_id ?? null);
+        if (agent_id) {
+          messages = openMessages(messages, agent_id);
+        }
+        const verified = bus.verifyMessages(bus.decodeMessages(messages));
+        const result = {
+          thread_id: verified[0] ? (verified[0].thread_id ?? verified[0].id) : message_id,
+          count: verified.length,
+          roots: buildThreadTree(verified)
+        };
+        return { content: [{ type: 'text', text: formatResponse(result, format) }] };
+      }
+
+      case 'bus_delivery_status': {
+        const { message_id, agent_id, format } = args as { message_id: string; agent_id?: string; format?: string };
+        return { content: [{ type: 'text', text: formatResponse({ success: true, ...bus.getDeliveryStatus(message_id, agent_id ?? null) }, format) }] };
       }
 
       case 'bus_acknowledge': {
         const { message_id, agent_id } = args as { message_id: string; agent_id: string };
         const acknowledged = bus.acknowledgeMessage(message_id, agent_id);
-        return { content: [{ type: 'text', text: JSON.stringify({ success: acknowledged, message_id }) }] };
+        const leaseCompleted = consumerGroups.acknowledge(message_id, agent_id);
+        return { content: [{ type: 'text', text: JSON.stringify({ success: acknowledged || leaseCompleted, message_id }) }] };
+      }
+
+      case 'bus_consumer_group': {
+        const { command, channel, group, agent_id, visibility_timeout_seconds, max_deliveries, format } = args as {
+          command: string;
+          channel?: string;
+          group?: string;
+          agent_id?: string;
+          visibility_timeout_seconds?: number;
+          max_deliveries?: number;
+          format?: string;
+        };
+        let result: any;
+
+        if (command === 'create' || command === 'join' || command === 'leave') {
+          if (!channel) {
+            throw new Error(`channel is required for ${command}`);
+          }
+          if (!group) {
+            throw new Error(`group is required for ${command}`);
+          }
+          if (!agent_id) {
+            throw new Error(`agent_id is required for ${command}`);
+          }
+        }
+
+        switch (command) {
+          case 'create':
+            result = { success: true, group: consumerGroups.createGroup(
+              channel!,
+              group!,
+              agent_id!,
+              visibility_timeout_seconds ?? 300,
+              max_deliveries ?? 5
+            ) };
+            break;
+          case 'join':
+            consumerGroups.joinGroup(channel!, group!, agent_id!);
+            result = { success: true, members: consumerGroups.getMembers(channel!, group!) };
+            break;
+          case 'leave':
+            result = { success: consumerGroups.leaveGroup(channel!, group!, agent_id!) };
+            break;
+          case 'list':
+            result = { groups: consumerGroups.listGroups(channel) };
+            break;
+          default:
+            throw new Error(`Unknown consumer group command: ${command}`);
+        }
+
+        return { content: [{ type: 'text', text: formatResponse(result, format) }] };
       }
 
       case 'bus_request': {
-        const { channel, agent_id, session_id, content, ttl_seconds } = RequestSchema.parse(args);
-        const message = bus.sendRequest(channel, agent_id, session_id, content, ttl_seconds ?? 60);
+        const { channel, agent_id, session_id, content, ttl_seconds, signature, nonce, signed_at } = RequestSchema.parse(args);
+        const message = bus.sendRequest(channel, agent_id, session_id, content, ttl_seconds ?? 60, { signature, nonce, signedAt: signed_at });
         return { content: [{ type: 'text', text: JSON.stringify({
           success: true,
           message,
@@ -576,31 +1312,140 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'bus_respond': {
-        const { correlation_id, agent_id, session_id, content } = RespondSchema.parse(args);
-        const message = bus.sendResponse(correlation_id, agent_id, session_id, content);
+        const { correlation_id, agent_id, session_id, content, signature, nonce, signed_at } = RespondSchema.parse(args);
+        const message = bus.sendResponse(correlation_id, agent_id, session_id, content, { signature, nonce, signedAt: signed_at });
         return { content: [{ type: 'text', text: JSON.stringify({ success: true, message }, null, 2) }] };
       }
 
       case 'bus_get_responses': {
-        const { correlation_id } = args as { correlation_id: string };
-        const responses = bus.getResponses(correlation_id);
+        const { correlation_id, agent_id } = args as { correlation_id: string; agent_id?: string };
+        const responses = bus.verifyMessages(bus.decodeMessages(bus.getResponses(correlation_id, agent_id ?? null)));
         return { content: [{ type: 'text', text: JSON.stringify({ success: true, count: responses.length, responses }, null, 2) }] };
       }
 
+      case 'bus_structured_request': {
+        const { channel, agent_id, session_id, content, response_schema, validation_mode, timeout_seconds } = StructuredRequestSchema.parse(args);
+        const { format } = args as { format?: string };
+        const request = structuredRequests.sendStructuredRequest(channel, agent_id, session_id, content, response_schema, {
+          validationMode: validation_mode,
+          timeout: timeout_seconds
+        });
+        return { content: [{ type: 'text', text: formatResponse({
+          success: true,
+          request_id: request.id,
+          correlation_id: request.correlation_id,
+          validation_mode: request.validation_mode,
+          expires_at: request.expires_at,
+          note: `Use correlation_id "${request.correlation_id}" with bus_get_structured_responses to collect validated replies`
+        }, format) }] };
+      }
+
+      case 'bus_structured_respond': {
+        const { correlation_id, agent_id, session_id, content } = RespondSchema.parse(args);
+        const { format } = args as { format?: string };
+        const { message, validation } = structuredRequests.respondToStructuredRequest(correlation_id, agent_id, session_id, content);
+        return { content: [{ type: 'text', text: formatResponse({
+          success: true,
+          message_id: message.id,
+          validated: validation.valid,
+          validation_errors: validation.errors
+        }, format) }] };
+      }
+
+      case 'bus_get_structured_responses': {
+        const { correlation_id, agent_id, format } = args as { correlation_id: string; agent_id?: string; format?: string };
+        const responses = structuredRequests.getStructuredResponses(correlation_id, agent_id ?? null);
+        return { content: [{ type: 'text', text: formatResponse({ count: responses.length, responses }, format) }] };
+      }
+
       case 'bus_list_channels': {
         const channels = bus.listChannels();
         return { content: [{ type: 'text', text: JSON.stringify({ success: true, channels }, null, 2) }] };
       }
 
       case 'bus_create_channel': {
-        const { name, description, ttl_seconds } = args as { name: string; description?: string; ttl_seconds?: number };
-        const channel = bus.createChannel(name, description ?? '', ttl_seconds ?? 3600);
+        const {
+          name, description, ttl_seconds, require_signatures, agent_id, restricted,
+          archive_retention_seconds, max_messages, max_total_bytes, max_message_bytes, ack_retention_seconds, overflow_policy
+        } = args as {
+          name: string; description?: string; ttl_seconds?: number; require_signatures?: boolean; agent_id?: string; restricted?: boolean;
+          archive_retention_seconds?: number | null; max_messages?: number | null; max_total_bytes?: number | null;
+          max_message_bytes?: number | null; ack_retention_seconds?: number | null; overflow_policy?: OverflowPolicy;
+        };
+        if (restricted && !agent_id) {
+          throw new Error('agent_id is required to create a restricted channel');
+        }
+        const existing = bus.getChannel(name);
+        if (existing) {
+          bus.checkChannelAccess(name, agent_id ?? null, 'manage');
+          // Anyone may manage an open channel, so restricting one later would let anyone take it over
+          if (restricted && !bus.isChannelRestricted(name)) {
+            throw new Error(`Channel ${name} already exists and is open; only new channels can be restricted`);
+          }
+        }
+        bus.createChannel(name, description ?? '', ttl_seconds ?? 3600, require_signatures);
+        const channel = bus.setChannelPolicy(name, {
+          archiveRetentionSeconds: archive_retention_seconds,
+          maxMessages: max_messages,
+          maxTotalBytes: max_total_bytes,
+          maxMessageBytes: max_message_bytes,
+          ackRetentionSeconds: ack_retention_seconds,
+          overflowPolicy: overflow_policy
+        });
+        if (restricted && !existing) {
+          bus.restrictChannel(name, agent_id!);
+        }
         return { content: [{ type: 'text', text: JSON.stringify({ success: true, channel }, null, 2) }] };
       }
 
+      case 'bus_channel_acl': {
+        const { command, channel, agent_id, target_agent, role, agent_role, format } = args as {
+          command: string;
+          channel: string;
+          agent_id?: string;
+          target_agent?: string;
+          role?: ChannelRole;
+          agent_role?: AgentRole;
+          format?: string;
+        };
+        let result: any;
+
+        switch (command) {
+          case 'grant': {
+            if (!agent_id || !target_agent) {
+              throw new Error('agent_id and target_agent are required for grant');
+            }
+            const channelRole = role ?? (agent_role ? CHANNEL_ROLE_FOR_AGENT_ROLE[agent_role] : undefined);
+            if (!channelRole) {
+              throw new Error('role or agent_role is required for grant');
+            }
+            result = { success: true, entry: bus.grantChannelRole(channel, target_agent, channelRole, agent_id), acl: bus.getChannelAcl(channel) };
+            break;
+          }
+          case 'revoke':
+            if (!agent_id || !target_agent) {
+              throw new Error('agent_id and target_agent are required for revoke');
+            }
+            result = { success: bus.revokeChannelRole(channel, target_agent, agent_id), acl: bus.getChannelAcl(channel) };
+            break;
+          case 'list': {
+            const acl = bus.getChannelAcl(channel);
+            result = { channel, restricted: acl.length > 0, acl };
+            break;
+          }
+          default:
+            throw new Error(`Unknown channel ACL command: ${command}`);
+        }
+
+        return { content: [{ type: 'text', text: formatResponse(result, format) }] };
+      }
+
       case 'bus_list_agents': {
         const { active_within_seconds } = args as { active_within_seconds?: number };
-        const agents = bus.listAgents(active_within_seconds ?? 300);
+        const agents = bus.listAgents(active_within_seconds ?? 300).map(agent => ({
+          ...agent,
+          capabilities: bus.getCapabilities(agent.agent_id)
+        }));
         return { content: [{ type: 'text', text: JSON.stringify({ success: true, count: agents.length, agents }, null, 2) }] };
       }
 
@@ -673,24 +1518,82 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
       }
 
       case 'bus_schedule_message': {
-        const { channel, agent_id, session_id, content, schedule_for, recurrence, format } = args as {
+        const { channel, agent_id, session_id, content, schedule_for, recurrence, timezone, misfire_policy, max_occurrences, expires_at, format } = args as {
           channel: string;
           agent_id: string;
           session_id: string;
           content: string;
           schedule_for: string;
           recurrence?: string;
+          timezone?: string;
+          misfire_policy?: MisfirePolicy;
+          max_occurrences?: number;
+          expires_at?: string;
           format?: string;
         };
         const scheduled = recurrence 
-          ? scheduler.createRecurring(channel, agent_id, session_id, content, recurrence)
-          : scheduler.createScheduled(channel, agent_id, session_id, content, schedule_for);
-        return { content: [{ type: 'text', text: formatResponse({ schedule_id: scheduled.id, success: true }, format) }] };
+          ? scheduler.createRecurring(channel, agent_id, session_id, content, recurrence, {
+            timezone,
+            misfirePolicy: misfire_policy,
+            maxOccurrences: max_occurrences,
+            expiresAt: expires_at
+          })
+          : scheduler.createScheduled(channel, agent_id, session_id, content, schedule_for, undefined, misfire_policy);
+        return { content: [{ type: 'text', text: formatResponse({ schedule_id: scheduled.id, next_send_at: scheduled.next_send_at, success: true }, format) }] };
+      }
+
+      case 'bus_schedule_task': {
+        const { agent_id, session_id, task, schedule, timezone, channel, misfire_policy, max_occurrences, expires_at, format } = args as {
+          agent_id: string;
+          session_id: string;
+          task: TaskTemplate;
+          schedule: string;
+          timezone?: string;
+          channel?: string;
+          misfire_policy?: MisfirePolicy;
+          max_occurrences?: number;
+          expires_at?: string;
+          format?: string;
+        };
+        const scheduled = scheduler.createTaskSchedule(agent_id, session_id, task, schedule, {
+          channel,
+          timezone,
+          misfirePolicy: misfire_policy,
+          maxOccurrences: max_occurrences,
+          expiresAt: expires_at
+        });
+        return { content: [{ type: 'text', text: formatResponse({ schedule_id: scheduled.id, next_send_at: scheduled.next_send_at, success: true }, format) }] };
+      }
+
+      case 'bus_preview_schedule': {
+        const { schedule, timezone, count, from, format } = args as {
+          schedule: string;
+          timezone?: string;
+          count?: number;
+          from?: string;
+          format?: string;
+        };
+        const zone = timezone ?? defaultTimezone();
+        const fireTimes = scheduler.previewSchedule(schedule, count ?? 5, {
+          timezone: zone,
+          from: from ? new Date(from) : undefined
+        });
+        const result = {
+          schedule,
+          timezone: zone,
+          fire_times: fireTimes.map(time => ({ utc: time.toISOString(), local: formatInTimezone(time, zone) }))
+        };
+        return { content: [{ type: 'text', text: formatResponse(result, format) }] };
       }
 
       case 'bus_list_scheduled': {
-        const { agent_id, channel, format } = args as { agent_id?: string; channel?: string; format?: string };
-        const scheduled = scheduler.listScheduled(agent_id);
+        const { agent_id, channel, schedule_id, format } = args as { agent_id?: string; channel?: string; schedule_id?: string; format?: string };
+        const scheduled = scheduler.listScheduled(agent_id, undefined, channel);
+        if (schedule_id) {
+          const schedule = scheduled.find(s => s.id === schedule_id) ?? null;
+          const runs = schedule ? scheduler.getRunHistory(schedule_id) : [];
+          return { content: [{ type: 'text', text: formatResponse({ schedule, runs }, format) }] };
+        }
         return { content: [{ type: 'text', text: formatResponse({ scheduled }, format) }] };
       }
 
@@ -700,6 +1603,64 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
         return { content: [{ type: 'text', text: formatResponse({ success }, format) }] };
       }
 
+      case 'bus_update_scheduled': {
+        const { schedule_id, agent_id, content, schedule, channel, expires_at, timezone, misfire_policy, max_occurrences, task, format } = args as {
+          schedule_id: string;
+          agent_id: string;
+          content?: string;
+          schedule?: string;
+          channel?: string;
+          expires_at?: string | null;
+          timezone?: string | null;
+          misfire_policy?: MisfirePolicy;
+          max_occurrences?: number | null;
+          task?: TaskTemplate;
+          format?: string;
+        };
+        const updated = scheduler.updateScheduled(schedule_id, agent_id, {
+          content,
+          schedule,
+          channel,
+          expiresAt: expires_at,
+          timezone,
+          misfirePolicy: misfire_policy,
+          maxOccurrences: max_occurrences,
+          task
+        });
+        return { content: [{ type: 'text', text: formatResponse({ success: updated !== null, schedule: updated }, format) }] };
+      }
+
+      case 'bus_pause_scheduled': {
+        const { schedule_id, agent_id, format } = args as { schedule_id: string; agent_id: string; format?: string };
+        const success = scheduler.pauseScheduled(schedule_id, agent_id);
+        return { content: [{ type: 'text', text: formatResponse({ success }, format) }] };
+      }
+
+      case 'bus_resume_scheduled': {
+        const { schedule_id, agent_id, format } = args as { schedule_id: string; agent_id: string; format?: string };
+        const success = scheduler.resumeScheduled(schedule_id, agent_id);
+        const next_send_at = success ? scheduler.getRecurringMessage(schedule_id)?.next_send_at : undefined;
+        return { content: [{ type: 'text', text: formatResponse({ success, next_send_at }, format) }] };
+      }
+
+      case 'bus_list_dead_letters': {
+        const { channel, limit, format } = args as { channel?: string; limit?: number; format?: string };
+        const deadLetters = bus.getDeadLetters(channel, limit ?? 50);
+        return { content: [{ type: 'text', text: formatResponse({ count: deadLetters.length, dead_letters: deadLetters }, format) }] };
+      }
+
+      case 'bus_retry_dead_letter': {
+        const { dlq_id, agent_id, format } = args as { dlq_id: string; agent_id: string; format?: string };
+        const success = bus.retryDeadLetter(dlq_id, agent_id);
+        return { content: [{ type: 'text', text: formatResponse({ success, dead_letter: bus.getDeadLetter(dlq_id) }, format) }] };
+      }
+
+      case 'bus_resolve_dead_letter': {
+        const { dlq_id, resolution, format } = args as { dlq_id: string; resolution: string; format?: string };
+        const success = bus.resolveDeadLetter(dlq_id, resolution);
+        return { content: [{ type: 'text', text: formatResponse({ success, dlq_id }, format) }] };
+      }
+
       case 'bus_orchestrate': {
         const orchestrateArgs = args as { 
           command: string; 
@@ -707,8 +1668,18 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           agent_id?: string; 
           title?: string; 
           description?: string; 
+          depends_on?: Array<string | { task_id: string; dependency_type?: DependencyType }>;
+          trigger_rule?: TriggerRule;
+          timeout_seconds?: number;
+          max_retries?: number;
+          deadline_at?: string;
+          tags?: string[];
           result_data?: string; 
+          artifacts?: string[];
+          metrics?: ExecutionMetrics;
           approval_notes?: string; 
+          reason?: string;
+          blocking?: boolean;
           status?: string; 
           format?: string;
         };
@@ -720,20 +1691,62 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
             result = orchestrator.createTask(
               orchestrateArgs.title!,
               orchestrateArgs.agent_id!,
-              orchestrateArgs.description
+              orchestrateArgs.description,
+              0,
+              {
+                dependsOn: orchestrateArgs.depends_on,
+                triggerRule: orchestrateArgs.trigger_rule,
+                timeoutSeconds: orchestrateArgs.timeout_seconds,
+                maxRetries: orchestrateArgs.max_retries,
+                deadlineAt: orchestrateArgs.deadline_at,
+                tags: orchestrateArgs.tags
+              }
             );
             break;
+          case 'add_dependency': {
+            if (!orchestrateArgs.task_id || !orchestrateArgs.depends_on?.length) {
+              throw new Error('add_dependency requires task_id and depends_on');
+            }
+            let dependencies: unknown[] = [];
+            for (const dep of orchestrateArgs.depends_on) {
+              const spec = typeof dep === 'string' ? { task_id: dep } : dep;
+              dependencies = orchestrator.addDependency(
+                orchestrateArgs.task_id,
+                spec.task_id,
+                spec.dependency_type,
+                orchestrateArgs.trigger_rule
+              );
+            }
+            result = { task: orchestrator.getTask(orchestrateArgs.task_id), dependencies };
+            break;
+          }
           case 'assign_task':
-            result = orchestrator.assignTask(orchestrateArgs.task_id!, orchestrateArgs.agent_id!);
+            result = orchestrator.assignTask(orchestrateArgs.task_id!, orchestrateArgs.agent_id!, orchestrateArgs.blocking ?? true);
+            break;
+          case 'auto_assign':
+            result = orchestrator.autoAssign(orchestrateArgs.task_id!, orchestrateArgs.blocking ?? true);
             break;
           case 'accept_task':
             result = { success: orchestrator.acceptTask(orchestrateArgs.task_id!, orchestrateArgs.agent_id!) };
             break;
+          case 'start_task':
+            result = orchestrator.startTask(orchestrateArgs.task_id!, orchestrateArgs.agent_id!);
+            break;
+          case 'reject_task':
+            result = orchestrator.rejectTask(orchestrateArgs.task_id!, orchestrateArgs.agent_id!, orchestrateArgs.reason);
+            break;
+          case 'fail_task':
+            result = orchestrator.failTask(orchestrateArgs.task_id!, orchestrateArgs.agent_id!, orchestrateArgs.reason);
+            break;
+          case 'cancel_task':
+            result = orchestrator.cancelTask(orchestrateArgs.task_id!, orchestrateArgs.agent_id!, orchestrateArgs.reason);
+            break;
           case 'submit_result':
             result = orchestrator.submitResult(
               orchestrateArgs.task_id!,
               orchestrateArgs.agent_id!,
-              orchestrateArgs.result_data!
+              orchestrateArgs.result_data!,
+              { artifacts: orchestrateArgs.artifacts, metrics: orchestrateArgs.metrics }
             );
             break;
           case 'approve_result':
@@ -743,9 +1756,22 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
               orchestrateArgs.approval_notes
             ) };
             break;
+          case 'request_revision':
+            result = orchestrator.requestRevision(
+              orchestrateArgs.task_id!,
+              orchestrateArgs.agent_id!,
+              orchestrateArgs.approval_notes
+            );
+            break;
           case 'list_tasks':
             result = { tasks: orchestrator.listTasks({ status: orchestrateArgs.status }) };
             break;
+          case 'get_task':
+            result = orchestrator.getTaskDetails(orchestrateArgs.task_id!);
+            break;
+          case 'get_status':
+            result = orchestrator.getStatus(orchestrateArgs.task_id);
+            break;
           default:
             throw new Error(`Unknown orchestrate command: ${command}`);
         }
@@ -786,54 +1812,41 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
           agent_id: string;
           session_id: string;
           proposal: string;
-          proposal_data?: object;
+          proposal_data?: Record<string, unknown>;
           target_agents?: string[];
           quorum?: number;
+          threshold?: ConsensusThreshold;
           voting_deadline_seconds?: number;
           format?: string;
         };
-        
-        const channel = consensusArgs.channel || 'coordination';
-        const votingDeadlineSeconds = consensusArgs.voting_deadline_seconds || 60;
-        const votingDeadline = new Date(Date.now() + votingDeadlineSeconds * 1000).toISOString();
-        
-        const defaultQuorum = consensusArgs.target_agents 
-          ? Math.ceil(consensusArgs.target_agents.length / 2)
-          : 2;
-        const quorum = consensusArgs.quorum || defaultQuorum;
-        
-        const acpMessage = createACPMessage(
-          'CONSENSUS_REQUEST',
-          consensusArgs.agent_id,
-          consensusArgs.session_id,
-          {
-            proposal: consensusArgs.proposal,
-            voting_deadline: votingDeadline,
-            quorum: quorum,
-            proposal_data: consensusArgs.proposal_data || {},
-            target_agents: consensusArgs.target_agents
-          }
-        );
-        
-        const request = bus.sendRequest(
-          channel,
-          consensusArgs.agent_id,
-          consensusArgs.session_id,
-          JSON.stringify(acpMessage),
-          votingDeadlineSeconds
-        );
+
+        const request = consensus.requestConsensus(consensusArgs.agent_id, consensusArgs.session_id, consensusArgs.proposal, {
+          channel: consensusArgs.channel,
+          proposalData: consensusArgs.proposal_data,
+          targetAgents: consensusArgs.target_agents,
+          quorum: consensusArgs.quorum,
+          threshold: consensusArgs.threshold,
+          votingDeadlineSeconds: consensusArgs.voting_deadline_seconds
+        });
         
         return { content: [{ type: 'text', text: formatResponse({
           success: true,
-          request_id: request.id,
-          correlation_id: request.correlation_id,
-          voting_deadline: votingDeadline,
-          quorum: quorum,
-          message: 'Consensus request sent. Use bus_get_responses with correlation_id to collect votes.',
-          note: `Poll for responses using: bus_get_responses(correlation_id="${request.correlation_id}")`
+          request_id: request.request_message_id,
+          correlation_id: request.id,
+          voting_deadline: request.voting_deadline,
+          quorum: request.quorum,
+          threshold: request.threshold,
+          message: 'Consensus request sent. Agents vote with bus_respond using a CONSENSUS_RESPONSE payload.',
+          note: `Check the tally using: bus_get_consensus_result(correlation_id="${request.id}")`
         }, consensusArgs.format) }] };
       }
 
+      case 'bus_get_consensus_result': {
+        const { correlation_id, format } = args as { correlation_id: string; format?: string };
+        const result = consensus.getResult(correlation_id);
+        return { content: [{ type: 'text', text: formatResponse(result, format) }] };
+      }
+
       case 'bus_validate_acp_message': {
         const { message, format } = args as { message: any; format?: string };
         const validation = validateACPMessage(message);
@@ -858,10 +1871,12 @@ server.setRequestHandler(CallToolRequestSchema, async (request) => {
 
 // Periodic cleanup
 setInterval(() => {
+  // Runs dead-letter routing for expired messages before archiving them
   const expiredMessages = bus.cleanupExpiredMessages();
+  const purgedArchive = archive.purgeExpired();
   const inactiveAgents = bus.cleanupInactiveAgents();
-  if (expiredMessages > 0 || inactiveAgents > 0) {
-    console.error(`Cleanup: ${expiredMessages} expired messages, ${inactiveAgents} inactive agents`);
+  if (expiredMessages > 0 || purgedArchive > 0 || inactiveAgents > 0) {
+    console.error(`Cleanup: ${expiredMessages} expired messages, ${purgedArchive} purged from archive, ${inactiveAgents} inactive agents`);
   }
 }, 60000); // Every minute
 
@@ -1,98 +1,1050 @@
 import type Database from 'better-sqlite3';
-import { generateMessageId } from './database.js';
+import { generateMessageId, toSqliteDatetime } from './database.js';
+import { MessageBus } from './bus.js';
+import { createACPMessage, type ACPMessageType } from './acp-protocol.js';
+import type { FileTransferManager } from './file-transfer.js';
+
+export type TriggerRule = 'all_success' | 'all_done' | 'one_success' | 'one_failed';
+
+export type DependencyType = 'required' | 'optional';
 
 export interface OrchestratorTask {
   id: string;
   title: string;
   description?: string;
   created_by: string;
+  input_data: string | null;
+  context: string | null;
+  tags: string | null;
+  priority: number;
+  timeout_seconds: number;
+  max_retries: number;
+  deadline_at: string | null;
   status: string;
+  retry_count: number;
+  failure_reason: string | null;
   created_at: string;
 }
 
+export interface TaskDependency {
+  task_id: string;
+  depends_on_task_id: string;
+  dependency_type: DependencyType;
+  trigger_rule: TriggerRule;
+}
+
+export interface DependencySpec {
+  task_id: string;
+  dependency_type?: DependencyType;
+}
+
+export interface CreateTaskOptions {
+  dependsOn?: Array<string | DependencySpec>;
+  triggerRule?: TriggerRule;
+  timeoutSeconds?: number;
+  maxRetries?: number;
+  deadlineAt?: string;
+  tags?: string[];
+}
+
+export type AssignmentStatus =
+  | 'assigned'
+  | 'accepted'
+  | 'in_progress'
+  | 'submitted'
+  | 'revision_requested'
+  | 'approved'
+  | 'rejected'
+  | 'failed'
+  | 'cancelled'
+  | 'timed_out';
+
+export interface TaskAssignment {
+  id: string;
+  task_id: string;
+  agent_id: string;
+  assigned_at: string;
+  accepted_at: string | null;
+  started_at: string | null;
+  submitted_at: string | null;
+  approved_at: string | null;
+  revision_requested_at: string | null;
+  status: AssignmentStatus;
+  status_reason: string | null;
+  blocking: number;
+}
+
+export interface ResultArtifact {
+  file_id: string;
+  filename: string;
+  mime_type: string;
+  size_bytes: number;
+  checksum_sha256: string;
+  expires_at: string | null;
+}
+
+export interface ExecutionMetrics {
+  duration_ms?: number;
+  tokens?: number;
+  cost_usd?: number;
+  [name: string]: number | undefined;
+}
+
+export interface TaskResult {
+  id: string;
+  task_id: string;
+  agent_id: string;
+  result_data: string;
+  artifacts: ResultArtifact[];
+  execution_metrics: ExecutionMetrics;
+  submitted_at: string;
+  approved: number;
+  approval_notes: string | null;
+}
+
+export interface SubmitResultOptions {
+  artifacts?: string[];
+  metrics?: ExecutionMetrics;
+}
+
+export interface AssignmentCandidate {
+  agent_id: string;
+  matched_tags: string[];
+  missing_tags: string[];
+  active_assignments: number;
+  max_concurrency: number;
+  last_seen: string;
+}
+
+export interface SweepResult {
+  timed_out: number;
+  reassigned: number;
+  failed: number;
+}
+
+export const TRIGGER_RULES: TriggerRule[] = ['all_success', 'all_done', 'one_success', 'one_failed'];
+
+// Sender identity used for orchestrator announcements on the coordination channel
+const ORCHESTRATOR_AGENT = 'orchestrator';
+export const COORDINATION_CHANNEL = 'coordination';
+
+const SUCCESS_STATUSES = ['completed'];
+const FAILED_STATUSES = ['failed', 'upstream_failed'];
+const DONE_STATUSES = [...SUCCESS_STATUSES, ...FAILED_STATUSES, 'cancelled', 'skipped'];
+// 'created' is the pre-DAG status of tasks that were ready on creation
+const PENDING_STATUSES = ['created', 'ready', 'blocked'];
+// Assignments still waiting on a result from their agent
+const ACTIVE_ASSIGNMENT_STATUSES: AssignmentStatus[] = ['assigned', 'accepted', 'in_progress', 'revision_requested'];
+// Assignments that haven't reached a final status yet
+const OPEN_ASSIGNMENT_STATUSES: AssignmentStatus[] = [...ACTIVE_ASSIGNMENT_STATUSES, 'submitted'];
+// Final assignment statuses that take the agent off the task without producing an outcome
+const WITHDRAWN_ASSIGNMENT_STATUSES: AssignmentStatus[] = ['rejected', 'cancelled', 'timed_out'];
+
+// Allowed orch_assignments.status transitions; statuses without an entry are final
+const ASSIGNMENT_TRANSITIONS: Partial<Record<AssignmentStatus, AssignmentStatus[]>> = {
+  assigned: ['accepted', 'rejected', 'cancelled', 'timed_out'],
+  accepted: ['in_progress', 'submitted', 'rejected', 'failed', 'cancelled', 'timed_out'],
+  in_progress: ['submitted', 'failed', 'cancelled', 'timed_out'],
+  submitted: ['approved', 'revision_requested', 'cancelled'],
+  revision_requested: ['in_progress', 'submitted', 'failed', 'cancelled', 'timed_out']
+};
+
+// Timestamp column stamped when an assignment enters a status
+const ASSIGNMENT_TIMESTAMPS: Partial<Record<AssignmentStatus, string>> = {
+  accepted: 'accepted_at',
+  in_progress: 'started_at',
+  submitted: 'submitted_at',
+  approved: 'approved_at',
+  revision_requested: 'revision_requested_at'
+};
+
+// Allowed orch_tasks.status transitions; done statuses are final
+const TASK_TRANSITIONS: Record<string, string[]> = {
+  created: ['ready', 'blocked', 'assigned', 'failed', 'cancelled', 'upstream_failed', 'skipped'],
+  ready: ['blocked', 'assigned', 'failed', 'cancelled', 'upstream_failed', 'skipped'],
+  blocked: ['ready', 'failed', 'cancelled', 'upstream_failed', 'skipped'],
+  assigned: ['in_progress', 'ready', 'completed', 'failed', 'cancelled'],
+  in_progress: ['ready', 'completed', 'failed', 'cancelled']
+};
+// Agents seen within this window are eligible for reassignment
+const ACTIVE_AGENT_WINDOW_SECONDS = 300;
+
 export class Orchestrator {
   private db: Database.Database;
+  private bus: MessageBus;
+  private fileTransfer?: FileTransferManager;
+  private intervalHandle: NodeJS.Timeout | null = null;
 
-  constructor(db: Database.Database) {
+  constructor(db: Database.Database, bus: MessageBus, fileTransfer?: FileTransferManager) {
     this.db = db;
+    this.bus = bus;
+    this.fileTransfer = fileTransfer;
   }
 
-  createTask(title: string, createdBy: string, description?: string, priority = 0): OrchestratorTask {
+  createTask(
+    title: string,
+    createdBy: string,
+    description?: string,
+    priority = 0,
+    options: CreateTaskOptions = {}
+  ): OrchestratorTask {
     const id = `task_${generateMessageId().slice(4)}`;
-    this.db.prepare(`
-      INSERT INTO orch_tasks (id, title, description, created_by, priority)
-      VALUES (?, ?, ?, ?, ?)
-    `).run(id, title, description || '', createdBy, priority);
-    
-    return this.db.prepare('SELECT * FROM orch_tasks WHERE id = ?').get(id) as OrchestratorTask;
+    const dependencies = (options.dependsOn ?? []).map(dep =>
+      typeof dep === 'string' ? { task_id: dep } : dep
+    );
+    const triggerRule = options.triggerRule ?? 'all_success';
+    if (!TRIGGER_RULES.includes(triggerRule)) {
+      throw new Error(`Invalid trigger rule: ${triggerRule}`);
+    }
+    const timeoutSeconds = options.timeoutSeconds ?? 3600;
+    if (!Number.isInteger(timeoutSeconds) || timeoutSeconds <= 0) {
+      throw new Error('timeoutSeconds must be a positive integer');
+    }
+    const maxRetries = options.maxRetries ?? 0;
+    if (!Number.isInteger(maxRetries) || maxRetries < 0) {
+      throw new Error('maxRetries must be a non-negative integer');
+    }
+    const deadlineAt = options.deadlineAt ? toSqliteDatetime(options.deadlineAt) : null;
+
+    const create = this.db.transaction(() => {
+      this.db.prepare(`
+        INSERT INTO orch_tasks (id, title, description, created_by, priority, timeout_seconds, max_retries, deadline_at, tags, status)
+        VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      `).run(
+        id,
+        title,
+        description || '',
+        createdBy,
+        priority,
+        timeoutSeconds,
+        maxRetries,
+        deadlineAt,
+        options.tags ? JSON.stringify(options.tags) : null,
+        dependencies.length > 0 ? 'blocked' : 'ready'
+      );
+
+      for (const dep of dependencies) {
+        this.insertDependency(id, dep.task_id, dep.dependency_type ?? 'required', triggerRule);
+      }
+    });
+    create();
+
+    if (dependencies.length > 0) {
+      this.evaluateTask(id, true);
+    }
+
+    return this.getTask(id)!;
+  }
+
+  getTask(taskId: string): OrchestratorTask | null {
+    return this.db.prepare('SELECT * FROM orch_tasks WHERE id = ?').get(taskId) as OrchestratorTask | null;
+  }
+
+  addDependency(
+    taskId: string,
+    dependsOnTaskId: string,
+    dependencyType: DependencyType = 'required',
+    triggerRule?: TriggerRule
+  ): TaskDependency[] {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    if (!PENDING_STATUSES.includes(task.status)) {
+      throw new Error(`Cannot add dependencies to task ${taskId} in status ${task.status}`);
+    }
+    const assigned = this.db.prepare('SELECT 1 FROM orch_assignments WHERE task_id = ? LIMIT 1').get(taskId);
+    if (assigned) {
+      throw new Error(`Cannot add dependencies to task ${taskId} after it has been assigned`);
+    }
+
+    // A task has one trigger rule; it is stored on each of its dependency rows
+    const rule = triggerRule ?? this.getDependencies(taskId)[0]?.trigger_rule ?? 'all_success';
+    if (!TRIGGER_RULES.includes(rule)) {
+      throw new Error(`Invalid trigger rule: ${rule}`);
+    }
+
+    const add = this.db.transaction(() => {
+      this.insertDependency(taskId, dependsOnTaskId, dependencyType, rule);
+      this.db.prepare('UPDATE orch_dependencies SET trigger_rule = ? WHERE task_id = ?').run(rule, taskId);
+    });
+    add();
+
+    this.evaluateTask(taskId);
+    return this.getDependencies(taskId);
+  }
+
+  getDependencies(taskId: string): TaskDependency[] {
+    return this.db.prepare(`
+      SELECT * FROM orch_dependencies WHERE task_id = ? ORDER BY depends_on_task_id
+    `).all(taskId) as TaskDependency[];
   }
 
-  assignTask(taskId: string, agentId: string, blocking = true): any {
+  getDependents(taskId: string): TaskDependency[] {
+    return this.db.prepare(`
+      SELECT * FROM orch_dependencies WHERE depends_on_task_id = ? ORDER BY task_id
+    `).all(taskId) as TaskDependency[];
+  }
+
+  assignTask(taskId: string, agentId: string, blocking = true): TaskAssignment {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    if (task.status === 'blocked') {
+      throw new Error(`Task ${taskId} is blocked by unfinished dependencies`);
+    }
+    if (DONE_STATUSES.includes(task.status)) {
+      throw new Error(`Task ${taskId} is already ${task.status}`);
+    }
+
+    const open = this.getLatestAssignment(taskId, agentId);
+    if (open && OPEN_ASSIGNMENT_STATUSES.includes(open.status)) {
+      throw new Error(`Agent ${agentId} is already assigned to task ${taskId} (${open.status})`);
+    }
+
     const assignId = `assign_${generateMessageId().slice(4)}`;
     this.db.prepare(`
       INSERT INTO orch_assignments (id, task_id, agent_id, blocking)
       VALUES (?, ?, ?, ?)
     `).run(assignId, taskId, agentId, blocking ? 1 : 0);
-    
-    return this.db.prepare('SELECT * FROM orch_assignments WHERE id = ?').get(assignId);
+
+    // Further assignees join a task that is already assigned or under way
+    if (PENDING_STATUSES.includes(task.status)) {
+      this.setTaskStatus(taskId, 'assigned', { agent_id: agentId });
+    }
+
+    return this.db.prepare('SELECT * FROM orch_assignments WHERE id = ?').get(assignId) as TaskAssignment;
+  }
+
+  /**
+   * Assigns the task to the best-ranked active agent (see rankCandidates).
+   * Throws if no active agent has spare capacity and matching capabilities.
+   */
+  autoAssign(taskId: string, blocking = true): { assignment: TaskAssignment; candidate: AssignmentCandidate } {
+    const candidate = this.rankCandidates(taskId)[0];
+    if (!candidate) {
+      throw new Error(`No active agent with matching capabilities and spare capacity for task ${taskId}`);
+    }
+
+    return { assignment: this.assignTask(taskId, candidate.agent_id, blocking), candidate };
+  }
+
+  /**
+   * Orders active agents for a task: most task tags covered by their
+   * capabilities (tags, languages and tools) first, then lowest load relative
+   * to max_concurrency, then most recently seen. Agents at capacity, agents
+   * matching none of a tagged task's tags, and agents already assigned to the
+   * task are left out.
+   */
+  rankCandidates(taskId: string, options: { excludePreviousAssignees?: boolean } = {}): AssignmentCandidate[] {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    const taskTags = parseTags(task.tags);
+
+    // Previous assignees are excluded outright on reassignment; otherwise only current ones are
+    const assigneeFilter = options.excludePreviousAssignees
+      ? 'SELECT agent_id FROM orch_assignments WHERE task_id = ?'
+      : `SELECT agent_id FROM orch_assignments WHERE task_id = ? AND status IN (${ACTIVE_ASSIGNMENT_STATUSES.map(() => '?').join(', ')})`;
+    const assigneeParams = options.excludePreviousAssignees ? [taskId] : [taskId, ...ACTIVE_ASSIGNMENT_STATUSES];
+
+    const rows = this.db.prepare(`
+      SELECT a.agent_id, MAX(a.last_seen) as last_seen,
+        c.tags, c.languages, c.tools, COALESCE(c.max_concurrency, 1) as max_concurrency,
+        (
+          SELECT COUNT(*) FROM orch_assignments oa
+          WHERE oa.agent_id = a.agent_id AND oa.status IN (${ACTIVE_ASSIGNMENT_STATUSES.map(() => '?').join(', ')})
+        ) as active_assignments
+      FROM agents a
+      LEFT JOIN agent_capabilities c ON c.agent_id = a.agent_id
+      WHERE datetime(a.last_seen) > datetime('now', '-' || ? || ' seconds')
+        AND a.agent_id != ?
+        AND a.agent_id NOT IN (${assigneeFilter})
+      GROUP BY a.agent_id
+    `).all(
+      ...ACTIVE_ASSIGNMENT_STATUSES,
+      ACTIVE_AGENT_WINDOW_SECONDS,
+      ORCHESTRATOR_AGENT,
+      ...assigneeParams
+    ) as Array<{
+      agent_id: string;
+      last_seen: string;
+      tags: string | null;
+      languages: string | null;
+      tools: string | null;
+      max_concurrency: number;
+      active_assignments: number;
+    }>;
+
+    const candidates = rows.map(row => {
+      const skills = new Set([...parseTags(row.tags), ...parseTags(row.languages), ...parseTags(row.tools)]);
+      return {
+        agent_id: row.agent_id,
+        matched_tags: taskTags.filter(tag => skills.has(tag)),
+        missing_tags: taskTags.filter(tag => !skills.has(tag)),
+        active_assignments: row.active_assignments,
+        max_concurrency: row.max_concurrency,
+        last_seen: row.last_seen
+      };
+    }).filter(c =>
+      c.active_assignments < c.max_concurrency && (taskTags.length === 0 || c.matched_tags.length > 0)
+    );
+
+    return candidates.sort((a, b) =>
+      b.matched_tags.length - a.matched_tags.length ||
+      a.active_assignments / a.max_concurrency - b.active_assignments / b.max_concurrency ||
+      b.last_seen.localeCompare(a.last_seen)
+    );
   }
 
   acceptTask(taskId: string, agentId: string): boolean {
-    const result = this.db.prepare(`
-      UPDATE orch_assignments 
-      SET status = 'accepted', accepted_at = datetime('now')
-      WHERE task_id = ? AND agent_id = ? AND status = 'assigned'
-    `).run(taskId, agentId);
-    
-    return result.changes > 0;
+    const assignment = this.getLatestAssignment(taskId, agentId);
+    if (!assignment || assignment.status !== 'assigned') {
+      return false;
+    }
+
+    this.transitionAssignment(taskId, agentId, 'accepted', 'accept');
+    this.markTaskStarted(taskId);
+    return true;
+  }
+
+  startTask(taskId: string, agentId: string): TaskAssignment {
+    const assignment = this.transitionAssignment(taskId, agentId, 'in_progress', 'start');
+    this.markTaskStarted(taskId);
+    return assignment;
+  }
+
+  rejectTask(taskId: string, agentId: string, reason?: string): TaskAssignment {
+    const assignment = this.transitionAssignment(taskId, agentId, 'rejected', 'reject', reason);
+    this.announce('TASK_REJECTED', taskId, {
+      task_id: taskId,
+      reason: reason || 'Rejected by agent',
+      agent_id: agentId,
+      assignment_id: assignment.id
+    });
+    this.settleTask(taskId);
+    return assignment;
+  }
+
+  failTask(taskId: string, agentId: string, reason?: string): TaskAssignment {
+    const assignment = this.transitionAssignment(taskId, agentId, 'failed', 'fail', reason);
+    this.settleTask(taskId);
+    return assignment;
+  }
+
+  /**
+   * Cancels the task and every open assignment on it. Only the task's
+   * creator may cancel.
+   */
+  cancelTask(taskId: string, agentId: string, reason?: string): OrchestratorTask {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    if (task.created_by !== agentId) {
+      throw new Error(`Only the task creator (${task.created_by}) can cancel task ${taskId}`);
+    }
+
+    this.setTaskStatus(taskId, 'cancelled', { reason: reason || 'Cancelled by creator' });
+    return this.getTask(taskId)!;
   }
 
-  submitResult(taskId: string, agentId: string, resultData: string): any {
+  /**
+   * Records the agent's result. Artifacts are file IDs from the file transfer
+   * store; each must have been uploaded by the submitting agent, must not have
+   * expired, and must be readable by the task creator.
+   */
+  submitResult(taskId: string, agentId: string, resultData: string, options: SubmitResultOptions = {}): TaskResult {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    const artifacts = (options.artifacts ?? []).map(fileId => this.resolveArtifact(fileId, agentId, task.created_by));
+    const metrics = validateMetrics(options.metrics ?? {});
+
     const resultId = `result_${generateMessageId().slice(4)}`;
-    this.db.prepare(`
-      INSERT INTO orch_results (id, task_id, agent_id, result_data)
-      VALUES (?, ?, ?, ?)
-    `).run(resultId, taskId, agentId, resultData);
-    
-    this.db.prepare(`
-      UPDATE orch_assignments 
-      SET status = 'submitted', submitted_at = datetime('now')
-      WHERE task_id = ? AND agent_id = ?
-    `).run(taskId, agentId);
-    
-    return this.db.prepare('SELECT * FROM orch_results WHERE id = ?').get(resultId);
+    const submit = this.db.transaction(() => {
+      this.transitionAssignment(taskId, agentId, 'submitted', 'submit a result for');
+      this.db.prepare(`
+        INSERT INTO orch_results (id, task_id, agent_id, result_data, artifacts, execution_metrics)
+        VALUES (?, ?, ?, ?, ?, ?)
+      `).run(resultId, taskId, agentId, resultData, JSON.stringify(artifacts), JSON.stringify(metrics));
+    });
+    submit();
+
+    return this.getResults(taskId).find(result => result.id === resultId)!;
+  }
+
+  getResults(taskId: string): TaskResult[] {
+    const rows = this.db.prepare(`
+      SELECT * FROM orch_results WHERE task_id = ? ORDER BY submitted_at, rowid
+    `).all(taskId) as Array<Omit<TaskResult, 'artifacts' | 'execution_metrics'> & { artifacts: string | null; execution_metrics: string | null }>;
+
+    return rows.map(row => ({
+      ...row,
+      artifacts: row.artifacts ? JSON.parse(row.artifacts) : [],
+      execution_metrics: row.execution_metrics ? JSON.parse(row.execution_metrics) : {}
+    }));
+  }
+
+  /**
+   * Full task record for reviewers: the task, its assignments and every
+   * submitted result with artifacts. Artifacts whose file has since been
+   * deleted or expired are flagged as unavailable.
+   */
+  getTaskDetails(taskId: string): any {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+
+    const results = this.getResults(taskId).map(result => ({
+      ...result,
+      artifacts: result.artifacts.map(artifact => {
+        const file = this.fileTransfer?.getFileInfo(artifact.file_id);
+        return {
+          ...artifact,
+          available: !!file && (!file.expires_at || new Date(file.expires_at) > new Date())
+        };
+      })
+    }));
+
+    return {
+      task: { ...task, tags: parseTags(task.tags) },
+      assignments: this.getAssignments(taskId),
+      dependencies: this.getDependencies(taskId),
+      results
+    };
   }
 
+  /**
+   * Approves the agent's latest result. The task completes once every
+   * blocking assignment has been approved (or, without blocking assignments,
+   * on the first approval).
+   */
   approveResult(taskId: string, agentId: string, approvalNotes?: string): boolean {
-    this.db.prepare(`
-      UPDATE orch_results 
-      SET approved = 1, approval_notes = ?
-      WHERE task_id = ? AND agent_id = ?
-    `).run(approvalNotes || '', taskId, agentId);
-    
-    this.db.prepare(`
-      UPDATE orch_assignments 
-      SET status = 'approved', approved_at = datetime('now')
-      WHERE task_id = ? AND agent_id = ?
-    `).run(taskId, agentId);
-    
-    this.db.prepare(`
-      UPDATE orch_tasks SET status = 'completed' WHERE id = ?
-    `).run(taskId);
-    
+    const approve = this.db.transaction(() => {
+      this.transitionAssignment(taskId, agentId, 'approved', 'approve the result of');
+      this.db.prepare(`
+        UPDATE orch_results
+        SET approved = 1, approval_notes = ?
+        WHERE id = (
+          SELECT id FROM orch_results WHERE task_id = ? AND agent_id = ?
+          ORDER BY submitted_at DESC, rowid DESC LIMIT 1
+        )
+      `).run(approvalNotes || '', taskId, agentId);
+    });
+    approve();
+
+    this.settleTask(taskId);
     return true;
   }
 
+  requestRevision(taskId: string, agentId: string, notes?: string): TaskAssignment {
+    const revise = this.db.transaction(() => {
+      const assignment = this.transitionAssignment(taskId, agentId, 'revision_requested', 'request a revision of', notes);
+      this.db.prepare(`
+        UPDATE orch_results
+        SET approval_notes = ?
+        WHERE id = (
+          SELECT id FROM orch_results WHERE task_id = ? AND agent_id = ?
+          ORDER BY submitted_at DESC, rowid DESC LIMIT 1
+        )
+      `).run(notes || '', taskId, agentId);
+      return assignment;
+    });
+    const assignment = revise();
+
+    this.announce('STATUS_UPDATE', taskId, {
+      status: 'revision_requested',
+      task_id: taskId,
+      agent_id: agentId,
+      assignment_id: assignment.id,
+      notes: notes || ''
+    });
+    return assignment;
+  }
+
+  getAssignments(taskId: string): TaskAssignment[] {
+    return this.db.prepare(`
+      SELECT * FROM orch_assignments WHERE task_id = ? ORDER BY assigned_at, rowid
+    `).all(taskId) as TaskAssignment[];
+  }
+
+  /**
+   * With a task ID, returns the task with its assignments and dependencies;
+   * without one, task counts by status plus open assignments per agent.
+   */
+  getStatus(taskId?: string): any {
+    if (taskId) {
+      const task = this.getTask(taskId);
+      if (!task) {
+        throw new Error(`Task ${taskId} not found`);
+      }
+      return {
+        task,
+        assignments: this.getAssignments(taskId),
+        dependencies: this.getDependencies(taskId),
+        dependents: this.getDependents(taskId).map(d => d.task_id)
+      };
+    }
+
+    const tasks = this.db.prepare(`
+      SELECT status, COUNT(*) as count FROM orch_tasks GROUP BY status ORDER BY status
+    `).all() as { status: string; count: number }[];
+    const agents = this.db.prepare(`
+      SELECT agent_id, COUNT(*) as open_assignments FROM orch_assignments
+      WHERE status IN (${OPEN_ASSIGNMENT_STATUSES.map(() => '?').join(', ')})
+      GROUP BY agent_id ORDER BY agent_id
+    `).all(...OPEN_ASSIGNMENT_STATUSES);
+
+    return {
+      tasks: Object.fromEntries(tasks.map(row => [row.status, row.count])),
+      agents
+    };
+  }
+
   listTasks(filter?: { status?: string; agent_id?: string }): OrchestratorTask[] {
     let query = 'SELECT * FROM orch_tasks WHERE 1=1';
     const params: any[] = [];
-    
+
     if (filter?.status) {
       query += ' AND status = ?';
       params.push(filter.status);
     }
-    
+
     query += ' ORDER BY created_at DESC';
     return this.db.prepare(query).all(...params) as OrchestratorTask[];
   }
+
+  start(intervalMs: number = 15000): void {
+    if (this.intervalHandle) {
+      return;
+    }
+
+    this.intervalHandle = setInterval(() => {
+      try {
+        this.sweepTimeouts();
+        this.promoteBlockedTasks();
+      } catch (error) {
+        console.error('Orchestrator sweep failed:', error);
+      }
+    }, intervalMs);
+  }
+
+  stop(): void {
+    if (this.intervalHandle) {
+      clearInterval(this.intervalHandle);
+      this.intervalHandle = null;
+    }
+  }
+
+  /**
+   * Re-evaluates every blocked task against its upstream tasks. Status changes
+   * made through this class already propagate immediately; the sweep catches
+   * anything changed behind its back.
+   */
+  promoteBlockedTasks(): number {
+    const blocked = this.db.prepare("SELECT id FROM orch_tasks WHERE status = 'blocked'").all() as { id: string }[];
+    let changed = 0;
+    for (const { id } of blocked) {
+      if (this.evaluateTask(id) !== 'blocked') {
+        changed++;
+      }
+    }
+    return changed;
+  }
+
+  /**
+   * Times out assignments that produced no result within the task's
+   * timeout_seconds, then reassigns the task to another active agent while
+   * retries remain. Tasks past their deadline_at fail outright.
+   */
+  sweepTimeouts(): SweepResult {
+    const result: SweepResult = { timed_out: 0, reassigned: 0, failed: 0 };
+    const activePlaceholders = ACTIVE_ASSIGNMENT_STATUSES.map(() => '?').join(', ');
+
+    const overdue = this.db.prepare(`
+      SELECT * FROM orch_tasks
+      WHERE deadline_at IS NOT NULL AND datetime(deadline_at) <= datetime('now')
+        AND status NOT IN (${DONE_STATUSES.map(() => '?').join(', ')})
+    `).all(...DONE_STATUSES) as OrchestratorTask[];
+
+    for (const task of overdue) {
+      result.timed_out += this.timeOutAssignments(task.id, 'Task deadline exceeded');
+      this.markTaskFailed(task.id, `Deadline ${task.deadline_at} exceeded`);
+      result.failed++;
+    }
+
+    const expired = this.db.prepare(`
+      SELECT a.id, a.task_id, a.agent_id FROM orch_assignments a
+      JOIN orch_tasks t ON t.id = a.task_id
+      WHERE a.status IN (${activePlaceholders})
+        AND datetime(COALESCE(a.revision_requested_at, a.assigned_at), '+' || t.timeout_seconds || ' seconds') <= datetime('now')
+      ORDER BY a.assigned_at
+    `).all(...ACTIVE_ASSIGNMENT_STATUSES) as { id: string; task_id: string; agent_id: string }[];
+
+    for (const assignment of expired) {
+      const task = this.getTask(assignment.task_id)!;
+      this.markTimedOut(assignment, task, `No result within ${task.timeout_seconds}s`);
+      result.timed_out++;
+
+      // Another assignment may still be working on the task or awaiting review
+      const stillOpen = this.db.prepare(`
+        SELECT 1 FROM orch_assignments WHERE task_id = ? AND status IN (${OPEN_ASSIGNMENT_STATUSES.map(() => '?').join(', ')}) LIMIT 1
+      `).get(task.id, ...OPEN_ASSIGNMENT_STATUSES);
+      if (stillOpen || DONE_STATUSES.includes(task.status)) {
+        continue;
+      }
+
+      if (task.retry_count >= task.max_retries) {
+        this.markTaskFailed(task.id, `Timed out after ${task.retry_count + 1} attempt(s); retries exhausted`);
+        result.failed++;
+        continue;
+      }
+
+      const nextAgent = this.rankCandidates(task.id, { excludePreviousAssignees: true })[0]?.agent_id;
+      if (!nextAgent) {
+        this.markTaskFailed(task.id, 'Timed out and no other active agent is available for reassignment');
+        result.failed++;
+        continue;
+      }
+
+      this.db.prepare('UPDATE orch_tasks SET retry_count = retry_count + 1 WHERE id = ?').run(task.id);
+      const reassigned = this.assignTask(task.id, nextAgent);
+      this.announce('STATUS_UPDATE', task.id, {
+        status: 'task_reassigned',
+        task_id: task.id,
+        title: task.title,
+        previous_agent: assignment.agent_id,
+        agent_id: nextAgent,
+        assignment_id: reassigned.id,
+        retry_count: task.retry_count + 1,
+        max_retries: task.max_retries
+      });
+      result.reassigned++;
+    }
+
+    return result;
+  }
+
+  private timeOutAssignments(taskId: string, reason: string): number {
+    const task = this.getTask(taskId)!;
+    const active = this.db.prepare(`
+      SELECT id, task_id, agent_id FROM orch_assignments
+      WHERE task_id = ? AND status IN (${ACTIVE_ASSIGNMENT_STATUSES.map(() => '?').join(', ')})
+    `).all(taskId, ...ACTIVE_ASSIGNMENT_STATUSES) as { id: string; task_id: string; agent_id: string }[];
+
+    for (const assignment of active) {
+      this.markTimedOut(assignment, task, reason);
+    }
+    return active.length;
+  }
+
+  private markTimedOut(assignment: { id: string; agent_id: string }, task: OrchestratorTask, reason: string): void {
+    this.db.prepare("UPDATE orch_assignments SET status = 'timed_out', status_reason = ? WHERE id = ?").run(reason, assignment.id);
+    this.announce('TASK_REJECTED', task.id, {
+      task_id: task.id,
+      reason,
+      agent_id: assignment.agent_id,
+      assignment_id: assignment.id
+    });
+  }
+
+  private resolveArtifact(fileId: string, agentId: string, reviewerId: string): ResultArtifact {
+    if (!this.fileTransfer) {
+      throw new Error('Artifacts require file transfer support');
+    }
+    const file = this.fileTransfer.getFileInfo(fileId);
+    if (!file) {
+      throw new Error(`Artifact file ${fileId} not found`);
+    }
+    if (file.uploader_agent !== agentId) {
+      throw new Error(`Artifact file ${fileId} was uploaded by ${file.uploader_agent}, not ${agentId}`);
+    }
+    if (file.expires_at && new Date(file.expires_at) <= new Date()) {
+      throw new Error(`Artifact file ${fileId} has expired`);
+    }
+    if (!this.fileTransfer.canAccess(file, reviewerId)) {
+      throw new Error(`Artifact file ${fileId} is ${file.access_mode} and not shared with task creator ${reviewerId}`);
+    }
+
+    return {
+      file_id: file.id,
+      filename: file.filename,
+      mime_type: file.mime_type,
+      size_bytes: file.size_bytes,
+      checksum_sha256: file.checksum_sha256,
+      expires_at: file.expires_at
+    };
+  }
+
+  private getLatestAssignment(taskId: string, agentId: string): TaskAssignment | null {
+    return this.db.prepare(`
+      SELECT * FROM orch_assignments WHERE task_id = ? AND agent_id = ?
+      ORDER BY assigned_at DESC, rowid DESC LIMIT 1
+    `).get(taskId, agentId) as TaskAssignment | null;
+  }
+
+  private transitionAssignment(
+    taskId: string,
+    agentId: string,
+    status: AssignmentStatus,
+    action: string,
+    reason?: string
+  ): TaskAssignment {
+    const assignment = this.getLatestAssignment(taskId, agentId);
+    if (!assignment) {
+      throw new Error(`Agent ${agentId} has no assignment for task ${taskId}`);
+    }
+    if (!(ASSIGNMENT_TRANSITIONS[assignment.status] ?? []).includes(status)) {
+      throw new Error(`Cannot ${action} task ${taskId}: assignment for ${agentId} is ${assignment.status}`);
+    }
+
+    const timestamp = ASSIGNMENT_TIMESTAMPS[status];
+    this.db.prepare(`
+      UPDATE orch_assignments
+      SET status = ?, status_reason = ?${timestamp ? `, ${timestamp} = datetime('now')` : ''}
+      WHERE id = ?
+    `).run(status, reason ?? null, assignment.id);
+
+    return this.db.prepare('SELECT * FROM orch_assignments WHERE id = ?').get(assignment.id) as TaskAssignment;
+  }
+
+  private markTaskStarted(taskId: string): void {
+    if (this.getTask(taskId)?.status === 'assigned') {
+      this.setTaskStatus(taskId, 'in_progress');
+    }
+  }
+
+  /**
+   * Derives the task status from its assignments once one of them reaches a
+   * final status. Blocking assignments must all be approved for the task to
+   * complete and any failed one fails it; without blocking assignments the
+   * first approval completes it. With nobody left on the task it goes back
+   * to ready.
+   */
+  private settleTask(taskId: string): void {
+    const task = this.getTask(taskId);
+    if (!task || !['assigned', 'in_progress'].includes(task.status)) {
+      return;
+    }
+
+    const live = this.getAssignments(taskId).filter(a => !WITHDRAWN_ASSIGNMENT_STATUSES.includes(a.status));
+    const blocking = live.filter(a => a.blocking === 1);
+
+    if (blocking.length > 0) {
+      if (blocking.some(a => OPEN_ASSIGNMENT_STATUSES.includes(a.status))) {
+        return;
+      }
+      const failed = blocking.find(a => a.status === 'failed');
+      if (failed) {
+        this.markTaskFailed(taskId, `Assignment for ${failed.agent_id} failed${failed.status_reason ? `: ${failed.status_reason}` : ''}`);
+      } else {
+        this.setTaskStatus(taskId, 'completed', { approved_by: blocking.map(a => a.agent_id) });
+      }
+      return;
+    }
+
+    const approved = live.filter(a => a.status === 'approved');
+    if (approved.length > 0) {
+      this.setTaskStatus(taskId, 'completed', { approved_by: approved.map(a => a.agent_id) });
+    } else if (live.some(a => OPEN_ASSIGNMENT_STATUSES.includes(a.status))) {
+      return;
+    } else if (live.some(a => a.status === 'failed')) {
+      this.markTaskFailed(taskId, 'All assignments failed');
+    } else {
+      this.setTaskStatus(taskId, 'ready', { reason: 'No agent is assigned' });
+    }
+  }
+
+  private markTaskFailed(taskId: string, reason: string): void {
+    this.db.prepare('UPDATE orch_tasks SET failure_reason = ? WHERE id = ?').run(reason, taskId);
+    this.setTaskStatus(taskId, 'failed', { reason });
+  }
+
+  private insertDependency(taskId: string, dependsOnTaskId: string, dependencyType: DependencyType, triggerRule: TriggerRule): void {
+    if (dependencyType !== 'required' && dependencyType !== 'optional') {
+      throw new Error(`Invalid dependency type: ${dependencyType}`);
+    }
+    if (taskId === dependsOnTaskId) {
+      throw new Error(`Task ${taskId} cannot depend on itself`);
+    }
+    if (!this.getTask(dependsOnTaskId)) {
+      throw new Error(`Dependency task ${dependsOnTaskId} not found`);
+    }
+    if (this.dependsOn(dependsOnTaskId, taskId)) {
+      throw new Error(`Dependency ${taskId} -> ${dependsOnTaskId} would create a cycle`);
+    }
+
+    this.db.prepare(`
+      INSERT INTO orch_dependencies (task_id, depends_on_task_id, dependency_type, trigger_rule)
+      VALUES (?, ?, ?, ?)
+      ON CONFLICT(task_id, depends_on_task_id) DO UPDATE SET dependency_type = excluded.dependency_type
+    `).run(taskId, dependsOnTaskId, dependencyType, triggerRule);
+  }
+
+  // True if taskId transitively depends on ancestorId
+  private dependsOn(taskId: string, ancestorId: string): boolean {
+    const found = this.db.prepare(`
+      WITH RECURSIVE upstream(id) AS (
+        SELECT depends_on_task_id FROM orch_dependencies WHERE task_id = ?
+        UNION
+        SELECT d.depends_on_task_id FROM orch_dependencies d JOIN upstream u ON d.task_id = u.id
+      )
+      SELECT 1 FROM upstream WHERE id = ? LIMIT 1
+    `).get(taskId, ancestorId);
+    return found !== undefined;
+  }
+
+  /**
+   * Applies the task's trigger rule to the current state of its upstream tasks
+   * and moves a blocked task to ready, upstream_failed or skipped accordingly.
+   */
+  private evaluateTask(taskId: string, isNew = false): string {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+
+    const upstream = this.db.prepare(`
+      SELECT d.dependency_type, d.trigger_rule, t.id, t.title, t.status
+      FROM orch_dependencies d
+      JOIN orch_tasks t ON t.id = d.depends_on_task_id
+      WHERE d.task_id = ?
+    `).all(taskId) as Array<{ dependency_type: DependencyType; trigger_rule: TriggerRule; id: string; title: string; status: string }>;
+
+    if (!PENDING_STATUSES.includes(task.status)) {
+      return task.status;
+    }
+
+    const required = upstream.filter(u => u.dependency_type === 'required');
+    const optional = upstream.filter(u => u.dependency_type === 'optional');
+    const rule = upstream[0]?.trigger_rule ?? 'all_success';
+
+    const succeeded = required.filter(u => SUCCESS_STATUSES.includes(u.status)).length;
+    const failed = required.filter(u => FAILED_STATUSES.includes(u.status)).length;
+    const done = required.filter(u => DONE_STATUSES.includes(u.status)).length;
+    const allDone = done === required.length;
+
+    let next: string;
+    switch (rule) {
+      case 'all_success':
+        next = done > succeeded ? 'upstream_failed' : succeeded === required.length ? 'ready' : 'blocked';
+        break;
+      case 'all_done':
+        next = allDone ? 'ready' : 'blocked';
+        break;
+      case 'one_success':
+        next = succeeded > 0 || required.length === 0 ? 'ready' : allDone ? 'upstream_failed' : 'blocked';
+        break;
+      case 'one_failed':
+        // Like one_success, the rule only constrains required upstream tasks; without any, it is met
+        next = failed > 0 || required.length === 0 ? 'ready' : allDone ? 'skipped' : 'blocked';
+        break;
+    }
+
+    // Optional upstream tasks don't affect the outcome but must finish before the task runs
+    if (next === 'ready' && optional.some(u => !DONE_STATUSES.includes(u.status))) {
+      next = 'blocked';
+    }
+
+    if (next === task.status && !isNew) {
+      return next;
+    }
+
+    const waitingOn = upstream.filter(u => !DONE_STATUSES.includes(u.status)).map(u => u.id);
+    if (next === 'blocked') {
+      this.db.prepare('UPDATE orch_tasks SET status = ? WHERE id = ?').run(next, taskId);
+      this.announce('STATUS_UPDATE', taskId, {
+        status: 'task_blocked',
+        task_id: taskId,
+        title: task.title,
+        trigger_rule: rule,
+        waiting_on: waitingOn
+      });
+      return next;
+    }
+
+    this.setTaskStatus(taskId, next, {
+      trigger_rule: rule,
+      upstream: upstream.map(u => ({ task_id: u.id, status: u.status }))
+    });
+    return next;
+  }
+
+  private setTaskStatus(taskId: string, status: string, details: Record<string, unknown> = {}): void {
+    const task = this.getTask(taskId);
+    if (!task) {
+      throw new Error(`Task ${taskId} not found`);
+    }
+    if (!(TASK_TRANSITIONS[task.status] ?? []).includes(status)) {
+      throw new Error(`Cannot move task ${taskId} from ${task.status} to ${status}`);
+    }
+
+    this.db.prepare('UPDATE orch_tasks SET status = ? WHERE id = ?').run(status, taskId);
+
+    if (DONE_STATUSES.includes(status)) {
+      this.db.prepare(`
+        UPDATE orch_assignments SET status = 'cancelled', status_reason = ?
+        WHERE task_id = ? AND status IN (${OPEN_ASSIGNMENT_STATUSES.map(() => '?').join(', ')})
+      `).run(`Task ${status}`, taskId, ...OPEN_ASSIGNMENT_STATUSES);
+    }
+    this.announce('STATUS_UPDATE', taskId, { status: `task_${status}`, task_id: taskId, title: task.title, ...details });
+
+    if (DONE_STATUSES.includes(status)) {
+      for (const dependent of this.getDependents(taskId)) {
+        this.evaluateTask(dependent.task_id);
+      }
+    }
+  }
+
+  /**
+   * Posts a task update on the coordination channel, addressed to the task's
+   * creator and everyone it was assigned to. Other agents don't see it, so it
+   * doesn't hold up their sends until they acknowledge it.
+   */
+  private announce(type: ACPMessageType, taskId: string, payload: Record<string, unknown>): void {
+    try {
+      const recipients = (this.db.prepare(`
+        SELECT created_by AS agent_id FROM orch_tasks WHERE id = ?
+        UNION
+        SELECT agent_id FROM orch_assignments WHERE task_id = ?
+      `).all(taskId, taskId) as { agent_id: string }[])
+        .map(r => r.agent_id)
+        .filter(agentId => agentId !== ORCHESTRATOR_AGENT);
+      if (recipients.length === 0) {
+        return;
+      }
+      const message = createACPMessage(type, ORCHESTRATOR_AGENT, ORCHESTRATOR_AGENT, payload);
+      // Not sent as direct messages, which would be dead-lettered when they expire unread
+      this.bus.sendMessage(COORDINATION_CHANNEL, ORCHESTRATOR_AGENT, ORCHESTRATOR_AGENT, JSON.stringify(message), { recipients });
+    } catch (error) {
+      console.error(`Failed to announce ${type} on ${COORDINATION_CHANNEL}:`, error);
+    }
+  }
+}
+
+// Tags are matched case-insensitively, as agent capabilities are stored lowercased
+function parseTags(json: string | null): string[] {
+  if (!json) {
+    return [];
+  }
+  try {
+    const values = JSON.parse(json);
+    return Array.isArray(values) ? values.map(v => String(v).trim().toLowerCase()).filter(Boolean) : [];
+  } catch {
+    return [];
+  }
+}
+
+function validateMetrics(metrics: ExecutionMetrics): ExecutionMetrics {
+  for (const [name, value] of Object.entries(metrics)) {
+    if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Metric ${name} must be a non-negative number`);
+    }
+  }
+  return metrics;
 }
@@ -1,12 +1,16 @@
 import type Database from 'better-sqlite3';
 import { MessageBus } from './bus.js';
 import { generateMessageId } from './database.js';
+import { COORDINATION_CHANNEL, Orchestrator } from './orchestrator.js';
+import { assertValidTimezone, defaultTimezone, formatInTimezone, nextCronOccurrence, parseCron, previewCron } from './cron.js';
+import { renderTemplate, validateTemplate, type TemplateContext } from './template.js';
 
 export interface RecurringMessage {
   id: string;
   channel: string;
   sender_agent: string;
   sender_session: string;
+  // For task schedules, the task title
   content_template: string;
   schedule_cron: string | null;
   schedule_interval_seconds: number | null;
@@ -16,6 +20,80 @@ export interface RecurringMessage {
   created_at: string;
   expires_at: string | null;
   metadata: string;
+  // IANA timezone cron schedules are evaluated in; null uses the server's
+  timezone: string | null;
+  // Number of times the message has been sent
+  run_count: number;
+  misfire_policy: MisfirePolicy;
+  // Fire times that passed without a message because of the misfire policy
+  missed_count: number;
+  // The schedule is disabled once run_count reaches this; null for no limit
+  max_occurrences: number | null;
+  action: ScheduleAction;
+  // JSON TaskTemplate for task schedules
+  task_template: string | null;
+}
+
+export type ScheduleAction = 'message' | 'task';
+
+/**
+ * The orchestrator task a task schedule creates on each run. The title and
+ * description may use the same placeholders as message content.
+ */
+export interface TaskTemplate {
+  title: string;
+  description?: string;
+  priority?: number;
+  tags?: string[];
+  timeout_seconds?: number;
+  max_retries?: number;
+  // Each task's deadline, this many seconds after it is created
+  deadline_seconds?: number;
+  // Agent to assign each task to, or 'auto' to let the orchestrator pick one
+  assign_to?: string;
+}
+
+export interface ScheduleChanges {
+  content?: string;
+  // Cron expression, interval:N or at:timestamp
+  schedule?: string;
+  channel?: string;
+  // null removes the expiry / timezone / limit
+  expiresAt?: string | null;
+  timezone?: string | null;
+  misfirePolicy?: MisfirePolicy;
+  maxOccurrences?: number | null;
+  // Replaces the task template of a task schedule
+  task?: TaskTemplate;
+}
+
+export type MisfirePolicy = 'fire_once' | 'fire_all' | 'skip';
+export type RunOutcome = 'sent' | 'failed' | 'missed';
+
+export const MISFIRE_POLICIES: MisfirePolicy[] = ['fire_once', 'fire_all', 'skip'];
+
+export interface ScheduledRun {
+  id: string;
+  schedule_id: string;
+  scheduled_for: string;
+  ran_at: string;
+  outcome: RunOutcome;
+  message_id: string | null;
+  task_id: string | null;
+  error: string | null;
+}
+
+export interface ScheduleSummary extends RecurringMessage {
+  last_outcome: RunOutcome | null;
+  last_run_at: string | null;
+  last_message_id: string | null;
+  last_task_id: string | null;
+}
+
+interface RunResult {
+  messageId?: string;
+  taskId?: string;
+  error?: string;
 }
 
 export interface ScheduleConfig {
@@ -23,15 +101,48 @@ export interface ScheduleConfig {
   value: string;
 }
 
+const MAX_PREVIEW_COUNT = 100;
+// A fire time further in the past than this when the scheduler reaches it was missed
+const MISFIRE_GRACE_SECONDS = 60;
+// Missed fire times looked at per schedule and tick; beyond that the schedule resumes from now
+const MAX_CATCH_UP_RUNS = 100;
+// Runs kept in scheduled_runs per schedule
+const MAX_RUN_HISTORY = 100;
+
+// Placeholders content templates may use; see buildTemplateContext
+export const TEMPLATE_VARIABLES = [
+  'schedule_id',
+  'run_count',
+  'fire_time',
+  'fire_time_local',
+  'date',
+  'timezone',
+  'missed_runs',
+  'channel.name',
+  'channel.message_count',
+  'channel.unacked_count',
+  'channel.last_message_at',
+  'unacked.total',
+  'last_approved_task',
+  'last_approved_task.id',
+  'last_approved_task.title',
+  'last_approved_task.agent',
+  'last_approved_task.result',
+  'last_approved_task.notes',
+  'last_approved_task.approved_at'
+];
+
 export class MessageScheduler {
   private db: Database.Database;
   private bus: MessageBus;
+  private orchestrator: Orchestrator;
   private intervalHandle: NodeJS.Timeout | null = null;
   private isRunning = false;
 
-  constructor(db: Database.Database, bus: MessageBus) {
+  constructor(db: Database.Database, bus: MessageBus, orchestrator?: Orchestrator) {
     this.db = db;
     this.bus = bus;
+    this.orchestrator = orchestrator ?? new Orchestrator(db, bus);
   }
 
   createRecurring(
@@ -40,12 +151,23 @@ export class MessageScheduler {
     sessionId: string,
     content: string,
     schedule: string,
-    expiresAt?: string,
-    metadata?: Record<string, unknown>
+    options: {
+      expiresAt?: string;
+      metadata?: Record<string, unknown>;
+      timezone?: string;
+      misfirePolicy?: MisfirePolicy;
+      maxOccurrences?: number;
+    } = {}
   ): RecurringMessage {
     const id = `rec_${generateMessageId().slice(4)}`;
+    validateTemplate(content, TEMPLATE_VARIABLES);
+    if (options.timezone) {
+      assertValidTimezone(options.timezone);
+    }
+    assertMisfirePolicy(options.misfirePolicy);
+    assertMaxOccurrences(options.maxOccurrences);
     const scheduleConfig = this.parseSchedule(schedule);
-    const nextSendAt = this.calculateNextSend(scheduleConfig, new Date());
+    const nextSendAt = this.calculateNextSend(scheduleConfig, new Date(), options.timezone);
 
     let scheduleCron: string | null = null;
     let scheduleIntervalSeconds: number | null = null;
@@ -59,9 +181,10 @@ export class MessageScheduler {
     const stmt = this.db.prepare(`
       INSERT INTO recurring_messages (
         id, channel, sender_agent, sender_session, content_template,
-        schedule_cron, schedule_interval_seconds, next_send_at, expires_at, metadata
+        schedule_cron, schedule_interval_seconds, next_send_at, expires_at, metadata, timezone,
+        misfire_policy, max_occurrences
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -73,8 +196,11 @@ export class MessageScheduler {
       scheduleCron,
       scheduleIntervalSeconds,
       nextSendAt,
-      expiresAt ?? null,
-      JSON.stringify(metadata ?? {})
+      options.expiresAt ?? null,
+      JSON.stringify(options.metadata ?? {}),
+      options.timezone ?? null,
+      options.misfirePolicy ?? 'fire_once',
+      options.maxOccurrences ?? null
     );
 
     const result = this.getRecurringMessage(id);
@@ -88,16 +214,19 @@ export class MessageScheduler {
     sessionId: string,
     content: string,
     sendAt: string,
-    metadata?: Record<string, unknown>
+    metadata?: Record<string, unknown>,
+    misfirePolicy?: MisfirePolicy
   ): RecurringMessage {
     const id = `rec_${generateMessageId().slice(4)}`;
+    validateTemplate(content, TEMPLATE_VARIABLES);
+    assertMisfirePolicy(misfirePolicy);
 
     const stmt = this.db.prepare(`
       INSERT INTO recurring_messages (
         id, channel, sender_agent, sender_session, content_template,
-        next_send_at, metadata
+        next_send_at, metadata, misfire_policy
       )
-      VALUES (?, ?, ?, ?, ?, ?, ?)
+      VALUES (?, ?, ?, ?, ?, ?, ?, ?)
     `);
 
     stmt.run(
@@ -107,7 +236,8 @@ export class MessageScheduler {
       sessionId,
       content,
       sendAt,
-      JSON.stringify(metadata ?? {})
+      JSON.stringify(metadata ?? {}),
+      misfirePolicy ?? 'fire_once'
     );
 
     const result = this.getRecurringMessage(id);
@@ -115,24 +245,85 @@ export class MessageScheduler {
     return result;
   }
 
-  listScheduled(agentId?: string, enabled?: boolean): RecurringMessage[] {
-    let query = 'SELECT * FROM recurring_messages WHERE 1=1';
+  /**
+   * Schedules the creation of an orchestrator task, e.g. a nightly
+   * dependency audit. Each run creates a task from the template with the
+   * sender as its creator, who reviews and approves the results, and assigns
+   * it if assign_to is set. Placeholders read the channel, which defaults
+   * to the one the orchestrator announces tasks on.
+   */
+  createTaskSchedule(
+    agentId: string,
+    sessionId: string,
+    task: TaskTemplate,
+    schedule: string,
+    options: {
+      channel?: string;
+      expiresAt?: string;
+      timezone?: string;
+      misfirePolicy?: MisfirePolicy;
+      maxOccurrences?: number;
+    } = {}
+  ): RecurringMessage {
+    validateTaskTemplate(task);
+    const create = this.db.transaction(() => {
+      const recurring = this.createRecurring(
+        options.channel ?? COORDINATION_CHANNEL,
+        agentId,
+        sessionId,
+        task.title,
+        schedule,
+        options
+      );
+      this.db.prepare(`
+        UPDATE recurring_messages SET action = 'task', task_template = ? WHERE id = ?
+      `).run(JSON.stringify(task), recurring.id);
+      return recurring.id;
+    });
+
+    return this.getRecurringMessage(create())!;
+  }
+
+  listScheduled(agentId?: string, enabled?: boolean, channel?: string): ScheduleSummary[] {
+    let query = `
+      SELECT r.*, last.outcome AS last_outcome, last.ran_at AS last_run_at,
+        last.message_id AS last_message_id, last.task_id AS last_task_id
+      FROM recurring_messages r
+      LEFT JOIN scheduled_runs last ON last.rowid = (SELECT MAX(rowid) FROM scheduled_runs WHERE schedule_id = r.id)
+      WHERE 1=1
+    `;
     const params: (string | number)[] = [];
 
     if (agentId !== undefined) {
-      query += ' AND sender_agent = ?';
+      query += ' AND r.sender_agent = ?';
       params.push(agentId);
     }
 
     if (enabled !== undefined) {
-      query += ' AND enabled = ?';
+      query += ' AND r.enabled = ?';
       params.push(enabled ? 1 : 0);
     }
 
-    query += ' ORDER BY next_send_at ASC';
+    if (channel !== undefined) {
+      query += ' AND r.channel = ?';
+      params.push(channel);
+    }
+
+    query += ' ORDER BY r.next_send_at ASC';
 
     const stmt = this.db.prepare(query);
-    return stmt.all(...params) as RecurringMessage[];
+    return stmt.all(...params) as ScheduleSummary[];
+  }
+
+  /** Most recent runs of a schedule, newest first. */
+  getRunHistory(scheduleId: string, limit: number = 20): ScheduledRun[] {
+    const stmt = this.db.prepare(`
+      SELECT * FROM scheduled_runs
+      WHERE schedule_id = ?
+      ORDER BY rowid DESC
+      LIMIT ?
+    `);
+    return stmt.all(scheduleId, limit) as ScheduledRun[];
   }
 
   cancelScheduled(scheduleId: string, agentId: string): boolean {
@@ -154,14 +345,124 @@ export class MessageScheduler {
     return result.changes > 0;
   }
 
+  /**
+   * Re-enables a paused schedule. Fire times that passed while it was paused
+   * are skipped rather than handled as missed runs.
+   */
   resumeScheduled(scheduleId: string, agentId: string): boolean {
+    const recurring = this.getRecurringMessage(scheduleId);
+    if (!recurring || recurring.sender_agent !== agentId) {
+      return false;
+    }
+    if (recurring.max_occurrences !== null && recurring.run_count >= recurring.max_occurrences) {
+      throw new Error(`Schedule ${scheduleId} has already sent its ${recurring.max_occurrences} message(s); raise max_occurrences to resume it`);
+    }
+
+    const config = this.getScheduleConfig(recurring);
+    const now = new Date();
+    const nextSendAt = config.type === 'one-time' || parseTimestamp(recurring.next_send_at) > now
+      ? recurring.next_send_at
+      : this.calculateNextSend(config, now, recurring.timezone);
+
     const stmt = this.db.prepare(`
       UPDATE recurring_messages
-      SET enabled = 1
-      WHERE id = ? AND sender_agent = ?
+      SET enabled = 1, next_send_at = ?
+      WHERE id = ?
     `);
-    const result = stmt.run(scheduleId, agentId);
-    return result.changes > 0;
+    stmt.run(nextSendAt, scheduleId);
+    return true;
+  }
+
+  /**
+   * Edits a schedule in place, keeping its ID, run history and counters.
+   * Changing the schedule or timezone moves the next send to the next fire
+   * time from now. Whether the schedule is paused is left as is. Returns
+   * null if the schedule doesn't exist or agentId isn't its sender.
+   */
+  updateScheduled(scheduleId: string, agentId: string, changes: ScheduleChanges): RecurringMessage | null {
+    const recurring = this.getRecurringMessage(scheduleId);
+    if (!recurring || recurring.sender_agent !== agentId) {
+      return null;
+    }
+
+    if (changes.content !== undefined) {
+      if (recurring.action === 'task') {
+        throw new Error(`Schedule ${scheduleId} creates tasks; change its task template instead of its content`);
+      }
+      validateTemplate(changes.content, TEMPLATE_VARIABLES);
+    }
+    if (changes.task !== undefined) {
+      if (recurring.action !== 'task') {
+        throw new Error(`Schedule ${scheduleId} sends messages and has no task template`);
+      }
+      validateTaskTemplate(changes.task);
+    }
+    if (changes.channel !== undefined && !changes.channel.trim()) {
+      throw new Error('channel must not be empty');
+    }
+    if (changes.expiresAt && isNaN(parseTimestamp(changes.expiresAt).getTime())) {
+      throw new Error(`Invalid timestamp: ${changes.expiresAt}`);
+    }
+    if (changes.timezone) {
+      assertValidTimezone(changes.timezone);
+    }
+    assertMisfirePolicy(changes.misfirePolicy);
+    assertMaxOccurrences(changes.maxOccurrences ?? undefined);
+
+    const timezone = changes.timezone !== undefined ? changes.timezone : recurring.timezone;
+    let { schedule_cron: scheduleCron, schedule_interval_seconds: scheduleIntervalSeconds, next_send_at: nextSendAt } = recurring;
+    if (changes.schedule !== undefined || changes.timezone !== undefined) {
+      const config = changes.schedule !== undefined ? this.parseSchedule(changes.schedule) : this.getScheduleConfig(recurring);
+      scheduleCron = config.type === 'cron' ? config.value : null;
+      scheduleIntervalSeconds = config.type === 'interval' ? parseInt(config.value, 10) : null;
+      nextSendAt = this.calculateNextSend(config, new Date(), timezone);
+    }
+
+    const stmt = this.db.prepare(`
+      UPDATE recurring_messages
+      SET content_template = ?, channel = ?, schedule_cron = ?, schedule_interval_seconds = ?,
+          next_send_at = ?, expires_at = ?, timezone = ?, misfire_policy = ?, max_occurrences = ?,
+          task_template = ?
+      WHERE id = ?
+    `);
+    stmt.run(
+      changes.task?.title ?? changes.content ?? recurring.content_template,
+      changes.channel ?? recurring.channel,
+      scheduleCron,
+      scheduleIntervalSeconds,
+      nextSendAt,
+      changes.expiresAt !== undefined ? changes.expiresAt : recurring.expires_at,
+      timezone,
+      changes.misfirePolicy ?? recurring.misfire_policy,
+      changes.maxOccurrences !== undefined ? changes.maxOccurrences : recurring.max_occurrences,
+      changes.task ? JSON.stringify(changes.task) : recurring.task_template,
+      scheduleId
+    );
+
+    return this.getRecurringMessage(scheduleId);
+  }
+
+  /**
+   * The next fire times of a schedule expression (cron, interval:N or
+   * at:timestamp), without creating anything.
+   */
+  previewSchedule(schedule: string, count: number = 5, options: { timezone?: string; from?: Date } = {}): Date[] {
+    if (!Number.isInteger(count) || count < 1 || count > MAX_PREVIEW_COUNT) {
+      throw new Error(`count must be an integer between 1 and ${MAX_PREVIEW_COUNT}`);
+    }
+    const timezone = options.timezone ?? defaultTimezone();
+    assertValidTimezone(timezone);
+    const from = options.from ?? new Date();
+    const config = this.parseSchedule(schedule);
+
+    if (config.type === 'one-time') {
+      return [new Date(config.value)];
+    }
+    if (config.type === 'interval') {
+      const seconds = parseInt(config.value, 10);
+      return Array.from({ length: count }, (_, i) => new Date(from.getTime() + (i + 1) * seconds * 1000));
+    }
+    return previewCron(config.value, count, from, timezone);
   }
 
   start(): void {
@@ -183,144 +484,273 @@ export class MessageScheduler {
     this.isRunning = false;
   }
 
-  private getRecurringMessage(id: string): RecurringMessage | null {
+  getRecurringMessage(id: string): RecurringMessage | null {
     const stmt = this.db.prepare('SELECT * FROM recurring_messages WHERE id = ?');
-    return stmt.get(id) as RecurringMessage | null;
+    return (stmt.get(id) as RecurringMessage | undefined) ?? null;
   }
 
   private parseSchedule(schedule: string): ScheduleConfig {
     if (schedule.startsWith('interval:')) {
       const seconds = schedule.slice(9);
+      if (!/^\d+$/.test(seconds) || parseInt(seconds, 10) <= 0) {
+        throw new Error(`Invalid interval: ${seconds} (expected a positive number of seconds)`);
+      }
       return { type: 'interval', value: seconds };
     }
 
     if (schedule.startsWith('at:')) {
       const timestamp = schedule.slice(3);
+      if (isNaN(new Date(timestamp).getTime())) {
+        throw new Error(`Invalid timestamp: ${timestamp}`);
+      }
       return { type: 'one-time', value: timestamp };
     }
 
+    // Rejects malformed expressions up front rather than on the first tick
+    parseCron(schedule);
     return { type: 'cron', value: schedule };
   }
 
-  private calculateNextSend(config: ScheduleConfig, from: Date): string {
-    if (config.type === 'interval') {
-      const seconds = parseInt(config.value, 10);
-      const nextDate = new Date(from.getTime() + seconds * 1000);
-      return this.toSQLiteDateTime(nextDate);
-    }
-
+  private calculateNextSend(config: ScheduleConfig, from: Date, timezone?: string | null): string {
     if (config.type === 'one-time') {
       return config.value;
     }
+    return this.toSQLiteDateTime(this.nextFireTime(config, from, timezone));
+  }
+
+  private nextFireTime(config: ScheduleConfig, from: Date, timezone?: string | null): Date {
+    if (config.type === 'interval') {
+      const seconds = parseInt(config.value, 10);
+      return new Date(from.getTime() + seconds * 1000);
+    }
 
     if (config.type === 'cron') {
-      const nextDate = this.parseCronNextDate(config.value, from);
-      return this.toSQLiteDateTime(nextDate);
+      return nextCronOccurrence(config.value, from, timezone ?? undefined);
     }
 
-    throw new Error(`Unknown schedule type: ${config.type}`);
+    throw new Error(`Schedule type ${config.type} has no next fire time`);
   }
 
-  private parseCronNextDate(cronExpr: string, from: Date): Date {
-    const parts = cronExpr.split(' ');
-    if (parts.length !== 5) {
-      throw new Error(`Invalid cron expression: ${cronExpr}`);
-    }
-
-    const [minutePart, hourPart, dayPart, monthPart, weekdayPart] = parts;
+  private toSQLiteDateTime(date: Date): string {
+    return date.toISOString().replace('T', ' ').slice(0, 19);
+  }
 
-    const current = new Date(from);
-    current.setSeconds(0);
-    current.setMilliseconds(0);
+  processScheduledMessages(): void {
+    const stmt = this.db.prepare(`
+      SELECT * FROM recurring_messages
+      WHERE enabled = 1
+        AND datetime(next_send_at) <= datetime('now')
+        AND (expires_at IS NULL OR datetime(expires_at) > datetime('now'))
+    `);
 
-    const minuteInterval = this.parseCronField(minutePart);
-    const hourInterval = this.parseCronField(hourPart);
+    const due = stmt.all() as RecurringMessage[];
+    const now = new Date();
 
-    if (minuteInterval && !hourInterval) {
-      const nextMinute = Math.ceil(current.getMinutes() / minuteInterval) * minuteInterval;
-      if (nextMinute >= 60) {
-        current.setHours(current.getHours() + 1);
-        current.setMinutes(0);
-      } else {
-        current.setMinutes(nextMinute);
+    for (const recurring of due) {
+      try {
+        this.db.transaction(() => this.processSchedule(recurring, now))();
+      } catch (error) {
+        console.error(`Failed to process scheduled message ${recurring.id}:`, error);
       }
-      return current;
     }
+  }
 
-    if (hourInterval && !minuteInterval) {
-      const nextHour = Math.ceil(current.getHours() / hourInterval) * hourInterval;
-      if (nextHour >= 24) {
-        current.setDate(current.getDate() + 1);
-        current.setHours(0);
-      } else {
-        current.setHours(nextHour);
-      }
-      current.setMinutes(0);
-      return current;
+  /**
+   * Fires a due schedule and moves it to its next fire time after now.
+   * Fire times more than MISFIRE_GRACE_SECONDS old were missed, e.g. while
+   * the server was down, and the misfire policy decides what happens to
+   * them: fire_once sends one message for the latest, fire_all sends one
+   * per fire time and skip sends none. Each fire time is recorded in
+   * scheduled_runs. One-time schedules are disabled once they have fired,
+   * and others once they reach max_occurrences.
+   */
+  private processSchedule(recurring: RecurringMessage, now: Date): void {
+    const config = this.getScheduleConfig(recurring);
+    const dueTimes: Date[] = [];
+    let next: Date | null = parseTimestamp(recurring.next_send_at);
+    while (next && next <= now && dueTimes.length < MAX_CATCH_UP_RUNS) {
+      dueTimes.push(next);
+      next = config.type === 'one-time' ? null : this.nextFireTime(config, next, recurring.timezone);
+    }
+    if (next && next <= now) {
+      next = this.nextFireTime(config, now, recurring.timezone);
+    }
+    if (dueTimes.length === 0) {
+      return;
+    }
+
+    const isLate = (time: Date) => now.getTime() - time.getTime() > MISFIRE_GRACE_SECONDS * 1000;
+    const latest = dueTimes[dueTimes.length - 1];
+    let toFire: Date[];
+    if (recurring.misfire_policy === 'fire_all') {
+      toFire = dueTimes.filter(time => isLate(time) || time === latest);
+    } else if (recurring.misfire_policy === 'skip') {
+      toFire = isLate(latest) ? [] : [latest];
+    } else {
+      toFire = [latest];
     }
 
-    if (minuteInterval && hourInterval) {
-      current.setMinutes(Math.ceil(current.getMinutes() / minuteInterval) * minuteInterval);
-      if (current.getMinutes() >= 60) {
-        current.setHours(current.getHours() + 1);
-        current.setMinutes(0);
+    // On-time fire times that are neither fired nor late (a schedule more
+    // frequent than the tick) are folded into the next fire and not recorded
+    let runCount = recurring.run_count;
+    let missedRuns = 0;
+    let missedTotal = 0;
+    let lastSentAt: string | null = null;
+    const limit = recurring.max_occurrences ?? Infinity;
+    for (const time of dueTimes) {
+      if (runCount >= limit) {
+        break;
+      }
+      const scheduledFor = this.toSQLiteDateTime(time);
+      if (!toFire.includes(time)) {
+        if (isLate(time)) {
+          this.recordRun(recurring.id, scheduledFor, 'missed');
+          missedRuns++;
+          missedTotal++;
+        }
+        continue;
+      }
+
+      try {
+        const context = this.buildTemplateContext({ ...recurring, run_count: runCount }, scheduledFor, missedRuns);
+        this.recordRun(recurring.id, scheduledFor, 'sent', this.runAction(recurring, context));
+        runCount++;
+        missedRuns = 0;
+        lastSentAt = this.toSQLiteDateTime(new Date());
+      } catch (error) {
+        this.recordRun(recurring.id, scheduledFor, 'failed', { error: error instanceof Error ? error.message : String(error) });
       }
-      return current;
     }
 
-    const next = new Date(current);
-    next.setMinutes(next.getMinutes() + 1);
-    return next;
+    this.db.prepare(`
+      UPDATE recurring_messages
+      SET next_send_at = COALESCE(?, next_send_at),
+          enabled = ?,
+          last_sent_at = COALESCE(?, last_sent_at),
+          run_count = ?,
+          missed_count = missed_count + ?
+      WHERE id = ?
+    `).run(next ? this.toSQLiteDateTime(next) : null, next && runCount < limit ? 1 : 0, lastSentAt, runCount, missedTotal, recurring.id);
+
+    this.db.prepare(`
+      DELETE FROM scheduled_runs
+      WHERE schedule_id = ?
+        AND rowid NOT IN (SELECT rowid FROM scheduled_runs WHERE schedule_id = ? ORDER BY rowid DESC LIMIT ?)
+    `).run(recurring.id, recurring.id, MAX_RUN_HISTORY);
   }
 
-  private parseCronField(field: string): number | null {
-    if (field === '*') {
-      return null;
+  private runAction(recurring: RecurringMessage, context: TemplateContext): RunResult {
+    if (recurring.action !== 'task') {
+      const message = this.bus.sendMessage(
+        recurring.channel,
+        recurring.sender_agent,
+        recurring.sender_session,
+        renderTemplate(recurring.content_template, context)
+      );
+      return { messageId: message.id };
     }
 
-    if (field.startsWith('*/')) {
-      return parseInt(field.slice(2), 10);
+    const template = JSON.parse(recurring.task_template ?? '{}') as TaskTemplate;
+    const task = this.orchestrator.createTask(
+      renderTemplate(template.title, context),
+      recurring.sender_agent,
+      template.description === undefined ? undefined : renderTemplate(template.description, context),
+      template.priority ?? 0,
+      {
+        tags: template.tags,
+        timeoutSeconds: template.timeout_seconds,
+        maxRetries: template.max_retries,
+        deadlineAt: template.deadline_seconds
+          ? new Date(Date.now() + template.deadline_seconds * 1000).toISOString()
+          : undefined
+      }
+    );
+    if (!template.assign_to) {
+      return { taskId: task.id };
     }
 
-    return null;
+    // The task stays ready for manual assignment if nobody can take it
+    try {
+      if (template.assign_to === 'auto') {
+        this.orchestrator.autoAssign(task.id);
+      } else {
+        this.orchestrator.assignTask(task.id, template.assign_to);
+      }
+      return { taskId: task.id };
+    } catch (error) {
+      return { taskId: task.id, error: `Not assigned: ${error instanceof Error ? error.message : String(error)}` };
+    }
   }
 
-  private toSQLiteDateTime(date: Date): string {
-    return date.toISOString().replace('T', ' ').slice(0, 19);
+  private recordRun(scheduleId: string, scheduledFor: string, outcome: RunOutcome, result: RunResult = {}): void {
+    this.db.prepare(`
+      INSERT INTO scheduled_runs (id, schedule_id, scheduled_for, outcome, message_id, task_id, error)
+      VALUES (?, ?, ?, ?, ?, ?, ?)
+    `).run(
+      `run_${generateMessageId().slice(4)}`,
+      scheduleId,
+      scheduledFor,
+      outcome,
+      result.messageId ?? null,
+      result.taskId ?? null,
+      result.error ?? null
+    );
   }
 
-  private processScheduledMessages(): void {
-    const stmt = this.db.prepare(`
-      SELECT * FROM recurring_messages
-      WHERE enabled = 1
-        AND datetime(next_send_at) <= datetime('now')
-        AND (expires_at IS NULL OR datetime(expires_at) > datetime('now'))
-    `);
-
-    const toSend = stmt.all() as RecurringMessage[];
-
-    for (const recurring of toSend) {
-      try {
-        this.bus.sendMessage(
-          recurring.channel,
-          recurring.sender_agent,
-          recurring.sender_session,
-          recurring.content_template
-        );
-
-        const updateStmt = this.db.prepare(`
-          UPDATE recurring_messages
-          SET last_sent_at = datetime('now'), next_send_at = ?
-          WHERE id = ?
-        `);
-
-        const scheduleConfig = this.getScheduleConfig(recurring);
-        const nextSend = this.calculateNextSend(scheduleConfig, new Date());
-        updateStmt.run(nextSend, recurring.id);
-      } catch (error) {
-        console.error(`Failed to send recurring message ${recurring.id}:`, error);
-      }
-    }
+  /**
+   * Values for TEMPLATE_VARIABLES at the moment a schedule fires. The fire
+   * time is the scheduled time, which lags the actual send by up to a tick,
+   * or by longer when catching up on missed runs.
+   */
+  buildTemplateContext(recurring: RecurringMessage, scheduledFor: string = recurring.next_send_at, missedRuns: number = 0): TemplateContext {
+    const timezone = recurring.timezone ?? defaultTimezone();
+    const fireTime = parseTimestamp(scheduledFor);
+    const fireTimeLocal = isNaN(fireTime.getTime()) ? scheduledFor : formatInTimezone(fireTime, timezone);
+
+    const channelStats = this.db.prepare(`
+      SELECT
+        COUNT(*) AS message_count,
+        SUM(CASE WHEN NOT EXISTS (SELECT 1 FROM message_acks a WHERE a.message_id = m.id) THEN 1 ELSE 0 END) AS unacked_count,
+        MAX(m.created_at) AS last_message_at
+      FROM messages m
+      WHERE m.channel = ? AND (m.expires_at IS NULL OR datetime(m.expires_at) > datetime('now'))
+    `).get(recurring.channel) as { message_count: number; unacked_count: number | null; last_message_at: string | null };
+
+    const unacked = this.db.prepare(`
+      SELECT COUNT(*) AS total FROM messages m
+      WHERE (m.expires_at IS NULL OR datetime(m.expires_at) > datetime('now'))
+        AND NOT EXISTS (SELECT 1 FROM message_acks a WHERE a.message_id = m.id)
+    `).get() as { total: number };
+
+    const lastApproved = this.db.prepare(`
+      SELECT t.id, t.title, r.agent_id AS agent, r.result_data AS result, r.approval_notes AS notes, a.approved_at
+      FROM orch_results r
+      JOIN orch_tasks t ON t.id = r.task_id
+      LEFT JOIN orch_assignments a ON a.task_id = r.task_id AND a.agent_id = r.agent_id
+      WHERE r.approved = 1
+      ORDER BY COALESCE(a.approved_at, r.submitted_at) DESC, r.rowid DESC
+      LIMIT 1
+    `).get() as { id: string; title: string; agent: string; result: string | null; notes: string | null; approved_at: string | null } | undefined;
+
+    return {
+      schedule_id: recurring.id,
+      // Counts this run
+      run_count: recurring.run_count + 1,
+      fire_time: scheduledFor,
+      fire_time_local: fireTimeLocal,
+      date: fireTimeLocal.slice(0, 10),
+      timezone,
+      // Fire times missed since the previous message
+      missed_runs: missedRuns,
+      channel: {
+        name: recurring.channel,
+        message_count: channelStats.message_count,
+        unacked_count: channelStats.unacked_count ?? 0,
+        last_message_at: channelStats.last_message_at
+      },
+      unacked: { total: unacked.total },
+      last_approved_task: lastApproved ? { ...lastApproved } : null
+    };
   }
 
   private getScheduleConfig(recurring: RecurringMessage): ScheduleConfig {
@@ -335,3 +765,45 @@ export class MessageScheduler {
     return { type: 'one-time', value: recurring.next_send_at };
   }
 }
+
+function assertMisfirePolicy(policy: string | undefined): void {
+  if (policy !== undefined && !MISFIRE_POLICIES.includes(policy as MisfirePolicy)) {
+    throw new Error(`misfire_policy must be one of: ${MISFIRE_POLICIES.join(', ')}`);
+  }
+}
+
+function validateTaskTemplate(task: TaskTemplate): void {
+  if (typeof task.title !== 'string' || !task.title.trim()) {
+    throw new Error('Task schedules need a title');
+  }
+  validateTemplate(task.title, TEMPLATE_VARIABLES);
+  if (task.description !== undefined) {
+    validateTemplate(task.description, TEMPLATE_VARIABLES);
+  }
+  if (task.priority !== undefined && !Number.isInteger(task.priority)) {
+    throw new Error('priority must be an integer');
+  }
+  if (task.tags !== undefined && (!Array.isArray(task.tags) || task.tags.some(tag => typeof tag !== 'string'))) {
+    throw new Error('tags must be an array of strings');
+  }
+  if (task.timeout_seconds !== undefined && (!Number.isInteger(task.timeout_seconds) || task.timeout_seconds <= 0)) {
+    throw new Error('timeout_seconds must be a positive integer');
+  }
+  if (task.max_retries !== undefined && (!Number.isInteger(task.max_retries) || task.max_retries < 0)) {
+    throw new Error('max_retries must be a non-negative integer');
+  }
+  if (task.deadline_seconds !== undefined && (!Number.isInteger(task.deadline_seconds) || task.deadline_seconds <= 0)) {
+    throw new Error('deadline_seconds must be a positive integer');
+  }
+}
+
+function assertMaxOccurrences(maxOccurrences: number | undefined): void {
+  if (maxOccurrences !== undefined && (!Number.isInteger(maxOccurrences) || maxOccurrences <= 0)) {
+    throw new Error('max_occurrences must be a positive integer');
+  }
+}
+
+// next_send_at holds either SQLite's UTC "YYYY-MM-DD HH:MM:SS" or the ISO timestamp a message was scheduled for
+function parseTimestamp(value: string): Date {
+  return /^\d{4}-\d{2}-\d{2} \d{2}:\d{2}:\d{2}$/.test(value) ? new Date(`${value.replace(' ', 'T')}Z`) : new Date(value);
+}
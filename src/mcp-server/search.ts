@@ -0,0 +1,116 @@
+import type Database from 'better-sqlite3';
+import { visibleToAgentCondition } from './bus.js';
+import type { Message } from './database.js';
+
+export interface SearchOptions {
+  channel?: string;
+  sender?: string;
+  messageType?: Message['message_type'];
+  acpType?: string;
+  since?: string;
+  until?: string;
+  limit?: number;
+  // Agent searching; restricted channels and addressed messages are only
+  // searched if this agent can read them. null searches as an anonymous reader.
+  reader?: string | null;
+}
+
+export interface SearchResult {
+  id: string;
+  channel: string;
+  sender_agent: string;
+  message_type: Message['message_type'];
+  acp_type: string | null;
+  thread_id: string | null;
+  created_at: string;
+  snippet: string;
+  // bm25 score; lower is a better match
+  rank: number;
+}
+
+const MAX_SEARCH_RESULTS = 100;
+
+/**
+ * Full-text search over the messages_fts index. Queries use SQLite FTS5
+ * syntax: words, "phrases", prefix*, AND/OR/NOT and column filters such as
+ * acp_payload:deploy.
+ */
+export class MessageSearch {
+  private db: Database.Database;
+
+  constructor(db: Database.Database) {
+    this.db = db;
+  }
+
+  search(query: string, options: SearchOptions = {}): SearchResult[] {
+    if (!query.trim()) {
+      throw new Error('query is required');
+    }
+    const limit = Math.min(options.limit ?? 20, MAX_SEARCH_RESULTS);
+    if (!Number.isInteger(limit) || limit <= 0) {
+      throw new Error('limit must be a positive integer');
+    }
+
+    let sql = `
+      SELECT m.id, m.channel, m.sender_agent, m.message_type, f.acp_type, m.thread_id, m.created_at,
+        snippet(messages_fts, -1, '[', ']', '…', 16) AS snippet,
+        bm25(messages_fts) AS rank
+      FROM messages_fts f
+      JOIN messages m ON m.rowid = f.rowid
+      WHERE messages_fts MATCH ?
+        AND (m.expires_at IS NULL OR datetime(m.expires_at) > datetime('now'))
+    `;
+    const params: (string | number)[] = [query];
+
+    if (options.channel) {
+      sql += ' AND m.channel = ?';
+      params.push(options.channel);
+    }
+    if (options.sender) {
+      sql += ' AND m.sender_agent = ?';
+      params.push(options.sender);
+    }
+    if (options.messageType) {
+      sql += ' AND m.message_type = ?';
+      params.push(options.messageType);
+    }
+    if (options.acpType) {
+      sql += ' AND f.acp_type = ?';
+      params.push(options.acpType);
+    }
+    if (options.since) {
+      sql += ' AND datetime(m.created_at) >= datetime(?)';
+      params.push(options.since);
+    }
+    if (options.until) {
+      sql += ' AND datetime(m.created_at) <= datetime(?)';
+      params.push(options.until);
+    }
+
+    if (options.reader !== undefined) {
+      const reader = options.reader ?? '';
+      sql += `
+        AND (
+          NOT EXISTS (SELECT 1 FROM channel_acl c WHERE c.channel = m.channel)
+          OR EXISTS (SELECT 1 FROM channel_acl c WHERE c.channel = m.channel AND c.agent_id = ?)
+        )
+        AND ${visibleToAgentCondition('m')}
+      `;
+      // An anonymous reader matches no ACL entry or recipient row
+      params.push(reader, reader, reader);
+    }
+
+    sql += ' ORDER BY rank ASC, m.created_at DESC LIMIT ?';
+    params.push(limit);
+
+    try {
+      return this.db.prepare(sql).all(...params) as SearchResult[];
+    } catch (error) {
+      // The SQL is fixed, so a generic SQLite error here comes from parsing the query
+      if (error instanceof Error && (error as { code?: string }).code === 'SQLITE_ERROR') {
+        throw new Error(`Invalid search query "${query}": ${error.message}`);
+      }
+      throw error;
+    }
+  }
+}
@@ -0,0 +1,82 @@
+import { createPrivateKey, createPublicKey, generateKeyPairSync, sign, verify } from 'crypto';
+
+export const SIGNING_ALGORITHM = 'Ed25519';
+
+export function generateSigningKeyPair(): { publicKey: string; privateKey: string } {
+  return generateKeyPairSync('ed25519', {
+    publicKeyEncoding: { type: 'spki', format: 'pem' },
+    privateKeyEncoding: { type: 'pkcs8', format: 'pem' }
+  });
+}
+
+/**
+ * Validates a PEM public key for signature checks and returns its algorithm
+ * label as stored in agent_keys.signing_algorithm.
+ */
+export function describeSigningKey(publicKeyPem: string): string {
+  let key;
+  try {
+    key = createPublicKey(publicKeyPem);
+  } catch {
+    throw new Error('signing_public_key is not a valid PEM public key');
+  }
+  if (key.asymmetricKeyType !== 'ed25519') {
+    throw new Error(`Signing keys must be Ed25519, got ${key.asymmetricKeyType}`);
+  }
+  return SIGNING_ALGORITHM;
+}
+
+// How far signed_at may lie from the bus clock; nonces are remembered that long
+export const SIGNATURE_MAX_AGE_SECONDS = 300;
+
+/**
+ * What a message signature covers besides its channel, sender and content.
+ * The client picks the nonce and signing time; the bus rejects a nonce it
+ * has already seen from the sender and signatures outside
+ * SIGNATURE_MAX_AGE_SECONDS, so a captured signature can't be sent again.
+ */
+export interface SignedFields {
+  messageType: 'broadcast' | 'direct' | 'request' | 'response';
+  recipients: string[];
+  replyTo: string | null;
+  nonce: string;
+  signedAt: string;
+}
+
+/**
+ * The bytes a message signature covers. For encrypted messages the content
+ * is the ciphertext (encrypted_content), so the bus can verify them without
+ * reading them. Recipients are sorted, so their order doesn't matter.
+ */
+export function signingPayload(channel: string, senderAgent: string, content: string, fields: SignedFields): Buffer {
+  return Buffer.from(JSON.stringify([
+    channel,
+    senderAgent,
+    fields.messageType,
+    [...new Set(fields.recipients)].sort(),
+    fields.replyTo,
+    fields.signedAt,
+    fields.nonce,
+    content
+  ]), 'utf8');
+}
+
+/**
+ * The bytes an agent signs with its current signing key to replace its
+ * published keys. null stands for a key that is left as is.
+ */
+export function keyChangePayload(agentId: string, publicKey: string | null, signingPublicKey: string | null): Buffer {
+  return Buffer.from(JSON.stringify(['publish_key', agentId, publicKey, signingPublicKey]), 'utf8');
+}
+
+export function signPayload(payload: Buffer, privateKeyPem: string): string {
+  return sign(null, payload, createPrivateKey(privateKeyPem)).toString('base64');
+}
+
+export function verifyPayload(payload: Buffer, signature: string, publicKeyPem: string): boolean {
+  try {
+    return verify(null, payload, createPublicKey(publicKeyPem), Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
@@ -2,7 +2,7 @@ import type Database from 'better-sqlite3';
 import { z } from 'zod';
 import { MessageBus } from './bus.js';
 import type { Message } from './database.js';
-import { generateMessageId } from './database.js';
+import { jsonSchemaToZod } from '../utils/json-schema.js';
 
 export interface StructuredRequest extends Message {
   response_schema: Record<string, unknown>;
@@ -55,6 +55,9 @@ export class StructuredRequestManager {
     const validationMode = options.validationMode ?? 'strict';
     const timeout = options.timeout ?? 60;
 
+    // Surface unsupported or unresolvable schemas to the requester, not the responders
+    jsonSchemaToZod(responseSchema);
+
     const structuredContent: StructuredMessageContent = {
       content,
       responseSchema,
@@ -82,13 +85,13 @@ export class StructuredRequestManager {
     responderAgent: string,
     responderSession: string,
     content: string
-  ): boolean {
+  ): { message: Message; validation: ValidationResult } {
     const requestStmt = this.db.prepare(`
-      SELECT content FROM messages
+      SELECT id, content FROM messages
       WHERE (id = ? OR correlation_id = ?) AND message_type = 'request'
       LIMIT 1
     `);
-    const request = requestStmt.get(correlationId, correlationId) as { content: string } | undefined;
+    const request = requestStmt.get(correlationId, correlationId) as { id: string; content: string } | undefined;
 
     if (!request) {
       throw new Error(`No structured request found with correlation ID: ${correlationId}`);
@@ -111,15 +114,24 @@ export class StructuredRequestManager {
     const validation = this.validateResponse(parsedResponse, structuredContent.responseSchema);
 
     if (!validation.valid && structuredContent.validationMode === 'strict') {
-      throw new Error(`Response validation failed: ${validation.errors?.join(', ')}`);
+      const reason = `Response validation failed: ${validation.errors?.join(', ')}`;
+      // Keep the rejected payload on file until the request is archived. Retrying
+      // it verbatim would fail again, and an open dead letter would pin the request.
+      this.bus.addToDeadLetter(request.id, reason, {
+        content,
+        senderAgent: responderAgent,
+        senderSession: responderSession,
+        resolution: 'rejected by strict validation'
+      });
+      throw new Error(reason);
     }
 
-    this.bus.sendResponse(correlationId, responderAgent, responderSession, content);
+    const message = this.bus.sendResponse(correlationId, responderAgent, responderSession, content);
 
-    return validation.valid;
+    return { message, validation };
   }
 
-  getStructuredResponses(correlationId: string): StructuredResponse[] {
+  getStructuredResponses(correlationId: string, reader?: string | null): StructuredResponse[] {
     const requestStmt = this.db.prepare(`
       SELECT content FROM messages
       WHERE (id = ? OR correlation_id = ?) AND message_type = 'request'
@@ -138,7 +150,7 @@ export class StructuredRequestManager {
       return [];
     }
 
-    const responses = this.bus.getResponses(correlationId);
+    const responses = this.bus.getResponses(correlationId, reader);
 
     return responses.map(response => {
       let parsedResponse: unknown;
@@ -170,14 +182,14 @@ export class StructuredRequestManager {
 
   validateResponse(response: unknown, schema: Record<string, unknown>): ValidationResult {
     try {
-      const zodSchema = this.jsonSchemaToZod(schema);
+      const zodSchema = jsonSchemaToZod(schema);
       zodSchema.parse(response);
       return { valid: true };
     } catch (error) {
       if (error instanceof z.ZodError) {
         return {
           valid: false,
-          errors: error.errors.map(err => `${err.path.join('.')}: ${err.message}`)
+          errors: error.errors.map(err => `${err.path.join('.') || '(root)'}: ${err.message}`)
         };
       }
       return {
@@ -186,52 +198,4 @@ export class StructuredRequestManager {
       };
     }
   }
-
-  private jsonSchemaToZod(schema: Record<string, unknown>): z.ZodType {
-    const type = schema.type as string | undefined;
-
-    if (type === 'object') {
-      const properties = schema.properties as Record<string, Record<string, unknown>> | undefined;
-      const required = schema.required as string[] | undefined;
-
-      if (!properties) {
-        return z.object({});
-      }
-
-      const zodShape: Record<string, z.ZodType> = {};
-
-      for (const [key, propSchema] of Object.entries(properties)) {
-        const propZodSchema = this.jsonSchemaToZod(propSchema);
-        zodShape[key] = required?.includes(key) ? propZodSchema : propZodSchema.optional();
-      }
-
-      return z.object(zodShape);
-    }
-
-    if (type === 'string') {
-      return z.string();
-    }
-
-    if (type === 'number') {
-      return z.number();
-    }
-
-    if (type === 'boolean') {
-      return z.boolean();
-    }
-
-    if (type === 'array') {
-      const items = schema.items as Record<string, unknown> | undefined;
-      if (items) {
-        return z.array(this.jsonSchemaToZod(items));
-      }
-      return z.array(z.unknown());
-    }
-
-    if (type === 'null') {
-      return z.null();
-    }
-
-    return z.unknown();
-  }
 }
@@ -0,0 +1,104 @@
+/**
+ * Placeholder rendering for recurring message content.
+ *
+ * {{ path }} inserts a variable from the context, e.g. {{ channel.unacked_count }}.
+ * Filters follow a pipe: {{ last_approved_task.result | truncate:200 | default:"none" }}.
+ * There are no expressions, loops or function calls, so a template can only
+ * read the values it is given. Text that isn't a well-formed placeholder is
+ * left as is.
+ */
+
+export type TemplateValue = string | number | boolean | null | { [key: string]: TemplateValue };
+export type TemplateContext = { [key: string]: TemplateValue };
+
+export const TEMPLATE_FILTERS = ['upper', 'lower', 'json', 'truncate', 'default'];
+
+const ARGUMENT = String.raw`(?:\d+|"(?:[^"\\]|\\.)*")`;
+const FILTER = String.raw`\|\s*[a-z_]+(?::\s*${ARGUMENT})?\s*`;
+const PLACEHOLDER = new RegExp(String.raw`\{\{\s*([a-z_][a-z0-9_]*(?:\.[a-z0-9_]+)*)\s*((?:${FILTER})*)\}\}`, 'gi');
+const FILTER_PART = new RegExp(String.raw`\|\s*([a-z_]+)(?::\s*(${ARGUMENT}))?`, 'gi');
+
+interface Placeholder {
+  path: string;
+  filters: { name: string; argument: string | number | undefined }[];
+}
+
+function parsePlaceholder(path: string, filterText: string): Placeholder {
+  const filters = [...filterText.matchAll(FILTER_PART)].map(match => {
+    const raw = match[2];
+    const argument = raw === undefined ? undefined : raw.startsWith('"') ? JSON.parse(raw) as string : parseInt(raw, 10);
+    return { name: match[1].toLowerCase(), argument };
+  });
+  return { path, filters };
+}
+
+/**
+ * Throws if the template uses a variable outside `variables` or an unknown
+ * filter, so mistakes surface when a schedule is created rather than when
+ * it fires.
+ */
+export function validateTemplate(template: string, variables: string[]): void {
+  for (const match of template.matchAll(PLACEHOLDER)) {
+    const { path, filters } = parsePlaceholder(match[1], match[2]);
+    if (!variables.includes(path)) {
+      throw new Error(`Unknown template variable "${path}". Available: ${variables.join(', ')}`);
+    }
+    for (const filter of filters) {
+      if (!TEMPLATE_FILTERS.includes(filter.name)) {
+        throw new Error(`Unknown template filter "${filter.name}". Available: ${TEMPLATE_FILTERS.join(', ')}`);
+      }
+      if (filter.name === 'truncate' && typeof filter.argument !== 'number') {
+        throw new Error('The truncate filter needs a length, e.g. truncate:200');
+      }
+    }
+  }
+}
+
+export function renderTemplate(template: string, context: TemplateContext): string {
+  return template.replace(PLACEHOLDER, (_, path: string, filterText: string) => {
+    const { filters } = parsePlaceholder(path, filterText);
+    let value = lookup(context, path);
+    for (const filter of filters) {
+      value = applyFilter(value, filter.name, filter.argument);
+    }
+    return stringify(value);
+  });
+}
+
+function lookup(context: TemplateContext, path: string): TemplateValue {
+  let value: TemplateValue = context;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object' || !Object.prototype.hasOwnProperty.call(value, key)) {
+      return null;
+    }
+    value = value[key];
+  }
+  return value;
+}
+
+function stringify(value: TemplateValue): string {
+  if (value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function applyFilter(value: TemplateValue, name: string, argument: string | number | undefined): TemplateValue {
+  switch (name) {
+    case 'upper':
+      return stringify(value).toUpperCase();
+    case 'lower':
+      return stringify(value).toLowerCase();
+    case 'json':
+      return JSON.stringify(value);
+    case 'truncate': {
+      const text = stringify(value);
+      const length = typeof argument === 'number' ? argument : text.length;
+      return text.length > length ? `${text.slice(0, length)}…` : text;
+    }
+    case 'default':
+      return value === null || value === '' ? (argument ?? '') : value;
+    default:
+      throw new Error(`Unknown template filter "${name}"`);
+  }
+}
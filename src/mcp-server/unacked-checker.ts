@@ -1,5 +1,6 @@
 import type Database from 'better-sqlite3';
 import type { Agent } from './database.js';
+import { visibleToAgentCondition } from './bus.js';
 
 export interface UnackedSummary {
   count: number;
@@ -47,13 +48,14 @@ export function checkUnackedMessages(
       MIN(created_at) as oldest_created
     FROM messages 
     WHERE channel IN (${placeholders})
-      AND acknowledged_at IS NULL
       AND sender_agent != ?
+      AND NOT EXISTS (SELECT 1 FROM message_acks a WHERE a.message_id = messages.id AND a.agent_id = ?)
       AND (expires_at IS NULL OR datetime(expires_at) > datetime('now'))
+      AND ${visibleToAgentCondition('messages')}
   `;
 
   const stmt = db.prepare(query);
-  const params = [...subscribedChannels, agentId];
+  const params = [...subscribedChannels, agentId, agentId, agentId, agentId];
   const result = stmt.get(...params) as {
     count: number;
     channels: string | null;
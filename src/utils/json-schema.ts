@@ -0,0 +1,339 @@
+/**
+ * JSON Schema to Zod conversion
+ *
+ * Covers the subset of JSON Schema (draft 7 / 2020-12) that agents use to
+ * negotiate typed payloads: type (including type arrays), enum, const,
+ * oneOf/anyOf/allOf/not, $ref with $defs/definitions, string formats,
+ * numeric/length/item constraints and additionalProperties.
+ */
+
+import { z } from 'zod';
+
+type JsonSchema = Record<string, unknown> | boolean;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^\d{2}:\d{2}:\d{2}(\.\d+)?(Z|[+-]\d{2}:\d{2})?$/i;
+const HOSTNAME_PATTERN = /^(?=.{1,253}$)([a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)(\.[a-z0-9]([a-z0-9-]{0,61}[a-z0-9])?)*$/i;
+
+export function jsonSchemaToZod(schema: Record<string, unknown>): z.ZodTypeAny {
+  return new SchemaConverter(schema).convert(schema);
+}
+
+class SchemaConverter {
+  private root: Record<string, unknown>;
+  private refs = new Map<string, z.ZodTypeAny>();
+
+  constructor(root: Record<string, unknown>) {
+    this.root = root;
+  }
+
+  convert(schema: JsonSchema): z.ZodTypeAny {
+    if (schema === true) return z.any();
+    if (schema === false) return z.never();
+
+    if (typeof schema.$ref === 'string') {
+      return this.resolveRef(schema.$ref);
+    }
+
+    let result = this.convertType(schema);
+
+    if (schema.nullable === true) {
+      result = result.nullable();
+    }
+
+    return this.applyKeywords(result, schema);
+  }
+
+  private resolveRef(ref: string): z.ZodTypeAny {
+    const cached = this.refs.get(ref);
+    if (cached) return cached;
+
+    const target = this.lookupPointer(ref);
+    // Registered before conversion so recursive schemas resolve lazily to themselves
+    const lazy = z.lazy(() => converted);
+    this.refs.set(ref, lazy);
+    const converted = this.convert(target);
+    return lazy;
+  }
+
+  private lookupPointer(ref: string): JsonSchema {
+    if (!ref.startsWith('#')) {
+      throw new Error(`Unsupported $ref (only local references are allowed): ${ref}`);
+    }
+
+    const segments = ref.slice(1).split('/').filter(segment => segment.length > 0)
+      .map(segment => decodeURIComponent(segment).replace(/~1/g, '/').replace(/~0/g, '~'));
+
+    let current: unknown = this.root;
+    for (const segment of segments) {
+      if (current === null || typeof current !== 'object' || !(segment in current)) {
+        throw new Error(`Unresolvable $ref: ${ref}`);
+      }
+      current = (current as Record<string, unknown>)[segment];
+    }
+
+    if (typeof current !== 'boolean' && (current === null || typeof current !== 'object')) {
+      throw new Error(`$ref does not point to a schema: ${ref}`);
+    }
+    return current as JsonSchema;
+  }
+
+  private convertType(schema: Record<string, unknown>): z.ZodTypeAny {
+    const type = schema.type ?? this.inferType(schema);
+
+    if (Array.isArray(type)) {
+      const options = (type as string[]).map(t => this.convertSingleType(t, schema));
+      return options.length === 1
+        ? options[0]
+        : z.union(options as unknown as [z.ZodTypeAny, z.ZodTypeAny, ...z.ZodTypeAny[]]);
+    }
+
+    if (typeof type === 'string') {
+      return this.convertSingleType(type, schema);
+    }
+
+    return z.unknown();
+  }
+
+  private inferType(schema: Record<string, unknown>): string | undefined {
+    if ('properties' in schema || 'required' in schema || 'additionalProperties' in schema) return 'object';
+    if ('items' in schema || 'prefixItems' in schema) return 'array';
+    return undefined;
+  }
+
+  private convertSingleType(type: string, schema: Record<string, unknown>): z.ZodTypeAny {
+    switch (type) {
+      case 'string':
+        return this.convertString(schema);
+      case 'number':
+        return this.applyNumberConstraints(z.number(), schema);
+      case 'integer':
+        return this.applyNumberConstraints(z.number().int(), schema);
+      case 'boolean':
+        return z.boolean();
+      case 'null':
+        return z.null();
+      case 'array':
+        return this.convertArray(schema);
+      case 'object':
+        return this.convertObject(schema);
+      default:
+        throw new Error(`Unsupported JSON Schema type: ${type}`);
+    }
+  }
+
+  private convertString(schema: Record<string, unknown>): z.ZodTypeAny {
+    let result = z.string();
+
+    if (typeof schema.minLength === 'number') result = result.min(schema.minLength);
+    if (typeof schema.maxLength === 'number') result = result.max(schema.maxLength);
+    if (typeof schema.pattern === 'string') result = result.regex(new RegExp(schema.pattern, 'u'));
+
+    switch (schema.format) {
+      case 'email':
+        return result.email();
+      case 'uri':
+      case 'url':
+        return result.url();
+      case 'uuid':
+        return result.uuid();
+      case 'date-time':
+        return result.datetime({ offset: true });
+      case 'date':
+        return result.regex(DATE_PATTERN, 'Invalid date')
+          .refine(value => !Number.isNaN(Date.parse(`${value}T00:00:00Z`)), 'Invalid date');
+      case 'time':
+        return result.regex(TIME_PATTERN, 'Invalid time');
+      case 'ipv4':
+        return result.ip({ version: 'v4' });
+      case 'ipv6':
+        return result.ip({ version: 'v6' });
+      case 'hostname':
+        return result.regex(HOSTNAME_PATTERN, 'Invalid hostname');
+      default:
+        // Unknown formats are annotations only, as the JSON Schema spec allows
+        return result;
+    }
+  }
+
+  private applyNumberConstraints(base: z.ZodNumber, schema: Record<string, unknown>): z.ZodTypeAny {
+    let result = base;
+
+    if (typeof schema.minimum === 'number') {
+      // Draft 4 expressed exclusivity as a boolean next to minimum/maximum
+      result = schema.exclusiveMinimum === true ? result.gt(schema.minimum) : result.gte(schema.minimum);
+    }
+    if (typeof schema.maximum === 'number') {
+      result = schema.exclusiveMaximum === true ? result.lt(schema.maximum) : result.lte(schema.maximum);
+    }
+    if (typeof schema.exclusiveMinimum === 'number') result = result.gt(schema.exclusiveMinimum);
+    if (typeof schema.exclusiveMaximum === 'number') result = result.lt(schema.exclusiveMaximum);
+    if (typeof schema.multipleOf === 'number') result = result.multipleOf(schema.multipleOf);
+
+    return result;
+  }
+
+  private convertArray(schema: Record<string, unknown>): z.ZodTypeAny {
+    const tupleItems = Array.isArray(schema.prefixItems)
+      ? schema.prefixItems as JsonSchema[]
+      : Array.isArray(schema.items) ? schema.items as JsonSchema[] : null;
+    const itemSchema = !Array.isArray(schema.items) && schema.items !== undefined
+      ? this.convert(schema.items as JsonSchema)
+      : null;
+
+    let result: z.ZodTypeAny;
+    if (tupleItems) {
+      const tuple = tupleItems.map(item => this.convert(item));
+      const rest = itemSchema ?? (schema.additionalItems === false ? null : this.restSchema(schema.additionalItems));
+      result = rest
+        ? z.tuple(tuple as [z.ZodTypeAny, ...z.ZodTypeAny[]]).rest(rest)
+        : z.tuple(tuple as [z.ZodTypeAny, ...z.ZodTypeAny[]]);
+    } else {
+      result = z.array(itemSchema ?? z.unknown());
+    }
+
+    const minItems = typeof schema.minItems === 'number' ? schema.minItems : null;
+    const maxItems = typeof schema.maxItems === 'number' ? schema.maxItems : null;
+    const uniqueItems = schema.uniqueItems === true;
+
+    if (minItems === null && maxItems === null && !uniqueItems) {
+      return result;
+    }
+
+    return result.superRefine((value: unknown[], ctx) => {
+      if (minItems !== null && value.length < minItems) {
+        ctx.addIssue({ code: z.ZodIssueCode.too_small, minimum: minItems, inclusive: true, type: 'array', message: `Array must contain at least ${minItems} item(s)` });
+      }
+      if (maxItems !== null && value.length > maxItems) {
+        ctx.addIssue({ code: z.ZodIssueCode.too_big, maximum: maxItems, inclusive: true, type: 'array', message: `Array must contain at most ${maxItems} item(s)` });
+      }
+      if (uniqueItems) {
+        const duplicate = value.findIndex((item, index) => value.slice(0, index).some(other => isDeepEqual(other, item)));
+        if (duplicate !== -1) {
+          ctx.addIssue({ code: z.ZodIssueCode.custom, path: [duplicate], message: 'Array items must be unique' });
+        }
+      }
+    });
+  }
+
+  private restSchema(additionalItems: unknown): z.ZodTypeAny {
+    return additionalItems === undefined || additionalItems === true
+      ? z.unknown()
+      : this.convert(additionalItems as JsonSchema);
+  }
+
+  private convertObject(schema: Record<string, unknown>): z.ZodTypeAny {
+    const properties = (schema.properties ?? {}) as Record<string, JsonSchema>;
+    const required = Array.isArray(schema.required) ? schema.required as string[] : [];
+
+    const shape: Record<string, z.ZodTypeAny> = {};
+    for (const [key, propSchema] of Object.entries(properties)) {
+      const propZodSchema = this.convert(propSchema);
+      shape[key] = required.includes(key) ? propZodSchema : propZodSchema.optional();
+    }
+
+    // Required keys without a property schema still have to be present
+    for (const key of required) {
+      if (!(key in shape)) {
+        shape[key] = z.any().refine(value => value !== undefined, 'Required');
+      }
+    }
+
+    let result: z.ZodTypeAny;
+    const additional = schema.additionalProperties;
+    if (additional === false) {
+      result = z.object(shape).strict();
+    } else if (additional !== undefined && additional !== true) {
+      result = z.object(shape).catchall(this.convert(additional as JsonSchema));
+    } else {
+      result = z.object(shape).passthrough();
+    }
+
+    const minProperties = typeof schema.minProperties === 'number' ? schema.minProperties : null;
+    const maxProperties = typeof schema.maxProperties === 'number' ? schema.maxProperties : null;
+
+    if (minProperties === null && maxProperties === null) {
+      return result;
+    }
+
+    return result.superRefine((value: Record<string, unknown>, ctx) => {
+      const count = Object.keys(value).length;
+      if (minProperties !== null && count < minProperties) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Object must have at least ${minProperties} propert${minProperties === 1 ? 'y' : 'ies'}` });
+      }
+      if (maxProperties !== null && count > maxProperties) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Object must have at most ${maxProperties} propert${maxProperties === 1 ? 'y' : 'ies'}` });
+      }
+    });
+  }
+
+  private applyKeywords(base: z.ZodTypeAny, schema: Record<string, unknown>): z.ZodTypeAny {
+    const enumValues = Array.isArray(schema.enum) ? schema.enum as unknown[] : null;
+    const hasConst = 'const' in schema;
+    const allOf = Array.isArray(schema.allOf) ? (schema.allOf as JsonSchema[]).map(s => this.convert(s)) : null;
+    const anyOf = Array.isArray(schema.anyOf) ? (schema.anyOf as JsonSchema[]).map(s => this.convert(s)) : null;
+    const oneOf = Array.isArray(schema.oneOf) ? (schema.oneOf as JsonSchema[]).map(s => this.convert(s)) : null;
+    const not = schema.not !== undefined ? this.convert(schema.not as JsonSchema) : null;
+
+    if (!enumValues && !hasConst && !allOf && !anyOf && !oneOf && !not) {
+      return base;
+    }
+
+    return base.superRefine((value, ctx) => {
+      if (enumValues && !enumValues.some(option => isDeepEqual(option, value))) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          message: `Expected one of ${enumValues.map(option => JSON.stringify(option)).join(', ')}`
+        });
+      }
+
+      if (hasConst && !isDeepEqual(schema.const, value)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Expected constant ${JSON.stringify(schema.const)}` });
+      }
+
+      if (allOf) {
+        for (const subSchema of allOf) {
+          const result = subSchema.safeParse(value);
+          if (!result.success) {
+            for (const issue of result.error.issues) ctx.addIssue(issue);
+          }
+        }
+      }
+
+      if (anyOf && !anyOf.some(subSchema => subSchema.safeParse(value).success)) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Value does not match any of the anyOf schemas' });
+      }
+
+      if (oneOf) {
+        const matches = oneOf.filter(subSchema => subSchema.safeParse(value).success).length;
+        if (matches !== 1) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: matches === 0
+              ? 'Value does not match any of the oneOf schemas'
+              : `Value matches ${matches} oneOf schemas, expected exactly one`
+          });
+        }
+      }
+
+      if (not && not.safeParse(value).success) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: 'Value must not match the "not" schema' });
+      }
+    });
+  }
+}
+
+function isDeepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) return false;
+  if (Array.isArray(a) !== Array.isArray(b)) return false;
+
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((item, index) => isDeepEqual(item, b[index]));
+  }
+
+  const aKeys = Object.keys(a);
+  const bKeys = Object.keys(b);
+  return aKeys.length === bKeys.length
+    && aKeys.every(key => isDeepEqual((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key]));
+}
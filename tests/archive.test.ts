@@ -0,0 +1,94 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import { MessageBus } from '../src/mcp-server/bus.js';
+import { MessageArchive } from '../src/mcp-server/archive.js';
+import { ConsumerGroupManager } from '../src/mcp-server/consumer-groups.js';
+import { useTestBus } from './helpers.js';
+
+describe('Message archive', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let archive: MessageArchive;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    archive = new MessageArchive(db);
+  });
+
+  test('should archive expired and old acknowledged messages instead of deleting them', () => {
+    const expired = bus.sendMessage('global', 'a', 's1', 'status: green');
+    const kept = bus.sendMessage('global', 'a', 's1', 'permanent', { ttlSeconds: 0 });
+    const acked = bus.sendMessage('global', 'a', 's1', 'acked long ago', { ttlSeconds: 0 });
+    const addressed = bus.sendMultiRecipient('global', 'a', 's1', 'for b only', ['b']);
+    bus.acknowledgeMessage(acked.id, 'b');
+    db.prepare("UPDATE message_acks SET acknowledged_at = datetime('now', '-2 hours')").run();
+    db.prepare("UPDATE messages SET acknowledged_at = datetime('now', '-2 hours') WHERE id = ?").run(acked.id);
+    db.prepare("UPDATE messages SET expires_at = datetime('now', '-1 second') WHERE id IN (?, ?)").run(expired.id, addressed.id);
+
+    // The addressed message also goes to the dead letter queue, which still references it
+    assert.equal(bus.cleanupExpiredMessages(), 2);
+    assert.deepEqual(bus.getMessages('global').map(m => m.id), [kept.id]);
+
+    const archived = archive.query({ channel: 'global' });
+    assert.deepEqual(archived.map(m => [m.id, m.archive_reason]), [[expired.id, 'expired'], [acked.id, 'acknowledged']]);
+    assert.equal(archived[1].acknowledgements[0].agent_id, 'b');
+    assert.ok(archived[0].purge_after);
+    assert.equal(archive.purgeExpired(), 0);
+
+    // Once the dead letter is resolved and b has read it, it is archived with its recipient list
+    bus.resolveDeadLetter(bus.getDeadLetters()[0].id, 'delivered by hand');
+    bus.acknowledgeMessage(addressed.id, 'b');
+    assert.equal(bus.cleanupExpiredMessages(), 1);
+    assert.equal(archive.query({ channel: 'global', sender: 'a', limit: 1, offset: 2 })[0].recipients[0].agent_id, 'b');
+    assert.equal(archive.query({ reader: 'b' }).length, 3);
+    assert.equal(archive.query({ reader: 'c' }).length, 2);
+    assert.deepEqual(archive.query({ reader: 'c', limit: 1, offset: 1 }).map(m => m.id), [acked.id]);
+  });
+
+  test('should honour per-channel retention', () => {
+    bus.createChannel('noisy');
+    bus.setChannelPolicy('noisy', { archiveRetentionSeconds: 0 });
+    bus.createChannel('audit');
+    bus.setChannelPolicy('audit', { archiveRetentionSeconds: 60 });
+    bus.sendMessage('noisy', 'a', 's1', 'heartbeat');
+    bus.sendMessage('audit', 'a', 's1', 'approved release 1.2');
+    db.prepare("UPDATE messages SET expires_at = datetime('now', '-1 second')").run();
+
+    assert.equal(bus.cleanupExpiredMessages(), 2);
+    assert.deepEqual(archive.query().map(m => m.channel), ['audit']);
+
+    db.prepare("UPDATE messages_archive SET purge_after = datetime('now', '-1 second')").run();
+    assert.equal(archive.purgeExpired(), 1);
+    assert.equal(archive.query().length, 0);
+
+    assert.throws(() => bus.setChannelPolicy('audit', { archiveRetentionSeconds: -1 }), /non-negative integer/);
+    assert.throws(() => bus.setChannelPolicy('missing', { archiveRetentionSeconds: 60 }), /not found/);
+  });
+
+  test('should wait for every recipient to acknowledge before archiving', () => {
+    const addressed = bus.sendMultiRecipient('global', 'a', 's1', 'for b and c', ['b', 'c']);
+    const grouped = bus.sendMessage('jobs', 'a', 's1', 'build #1', { ttlSeconds: 0 });
+    const groups = new ConsumerGroupManager(db, bus);
+    for (const group of ['workers', 'auditors']) {
+      groups.createGroup('jobs', group, 'a');
+      groups.joinGroup('jobs', group, `${group}-1`);
+      groups.receive('jobs', group, `${group}-1`);
+    }
+    db.prepare('UPDATE messages SET expires_at = NULL').run();
+    const ackLongAgo = (messageId: string, agentId: string) => {
+      bus.acknowledgeMessage(messageId, agentId);
+      groups.acknowledge(messageId, agentId);
+      db.prepare("UPDATE message_acks SET acknowledged_at = datetime('now', '-2 hours')").run();
+    };
+
+    ackLongAgo(addressed.id, 'b');
+    ackLongAgo(grouped.id, 'workers-1');
+    assert.equal(bus.cleanupExpiredMessages(), 0);
+
+    ackLongAgo(addressed.id, 'c');
+    ackLongAgo(grouped.id, 'auditors-1');
+    assert.equal(bus.cleanupExpiredMessages(), 2);
+    assert.deepEqual(archive.query().map(m => m.archive_reason), ['acknowledged', 'acknowledged']);
+  });
+});
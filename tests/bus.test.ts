@@ -4,6 +4,8 @@ import Database from 'better-sqlite3';
 import { tmpdir } from 'os';
 import { join } from 'path';
 import { mkdtempSync, rmSync } from 'fs';
+import { MessageBus, buildThreadTree, groupByThread } from '../src/mcp-server/bus.js';
+import { useTestBus } from './helpers.js';
 
 // We'll test the database and bus logic directly
 // since testing MCP server requires more infrastructure
@@ -120,3 +122,291 @@ describe('Message Bus', () => {
     assert.equal(unacked[0].id, 'msg-3');
   });
 });
+
+describe('MessageBus acknowledgements', () => {
+  let bus: MessageBus;
+
+  useTestBus(env => ({ bus } = env));
+
+  test('should track broadcast acknowledgements per consumer', () => {
+    const message = bus.sendMessage('global', 'sender', 's0', 'Broadcast');
+
+    assert.equal(bus.acknowledgeMessage(message.id, 'agent-1'), true);
+    assert.equal(bus.acknowledgeMessage(message.id, 'agent-1'), false);
+
+    const forAgent1 = bus.getMessages('global', { unacknowledgedOnly: true, consumer: 'agent-1' });
+    const forAgent2 = bus.getMessages('global', { unacknowledgedOnly: true, consumer: 'agent-2' });
+    assert.equal(forAgent1.length, 0);
+    assert.equal(forAgent2.length, 1);
+
+    assert.equal(bus.hasUnackedExternalMessages('agent-1', ['global']), false);
+    assert.equal(bus.getUnackedExternalMessages('agent-2', ['global']).count, 1);
+  });
+
+  test('should resolve waitForAck when any consumer acknowledges', async () => {
+    const message = bus.sendMessage('global', 'sender', 's0', 'Ping');
+    setTimeout(() => bus.acknowledgeMessage(message.id, 'agent-1'), 10);
+
+    assert.equal(await bus.waitForAck(message.id, 1000), true);
+  });
+});
+
+describe('MessageBus long-poll', () => {
+  let bus: MessageBus;
+
+  useTestBus(env => ({ bus } = env));
+
+  test('should resolve as soon as a matching message arrives', async () => {
+    const started = Date.now();
+    setTimeout(() => bus.sendMessage('ops', 'lead', 's0', 'Deploy now'), 20);
+
+    const messages = await bus.waitForMessages('ops', { excludeSender: 'worker' }, 5000);
+    assert.deepEqual(messages.map(m => m.content), ['Deploy now']);
+    assert.ok(Date.now() - started < 2000);
+  });
+
+  test('should resolve with no messages on timeout', async () => {
+    const started = Date.now();
+    const messages = await bus.waitForMessages('ops', { excludeSender: 'worker' }, 100);
+
+    assert.deepEqual(messages, []);
+    assert.ok(Date.now() - started >= 90);
+  });
+
+  test('should not resolve for other channels or the waiting agent\'s own messages', async () => {
+    setTimeout(() => {
+      bus.sendMessage('other', 'lead', 's0', 'Elsewhere');
+      bus.sendMessage('ops', 'worker', 's1', 'My own');
+    }, 20);
+
+    const messages = await bus.waitForMessages('ops', { excludeSender: 'worker' }, 200);
+    assert.deepEqual(messages, []);
+    assert.equal(bus.getMessages('other').length, 1);
+  });
+});
+
+describe('MessageBus channel ACLs', () => {
+  let bus: MessageBus;
+
+  useTestBus(env => {
+    ({ bus } = env);
+    bus.createChannel('ops', 'Operations');
+  });
+
+  test('should only let the named owner grant roles, and enforce them', () => {
+    bus.sendMessage('ops', 'anyone', 's0', 'Open channel');
+    assert.throws(() => bus.grantChannelRole('ops', 'worker', 'publisher', 'anyone'), /Channel ops is open/);
+    assert.equal(bus.isChannelRestricted('ops'), false);
+
+    bus.restrictChannel('ops', 'lead');
+    assert.throws(() => bus.restrictChannel('ops', 'anyone'), /already restricted/);
+    bus.grantChannelRole('ops', 'worker', 'publisher', 'lead');
+    bus.grantChannelRole('ops', 'watcher', 'observer', 'lead');
+    assert.deepEqual(bus.getChannelAcl('ops').map(e => [e.agent_id, e.role]).sort(), [
+      ['lead', 'owner'], ['watcher', 'observer'], ['worker', 'publisher']
+    ]);
+    assert.throws(() => bus.grantChannelRole('ops', 'worker', 'owner', 'worker'), /not allowed to manage/);
+
+    bus.sendMessage('ops', 'worker', 's1', 'Deployed');
+    assert.throws(() => bus.sendMessage('ops', 'watcher', 's2', 'Hi'), /not allowed to publish/);
+    assert.throws(() => bus.sendMessage('ops', 'anyone', 's0', 'Hi'), /not allowed to publish/);
+
+    assert.equal(bus.getMessages('ops', { reader: 'watcher' }).length, 2);
+    assert.throws(() => bus.getMessages('ops', { reader: 'anyone' }), /not allowed to read/);
+    assert.throws(() => bus.getMessages('ops', { reader: null }), /agent_id is required/);
+
+    bus.registerAgent('watcher', 's2');
+    assert.throws(() => bus.subscribeToChannel('watcher', 's2', 'ops'), /not allowed to subscribe/);
+  });
+
+  test('should show responses and receipts only to agents that can read the request', () => {
+    bus.restrictChannel('ops', 'lead');
+    bus.grantChannelRole('ops', 'worker', 'subscriber', 'lead');
+    const request = bus.sendRequest('ops', 'lead', 's0', 'status?');
+    bus.sendResponse(request.correlation_id!, 'worker', 's1', 'green');
+
+    assert.equal(bus.getResponses(request.correlation_id!, 'lead').length, 1);
+    assert.throws(() => bus.getResponses(request.correlation_id!, 'anyone'), /not allowed to read/);
+    assert.throws(() => bus.getResponses(request.correlation_id!, null), /agent_id is required/);
+
+    const addressed = bus.sendRequest('global', 'lead', 's0', 'deploy key?', 60, { recipients: ['worker'] });
+    bus.sendResponse(addressed.correlation_id!, 'worker', 's1', 'rotated');
+    assert.equal(bus.getResponses(addressed.correlation_id!, 'worker').length, 1);
+    assert.deepEqual(bus.getResponses(addressed.correlation_id!, 'anyone'), []);
+
+    assert.deepEqual(bus.getDeliveryStatus(addressed.id, 'lead').recipients.map(r => r.agent_id), ['worker']);
+    assert.throws(() => bus.getDeliveryStatus(addressed.id, 'anyone'), /not found/);
+    assert.throws(() => bus.getDeliveryStatus(request.id, 'anyone'), /not allowed to read/);
+  });
+
+  test('should refuse to restrict system channels', () => {
+    for (const channel of ['global', 'coordination', 'status', 'errors']) {
+      assert.throws(() => bus.restrictChannel(channel, 'lead'), /System channel .* can't be restricted/);
+      assert.throws(() => bus.grantChannelRole(channel, 'lead', 'owner', 'lead'), /is open/);
+      assert.equal(bus.isChannelRestricted(channel), false);
+    }
+  });
+
+  test('should drop subscriptions on revoke and keep an owner', () => {
+    bus.restrictChannel('ops', 'lead');
+    bus.grantChannelRole('ops', 'worker', 'subscriber', 'lead');
+    bus.registerAgent('worker', 's1');
+    bus.subscribeToChannel('worker', 's1', 'ops');
+
+    assert.equal(bus.revokeChannelRole('ops', 'worker', 'lead'), true);
+    assert.deepEqual(JSON.parse(bus.getAgent('worker', 's1')!.subscribed_channels), []);
+
+    bus.grantChannelRole('ops', 'worker', 'observer', 'lead');
+    assert.throws(() => bus.revokeChannelRole('ops', 'lead', 'lead'), /at least one owner/);
+    assert.throws(() => bus.grantChannelRole('ops', 'lead', 'publisher', 'lead'), /at least one owner/);
+  });
+});
+
+describe('MessageBus recipients', () => {
+  let bus: MessageBus;
+
+  useTestBus(env => ({ bus } = env));
+
+  test('should hide addressed messages from other agents', () => {
+    bus.sendMessage('global', 'lead', 's0', 'Everyone');
+    bus.sendMultiRecipient('global', 'lead', 's0', 'Just you two', ['a', 'b']);
+
+    assert.equal(bus.getMessages('global', { reader: 'a' }).length, 2);
+    assert.equal(bus.getMessages('global', { reader: 'lead' }).length, 2);
+    assert.deepEqual(bus.getMessages('global', { reader: 'c' }).map(m => m.content), ['Everyone']);
+    assert.deepEqual(bus.getMessages('global', { reader: null }).map(m => m.content), ['Everyone']);
+
+    bus.acknowledgeMessage(bus.getMessages('global', { reader: 'c' })[0].id, 'c');
+    assert.equal(bus.hasUnackedExternalMessages('c', ['global']), false);
+  });
+
+  test('should stamp delivery on receipt and read on acknowledgement', () => {
+    const message = bus.sendMultiRecipient('global', 'lead', 's0', 'Review PR 12', ['a', 'b']);
+
+    assert.equal(bus.markDelivered('a', [message.id]), 1);
+    assert.equal(bus.markDelivered('a', [message.id]), 0);
+    bus.acknowledgeMessage(message.id, 'b');
+
+    const [a, b] = bus.getDeliveryStatus(message.id).recipients;
+    assert.ok(a.delivered_at);
+    assert.equal(a.read_at, null);
+    assert.ok(b.delivered_at);
+    assert.ok(b.read_at);
+  });
+});
+
+describe('MessageBus threads', () => {
+  let bus: MessageBus;
+
+  useTestBus(env => ({ bus } = env));
+
+  test('should build a conversation tree from replies', () => {
+    const root = bus.sendMessage('global', 'lead', 's0', 'Which cache should we use?');
+    const redis = bus.sendMessage('global', 'a', 's1', 'Redis', { replyTo: root.id });
+    const memcached = bus.sendMessage('global', 'b', 's2', 'Memcached', { replyTo: root.id });
+    const why = bus.sendMessage('global', 'lead', 's0', 'Why Redis?', { replyTo: redis.id });
+    const other = bus.sendMessage('global', 'c', 's3', 'Unrelated');
+
+    assert.equal(root.thread_id, root.id);
+    assert.equal(why.thread_id, root.id);
+    assert.equal(why.reply_to, redis.id);
+
+    const thread = bus.getThread(why.id);
+    assert.equal(thread.length, 4);
+    const [tree] = buildThreadTree(thread);
+    assert.equal(tree.id, root.id);
+    assert.deepEqual(tree.replies.map(r => r.id), [redis.id, memcached.id]);
+    assert.deepEqual(tree.replies[0].replies.map(r => r.id), [why.id]);
+
+    const threads = groupByThread(bus.getMessages('global'));
+    assert.deepEqual(threads.map(t => [t.thread_id, t.count]), [[root.id, 4], [other.id, 1]]);
+
+    assert.throws(() => bus.sendMessage('other', 'a', 's1', 'Wrong place', { replyTo: root.id }), /Replies must be sent/);
+  });
+
+  test('should thread responses under their request', () => {
+    const request = bus.sendRequest('global', 'lead', 's0', 'Status?');
+    const response = bus.sendResponse(request.correlation_id!, 'a', 's1', 'Green');
+
+    assert.equal(response.reply_to, request.id);
+    assert.equal(response.thread_id, request.id);
+  });
+});
+
+describe('MessageBus channel policies', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+
+  useTestBus(env => ({ db, bus } = env));
+
+  test('should cap the status channel by default and evict the oldest messages', () => {
+    assert.equal(bus.getChannel('status')!.max_messages, 1000);
+
+    bus.createChannel('heartbeats');
+    bus.setChannelPolicy('heartbeats', { maxMessages: 2, maxMessageBytes: 10 });
+    bus.sendMessage('heartbeats', 'a', 's1', 'beat 1');
+    bus.sendMessage('heartbeats', 'a', 's1', 'beat 2');
+    bus.sendMessage('heartbeats', 'a', 's1', 'beat 3');
+
+    assert.deepEqual(bus.getMessages('heartbeats').map(m => m.content), ['beat 2', 'beat 3']);
+    const archived = db.prepare('SELECT content, archive_reason FROM messages_archive').all();
+    assert.deepEqual(archived, [{ content: 'beat 1', archive_reason: 'evicted' }]);
+    assert.throws(() => bus.sendMessage('heartbeats', 'a', 's1', 'much too long'), /accepts at most 10/);
+
+    // Lowering a limit applies right away
+    bus.setChannelPolicy('heartbeats', { maxMessages: 1 });
+    assert.deepEqual(bus.getMessages('heartbeats').map(m => m.content), ['beat 3']);
+  });
+
+  test('should reject or dead-letter messages when a channel is full', () => {
+    bus.createChannel('bounded');
+    bus.setChannelPolicy('bounded', { maxTotalBytes: 12, overflowPolicy: 'reject' });
+    bus.sendMessage('bounded', 'a', 's1', 'abcdef');
+    bus.sendMessage('bounded', 'a', 's1', 'ghijkl');
+    assert.throws(() => bus.sendMessage('bounded', 'a', 's1', 'x'), /Channel bounded is full/);
+
+    bus.setChannelPolicy('bounded', { overflowPolicy: 'dead_letter' });
+    bus.sendMessage('bounded', 'a', 's1', 'x');
+    assert.deepEqual(bus.getMessages('bounded').map(m => m.content), ['ghijkl', 'x']);
+    const [deadLetter] = bus.getDeadLetters();
+    assert.equal(deadLetter.content, 'abcdef');
+    assert.match(deadLetter.failure_reason, /channel bounded is full/);
+
+    assert.throws(() => bus.setChannelPolicy('bounded', { overflowPolicy: 'block' as never }), /overflow_policy must be one of/);
+    assert.throws(() => bus.setChannelPolicy('bounded', { maxMessages: 0 }), /positive integer/);
+  });
+
+  test('should remove acknowledged messages after the channel ack retention', () => {
+    bus.createChannel('jobs');
+    bus.setChannelPolicy('jobs', { ackRetentionSeconds: 60 });
+    const done = bus.sendMessage('jobs', 'lead', 's0', 'job 1');
+    const pending = bus.sendMessage('jobs', 'lead', 's0', 'job 2');
+    bus.acknowledgeMessage(done.id, 'worker');
+    db.prepare("UPDATE message_acks SET acknowledged_at = datetime('now', '-2 minutes') WHERE message_id = ?").run(done.id);
+
+    assert.equal(bus.cleanupExpiredMessages(), 1);
+    assert.deepEqual(bus.getMessages('jobs').map(m => m.id), [pending.id]);
+  });
+
+  test('should keep messages within the ack retention until every subscriber acknowledged', () => {
+    bus.createChannel('jobs');
+    bus.setChannelPolicy('jobs', { ackRetentionSeconds: 60 });
+    for (const agentId of ['worker-1', 'worker-2']) {
+      bus.registerAgent(agentId, 's1');
+      bus.subscribeToChannel(agentId, 's1', 'jobs');
+    }
+    const job = bus.sendMessage('jobs', 'lead', 's0', 'job 1');
+    const backdateAcks = () =>
+      db.prepare("UPDATE message_acks SET acknowledged_at = datetime('now', '-2 minutes') WHERE message_id = ?").run(job.id);
+
+    bus.acknowledgeMessage(job.id, 'worker-1');
+    backdateAcks();
+    assert.equal(bus.cleanupExpiredMessages(), 0);
+    assert.deepEqual(bus.getMessages('jobs', { unacknowledgedOnly: true, consumer: 'worker-2' }).map(m => m.id), [job.id]);
+
+    bus.acknowledgeMessage(job.id, 'worker-2');
+    assert.equal(bus.cleanupExpiredMessages(), 0);
+    backdateAcks();
+    assert.equal(bus.cleanupExpiredMessages(), 1);
+  });
+});
@@ -0,0 +1,113 @@
+import { test, describe, afterEach } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import { MessageBus } from '../src/mcp-server/bus.js';
+import { ConsensusManager } from '../src/mcp-server/consensus.js';
+import { createACPMessage } from '../src/mcp-server/acp-protocol.js';
+import { useTestBus } from './helpers.js';
+
+describe('Consensus tallying', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let consensus: ConsensusManager;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    consensus = new ConsensusManager(db, bus);
+  });
+
+  afterEach(() => {
+    consensus.stop();
+  });
+
+  function vote(id: string, agentId: string, choice: string): void {
+    bus.sendResponse(id, agentId, `${agentId}-session`, JSON.stringify({ vote: choice, reason: `${agentId} says ${choice}` }));
+  }
+
+  test('should count the latest vote per target agent and decide once all have voted', () => {
+    const request = consensus.requestConsensus('lead', 's0', 'Adopt caching', { targetAgents: ['a', 'b', 'c'] });
+
+    vote(request.id, 'a', 'AGREE');
+    vote(request.id, 'b', 'DISAGREE');
+    vote(request.id, 'b', 'AGREE');
+    vote(request.id, 'outsider', 'DISAGREE');
+    vote(request.id, 'c', 'MAYBE');
+
+    let result = consensus.getResult(request.id);
+    assert.equal(result.status, 'open');
+    assert.deepEqual(result.tally, { AGREE: 2, DISAGREE: 0, SUGGEST_CHANGES: 0 });
+    assert.deepEqual(result.pending_agents, ['c']);
+    assert.equal(result.projected_outcome, 'approved');
+    assert.deepEqual(result.ignored.map(i => i.agent_id), ['outsider', 'c']);
+
+    // ACP envelopes sent with bus_send count as well
+    const envelope = createACPMessage('CONSENSUS_RESPONSE', 'c', 'c-session', { vote: 'SUGGEST_CHANGES' }, { correlationId: request.id });
+    bus.sendMessage('coordination', 'c', 'c-session', JSON.stringify(envelope));
+
+    result = consensus.getResult(request.id);
+    assert.equal(result.status, 'decided');
+    assert.equal(result.outcome, 'approved');
+    assert.equal(result.total_votes, 3);
+
+    const decision = bus.getMessages('coordination', { limit: 50 }).find(m => m.id === result.decision_message_id)!;
+    const payload = JSON.parse(decision.content).payload;
+    assert.equal(payload.status, 'consensus_decided');
+    assert.equal(payload.outcome, 'approved');
+  });
+
+  test('should count votes sent compressed', () => {
+    const request = consensus.requestConsensus('lead', 's0', 'Adopt caching', { targetAgents: ['a'] });
+    const envelope = createACPMessage('CONSENSUS_RESPONSE', 'a', 'a-session', {
+      vote: 'SUGGEST_CHANGES',
+      suggestions: 'Cache invalidation needs a plan. '.repeat(100)
+    }, { correlationId: request.id });
+    const sent = bus.sendMessage('coordination', 'a', 'a-session', JSON.stringify(envelope), { compression: 'gzip' });
+    assert.equal(sent.content_encoding, 'gzip');
+
+    const result = consensus.getResult(request.id);
+    assert.equal(result.total_votes, 1);
+    assert.equal(result.outcome, 'changes_requested');
+  });
+
+  test('should decide from incoming votes once started', () => {
+    consensus.start(60_000);
+    const request = consensus.requestConsensus('lead', 's0', 'Adopt caching', { targetAgents: ['a', 'b'] });
+
+    vote(request.id, 'a', 'AGREE');
+    bus.sendMessage('coordination', 'b', 'b-session', 'looking at it now');
+    assert.equal(consensus.getRequest(request.id)!.status, 'open');
+
+    vote(request.id, 'b', 'AGREE');
+    const decided = consensus.getRequest(request.id)!;
+    assert.equal(decided.status, 'decided');
+    assert.equal(decided.outcome, 'approved');
+  });
+
+  test('should apply supermajority thresholds', () => {
+    const request = consensus.requestConsensus('lead', 's0', 'Rewrite in Rust', {
+      targetAgents: ['a', 'b', 'c', 'd', 'e'],
+      threshold: 'supermajority'
+    });
+    vote(request.id, 'a', 'AGREE');
+    vote(request.id, 'b', 'AGREE');
+    vote(request.id, 'c', 'AGREE');
+    vote(request.id, 'd', 'DISAGREE');
+    vote(request.id, 'e', 'DISAGREE');
+
+    const result = consensus.getResult(request.id);
+    assert.equal(result.outcome, 'no_consensus');
+  });
+
+  test('should decide without quorum once the deadline passes', () => {
+    const request = consensus.requestConsensus('lead', 's0', 'Ship Friday', { quorum: 2 });
+    vote(request.id, 'a', 'AGREE');
+
+    assert.equal(consensus.processOpenRequests(), 0);
+    db.prepare("UPDATE consensus_requests SET voting_deadline = datetime('now', '-1 second') WHERE id = ?").run(request.id);
+    assert.equal(consensus.processOpenRequests(), 1);
+
+    const result = consensus.getResult(request.id);
+    assert.equal(result.outcome, 'no_quorum');
+    assert.equal(result.quorum_met, false);
+  });
+});
@@ -0,0 +1,92 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import { MessageBus } from '../src/mcp-server/bus.js';
+import { ConsumerGroupManager } from '../src/mcp-server/consumer-groups.js';
+import { useTestBus } from './helpers.js';
+
+describe('Consumer groups', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let groups: ConsumerGroupManager;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    groups = new ConsumerGroupManager(db, bus);
+    groups.createGroup('jobs', 'workers', 'lead', 30, 3);
+    groups.joinGroup('jobs', 'workers', 'w1');
+    groups.joinGroup('jobs', 'workers', 'w2');
+  });
+
+  function expireLeases(): void {
+    db.prepare("UPDATE message_leases SET lease_expires_at = datetime('now', '-1 second')").run();
+  }
+
+  test('should lease each message to a single member of the group', () => {
+    const first = bus.sendMessage('jobs', 'lead', 's1', 'build #1');
+    const second = bus.sendMessage('jobs', 'lead', 's1', 'build #2');
+
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w1', 1).map(m => m.id), [first.id]);
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w2').map(m => m.id), [second.id]);
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w1'), []);
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w2'), []);
+    assert.equal(groups.listGroups('jobs')[0].in_flight, 2);
+
+    assert.throws(() => groups.receive('jobs', 'workers', 'outsider'), /not a member of consumer group workers/);
+  });
+
+  test('should redeliver to another member once the visibility timeout expires', () => {
+    const job = bus.sendMessage('jobs', 'lead', 's1', 'build #1');
+    const [leased] = groups.receive('jobs', 'workers', 'w1');
+    assert.equal(leased.delivery_count, 1);
+
+    expireLeases();
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w1'), []);
+    const [redelivered] = groups.receive('jobs', 'workers', 'w2');
+    assert.equal(redelivered.id, job.id);
+    assert.equal(redelivered.delivery_count, 2);
+
+    // Acknowledged messages are never handed out again
+    assert.equal(groups.acknowledge(job.id, 'w2'), true);
+    expireLeases();
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w1'), []);
+  });
+
+  test('should release the leases of a member that leaves', () => {
+    const job = bus.sendMessage('jobs', 'lead', 's1', 'build #1');
+    groups.receive('jobs', 'workers', 'w1');
+
+    assert.equal(groups.leaveGroup('jobs', 'workers', 'w1'), true);
+    assert.deepEqual(groups.getMembers('jobs', 'workers'), ['w2']);
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w2').map(m => m.id), [job.id]);
+    assert.equal(groups.leaveGroup('jobs', 'workers', 'w1'), false);
+  });
+
+  test('should deliver every message to each group independently', () => {
+    groups.createGroup('jobs', 'auditors', 'lead');
+    groups.joinGroup('jobs', 'auditors', 'a1');
+    const job = bus.sendMessage('jobs', 'lead', 's1', 'build #1');
+
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w1').map(m => m.id), [job.id]);
+    groups.acknowledge(job.id, 'w1');
+
+    const [audited] = groups.receive('jobs', 'auditors', 'a1');
+    assert.equal(audited.id, job.id);
+    assert.equal(audited.consumer_group, 'auditors');
+    assert.equal(audited.delivery_count, 1);
+  });
+
+  test('should dead-letter messages whose leases ran out of deliveries, once', () => {
+    groups.createGroup('jobs', 'workers', 'lead', 30, 1);
+    const job = bus.sendMessage('jobs', 'lead', 's1', 'build #1');
+    groups.receive('jobs', 'workers', 'w1');
+    expireLeases();
+
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w2'), []);
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w1'), []);
+    const deadLetters = bus.getDeadLetters('jobs');
+    assert.deepEqual(deadLetters.map(d => d.original_message_id), [job.id]);
+    assert.match(deadLetters[0].failure_reason, /Exceeded 1 delivery attempts in consumer group workers/);
+    assert.equal(groups.listGroups('jobs')[0].in_flight, 0);
+  });
+});
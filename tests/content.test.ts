@@ -0,0 +1,59 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import { MessageBus } from '../src/mcp-server/bus.js';
+import { MessageSearch } from '../src/mcp-server/search.js';
+import { decodeContent, encodeContent, validateContent } from '../src/mcp-server/content.js';
+import { createACPMessage } from '../src/mcp-server/acp-protocol.js';
+import { useTestBus } from './helpers.js';
+
+describe('Message content', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+
+  useTestBus(env => ({ db, bus } = env));
+
+  test('should validate content types and compress only when it pays off', () => {
+    validateContent('{"ok":true}', 'json');
+    validateContent('aGVsbG8=', 'binary-base64');
+    validateContent(JSON.stringify(createACPMessage('STATUS_UPDATE', 'a', 's1', { status: 'working' })), 'acp');
+    assert.throws(() => validateContent('{ok}', 'json'), /not valid JSON/);
+    assert.throws(() => validateContent('{"type":"STATUS_UPDATE"}', 'acp'), /not a valid ACP message/);
+    assert.throws(() => validateContent('not base64!', 'binary-base64'), /not valid base64/);
+
+    const large = 'log line repeated over and over\n'.repeat(200);
+    const gzip = encodeContent(large, 'auto');
+    assert.equal(gzip.encoding, 'gzip');
+    assert.ok(gzip.stored_size < gzip.content_size);
+    assert.equal(decodeContent(gzip.content, gzip.encoding), large);
+    const brotli = encodeContent(large, 'br');
+    assert.equal(decodeContent(brotli.content, 'br'), large);
+
+    assert.equal(encodeContent('short', 'auto').encoding, 'identity');
+    assert.equal(encodeContent('short', 'gzip').encoding, 'identity');
+  });
+
+  test('should store compressed messages and decode them on receipt', () => {
+    const report = JSON.stringify({ summary: 'nightly build report', lines: Array(100).fill('all tests passed') });
+    const message = bus.sendMessage('global', 'ci', 's1', report, { contentType: 'json', compression: 'gzip' });
+
+    assert.equal(message.content_type, 'json');
+    assert.equal(message.content_encoding, 'gzip');
+    assert.equal(message.content_size, Buffer.byteLength(report));
+    assert.equal(message.stored_size, message.content.length);
+    assert.notEqual(message.content, report);
+
+    const [received] = bus.decodeMessages(bus.getMessages('global'));
+    assert.equal(received.content, report);
+    assert.equal(new MessageSearch(db).search('nightly').length, 1);
+    assert.throws(() => bus.sendMessage('global', 'ci', 's1', 'not json', { contentType: 'json' }), /not valid JSON/);
+
+    // Dead letters keep the original content and retries compress it again
+    const deadLetter = bus.addToDeadLetter(message.id, 'test');
+    assert.equal(deadLetter.content, report);
+    assert.ok(bus.retryDeadLetter(deadLetter.id, 'ops'));
+    const retried = bus.getMessage(bus.getDeadLetter(deadLetter.id)!.retry_message_id!)!;
+    assert.equal(retried.content_encoding, 'gzip');
+    assert.equal(retried.content_type, 'json');
+  });
+});
@@ -0,0 +1,82 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import { MessageScheduler } from '../src/mcp-server/scheduler.js';
+import { nextCronOccurrence, parseCron, previewCron } from '../src/mcp-server/cron.js';
+import { useTestBus } from './helpers.js';
+
+const iso = (dates: Date[]) => dates.map(d => d.toISOString());
+
+describe('Cron expressions', () => {
+  test('should honour day, month and weekday fields', () => {
+    // Friday morning: the next weekday 09:00 is Monday
+    assert.equal(nextCronOccurrence('0 9 * * 1-5', new Date('2025-01-03T10:00:00Z'), 'UTC').toISOString(), '2025-01-06T09:00:00.000Z');
+    assert.deepEqual(iso(previewCron('30 8 1,15 FEB,MAR *', 3, new Date('2025-01-20T00:00:00Z'), 'UTC')), [
+      '2025-02-01T08:30:00.000Z', '2025-02-15T08:30:00.000Z', '2025-03-01T08:30:00.000Z'
+    ]);
+    // Either day field matches when both are restricted
+    assert.deepEqual(iso(previewCron('0 0 1 * MON', 2, new Date('2024-12-31T12:00:00Z'), 'UTC')), [
+      '2025-01-01T00:00:00.000Z', '2025-01-06T00:00:00.000Z'
+    ]);
+    assert.deepEqual(iso(previewCron('*/20 * * * * *', 2, new Date('2025-01-01T00:00:05Z'), 'UTC')), [
+      '2025-01-01T00:00:20.000Z', '2025-01-01T00:00:40.000Z'
+    ]);
+    assert.equal(nextCronOccurrence('@monthly', new Date('2025-01-15T00:00:00Z'), 'UTC').toISOString(), '2025-02-01T00:00:00.000Z');
+  });
+
+  test('should support L and # day specifiers', () => {
+    assert.deepEqual(iso(previewCron('0 0 L * *', 2, new Date('2025-02-01T00:00:00Z'), 'UTC')), [
+      '2025-02-28T00:00:00.000Z', '2025-03-31T00:00:00.000Z'
+    ]);
+    assert.deepEqual(iso(previewCron('0 12 * * FRI#3,1L', 2, new Date('2025-01-01T00:00:00Z'), 'UTC')), [
+      '2025-01-17T12:00:00.000Z', '2025-01-27T12:00:00.000Z'
+    ]);
+  });
+
+  test('should evaluate schedules in their timezone across DST changes', () => {
+    assert.equal(nextCronOccurrence('0 9 * * *', new Date('2025-06-01T00:00:00Z'), 'America/New_York').toISOString(), '2025-06-01T13:00:00.000Z');
+    // 02:30 doesn't exist on the day clocks go forward, so it runs an hour later
+    assert.deepEqual(iso(previewCron('30 2 * * *', 3, new Date('2025-03-08T00:00:00Z'), 'America/New_York')), [
+      '2025-03-08T07:30:00.000Z', '2025-03-09T07:30:00.000Z', '2025-03-10T06:30:00.000Z'
+    ]);
+    // 01:30 happens twice on the day clocks go back, but only fires once
+    assert.deepEqual(iso(previewCron('30 1 * * *', 2, new Date('2025-11-02T00:00:00Z'), 'America/New_York')), [
+      '2025-11-02T05:30:00.000Z', '2025-11-03T06:30:00.000Z'
+    ]);
+  });
+
+  test('should reject malformed expressions', () => {
+    assert.throws(() => parseCron('* * * *'), /expected 5 or 6 fields/);
+    assert.throws(() => parseCron('61 * * * *'), /outside 0-59/);
+    assert.throws(() => parseCron('0 0 * FOO *'), /not a number/);
+    assert.throws(() => parseCron('0 0 * * 5-1'), /backwards/);
+    assert.throws(() => nextCronOccurrence('0 0 30 2 *', new Date(), 'UTC'), /never fires/);
+    assert.throws(() => nextCronOccurrence('0 0 * * *', new Date(), 'Mars/Olympus'), /Unknown timezone/);
+  });
+});
+
+describe('MessageScheduler cron schedules', () => {
+  let db: Database.Database;
+  let scheduler: MessageScheduler;
+
+  useTestBus(env => {
+    ({ db } = env);
+    scheduler = new MessageScheduler(db, env.bus);
+  });
+
+  test('should store the timezone and compute the first send from it', () => {
+    const recurring = scheduler.createRecurring('status', 'lead', 's0', 'standup', '0 9 * * 1-5', { timezone: 'Asia/Tokyo' });
+    assert.equal(recurring.timezone, 'Asia/Tokyo');
+    const next = new Date(recurring.next_send_at.replace(' ', 'T') + 'Z');
+    // 09:00 in Tokyo is midnight UTC
+    assert.equal(next.getUTCHours(), 0);
+    assert.equal(next.getUTCMinutes(), 0);
+
+    assert.throws(() => scheduler.createRecurring('status', 'lead', 's0', 'x', '0 9 * *'), /Invalid cron expression/);
+    assert.throws(() => scheduler.createRecurring('status', 'lead', 's0', 'x', 'interval:soon'), /Invalid interval/);
+    assert.deepEqual(
+      iso(scheduler.previewSchedule('interval:3600', 2, { from: new Date('2025-01-01T00:00:00Z') })),
+      ['2025-01-01T01:00:00.000Z', '2025-01-01T02:00:00.000Z']
+    );
+  });
+});
@@ -0,0 +1,197 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import { MessageBus, type DeadLetter } from '../src/mcp-server/bus.js';
+import { ConsumerGroupManager } from '../src/mcp-server/consumer-groups.js';
+import { DeadLetterWorker } from '../src/mcp-server/dead-letter-worker.js';
+import { StructuredRequestManager } from '../src/mcp-server/structured-requests.js';
+import { useTestBus } from './helpers.js';
+
+describe('Dead letter queue', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+
+  useTestBus(env => ({ db, bus } = env));
+
+  function expire(messageId: string): void {
+    db.prepare("UPDATE messages SET expires_at = datetime('now', '-1 second') WHERE id = ?").run(messageId);
+  }
+
+  function makeDue(dlqId: string): void {
+    db.prepare("UPDATE dead_letter_queue SET next_retry_at = datetime('now', '-1 second') WHERE id = ?").run(dlqId);
+  }
+
+  function assertRetryIn(dlqId: string, seconds: number): void {
+    // Timestamps have second precision, so allow for a tick in between
+    const row = db.prepare(`
+      SELECT (julianday(next_retry_at) - julianday('now')) * 86400 AS seconds
+      FROM dead_letter_queue WHERE id = ?
+    `).get(dlqId) as { seconds: number };
+    assert.ok(Math.abs(row.seconds - seconds) <= 1.5, `next retry in ${row.seconds}s, expected ${seconds}s`);
+  }
+
+  test('should dead-letter expired direct messages and requests nobody delivered', () => {
+    const direct = bus.sendMultiRecipient('ops', 'a', 's1', 'restart the worker', ['b']);
+    const request = bus.sendRequest('ops', 'a', 's1', 'status?');
+    const answered = bus.sendRequest('ops', 'a', 's1', 'version?');
+    bus.sendResponse(answered.correlation_id!, 'b', 's2', 'v2.3');
+    const acked = bus.sendMultiRecipient('ops', 'a', 's1', 'read me', ['b']);
+    bus.acknowledgeMessage(acked.id, 'b');
+    const broadcast = bus.sendMessage('ops', 'a', 's1', 'fyi');
+    for (const message of [direct, request, answered, acked, broadcast]) {
+      expire(message.id);
+    }
+
+    assert.equal(bus.deadLetterExpiredMessages(), 2);
+    assert.deepEqual(bus.getDeadLetters().map(d => d.original_message_id).sort(), [direct.id, request.id].sort());
+    assert.match(bus.getDeadLetters()[0].failure_reason, /Expired without acknowledgement/);
+
+    // Already dead-lettered messages are not queued twice
+    assert.equal(bus.deadLetterExpiredMessages(), 0);
+  });
+
+  test('should route messages past max_deliveries in a consumer group to the queue', () => {
+    const groups = new ConsumerGroupManager(db, bus);
+    groups.createGroup('jobs', 'workers', 'lead', 30, 2);
+    groups.joinGroup('jobs', 'workers', 'w1');
+    groups.joinGroup('jobs', 'workers', 'w2');
+    const job = bus.sendMessage('jobs', 'lead', 's1', 'build #42');
+    const expireLeases = () => db.prepare("UPDATE message_leases SET lease_expires_at = datetime('now', '-1 second')").run();
+
+    assert.equal(groups.receive('jobs', 'workers', 'w1')[0].delivery_count, 1);
+    expireLeases();
+    assert.equal(groups.receive('jobs', 'workers', 'w2')[0].delivery_count, 2);
+    expireLeases();
+
+    assert.deepEqual(groups.receive('jobs', 'workers', 'w1'), []);
+    const [deadLetter] = bus.getDeadLetters('jobs');
+    assert.equal(deadLetter.original_message_id, job.id);
+    assert.match(deadLetter.failure_reason, /Exceeded 2 delivery attempts in consumer group workers/);
+  });
+
+  test('should back off retries of dead letters whose retry expires undelivered', () => {
+    const direct = bus.sendMultiRecipient('ops', 'a', 's1', 'restart the worker', ['b']);
+    const deadLetter = bus.addToDeadLetter(direct.id, 'Expired without acknowledgement');
+    assert.equal(deadLetter.retry_count, 0);
+    assertRetryIn(deadLetter.id, 30);
+    assert.deepEqual(bus.getDueDeadLetters(), []);
+
+    makeDue(deadLetter.id);
+    assert.deepEqual(bus.getDueDeadLetters().map(d => d.id), [deadLetter.id]);
+    assert.equal(bus.retryDeadLetter(deadLetter.id, 'ops'), true);
+
+    const retrying = bus.getDeadLetter(deadLetter.id)!;
+    assert.equal(retrying.retry_count, 1);
+    assert.equal(retrying.next_retry_at, null);
+    const retried = bus.getMessage(retrying.retry_message_id!)!;
+    assert.equal(retried.content, 'restart the worker');
+    assert.deepEqual(bus.getRecipients(retried.id), ['b']);
+    assert.deepEqual(bus.getDueDeadLetters(), []);
+
+    // The retry expires unread: the next one waits twice as long
+    expire(retried.id);
+    assert.equal(bus.deadLetterExpiredMessages(), 0);
+    const rescheduled = bus.getDeadLetter(deadLetter.id)!;
+    assert.equal(rescheduled.retry_message_id, null);
+    assertRetryIn(deadLetter.id, 60);
+  });
+
+  test('should stop retrying once max_retries is reached', () => {
+    const direct = bus.sendMultiRecipient('ops', 'a', 's1', 'restart the worker', ['b']);
+    const deadLetter = bus.addToDeadLetter(direct.id, 'test', { maxRetries: 1 });
+
+    makeDue(deadLetter.id);
+    assert.equal(bus.retryDeadLetter(deadLetter.id, 'ops'), true);
+    expire(bus.getDeadLetter(deadLetter.id)!.retry_message_id!);
+    bus.deadLetterExpiredMessages();
+
+    assert.equal(bus.getDeadLetter(deadLetter.id)!.next_retry_at, null);
+    assert.deepEqual(bus.getDueDeadLetters(), []);
+    assert.equal(bus.retryDeadLetter(deadLetter.id, 'ops'), false);
+    assert.equal(bus.getDeadLetters().length, 1);
+  });
+
+  test('should resolve dead letters once their retry is delivered, then archive the original', () => {
+    const direct = bus.sendMultiRecipient('ops', 'a', 's1', 'restart the worker', ['b']);
+    const request = bus.sendRequest('ops', 'a', 's1', 'status?');
+    const forDirect = bus.addToDeadLetter(direct.id, 'test');
+    const forRequest = bus.addToDeadLetter(request.id, 'test');
+    bus.retryDeadLetter(forDirect.id, 'ops');
+    bus.retryDeadLetter(forRequest.id, 'ops');
+    assert.equal(bus.resolveDeliveredDeadLetters(), 0);
+
+    bus.acknowledgeMessage(bus.getDeadLetter(forDirect.id)!.retry_message_id!, 'b');
+    assert.equal(bus.resolveDeliveredDeadLetters(), 1);
+    assert.ok(bus.getDeadLetter(forDirect.id)!.resolved_at);
+    assert.match(bus.getDeadLetter(forDirect.id)!.failure_reason, /Resolution: delivered on retry/);
+
+    const retriedRequest = bus.getMessage(bus.getDeadLetter(forRequest.id)!.retry_message_id!)!;
+    bus.sendResponse(retriedRequest.correlation_id!, 'b', 's2', 'green');
+    assert.equal(bus.resolveDeliveredDeadLetters(), 1);
+    assert.deepEqual(bus.getDeadLetters(), []);
+
+    // Resolved dead letters no longer keep the expired original around
+    expire(direct.id);
+    expire(request.id);
+    bus.cleanupExpiredMessages();
+    assert.equal(bus.getMessage(direct.id), null);
+    assert.equal(bus.getMessage(request.id), null);
+    assert.equal(bus.getDeadLetter(forDirect.id), null);
+  });
+
+  test('should keep the original of an open dead letter through cleanup', () => {
+    const direct = bus.sendMultiRecipient('ops', 'a', 's1', 'restart the worker', ['b']);
+    expire(direct.id);
+
+    bus.cleanupExpiredMessages();
+    const [deadLetter] = bus.getDeadLetters();
+    assert.equal(deadLetter.original_message_id, direct.id);
+    assert.ok(bus.getMessage(direct.id));
+
+    bus.resolveDeadLetter(deadLetter.id, 'handled by hand');
+    bus.cleanupExpiredMessages();
+    assert.equal(bus.getMessage(direct.id), null);
+  });
+
+  test('should keep rejected structured responses on file without pinning the request', () => {
+    const structured = new StructuredRequestManager(db, bus);
+    const request = structured.sendStructuredRequest('ops', 'lead', 's1', 'version?', {
+      type: 'object',
+      properties: { version: { type: 'string' } },
+      required: ['version']
+    });
+    assert.throws(() => structured.respondToStructuredRequest(request.correlation_id!, 'b', 's2', '{"v": 2}'), /Response validation failed/);
+
+    const [rejected] = db.prepare('SELECT * FROM dead_letter_queue WHERE original_message_id = ?').all(request.id) as DeadLetter[];
+    assert.equal(rejected.content, '{"v": 2}');
+    assert.equal(rejected.sender_agent, 'b');
+    assert.ok(rejected.resolved_at);
+    assert.equal(rejected.next_retry_at, null);
+    assert.deepEqual(bus.getDeadLetters(), []);
+
+    expire(request.id);
+    bus.cleanupExpiredMessages();
+    assert.equal(bus.getMessage(request.id), null);
+    assert.equal(bus.getDeadLetter(rejected.id), null);
+    assert.equal((db.prepare('SELECT COUNT(*) AS count FROM messages_archive WHERE id = ?').get(request.id) as { count: number }).count, 1);
+  });
+
+  test('DeadLetterWorker should retry due dead letters and resolve them on delivery', () => {
+    const worker = new DeadLetterWorker(bus);
+    const direct = bus.sendMultiRecipient('ops', 'a', 's1', 'restart the worker', ['b']);
+    const deadLetter = bus.addToDeadLetter(direct.id, 'test');
+    assert.equal(worker.processDueRetries(), 0);
+
+    makeDue(deadLetter.id);
+    assert.equal(worker.processDueRetries(), 1);
+    assert.equal(worker.processDueRetries(), 0);
+
+    worker.start(60000);
+    try {
+      bus.acknowledgeMessage(bus.getDeadLetter(deadLetter.id)!.retry_message_id!, 'b');
+      assert.ok(bus.getDeadLetter(deadLetter.id)!.resolved_at);
+    } finally {
+      worker.stop();
+    }
+  });
+});
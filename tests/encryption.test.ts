@@ -0,0 +1,128 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import { readdirSync, statSync } from 'fs';
+import { MessageBus, ENCRYPTED_PLACEHOLDER } from '../src/mcp-server/bus.js';
+import { KeyStore, generateEncryptionKeyPair, openSealedForRecipient, sealContent } from '../src/mcp-server/encryption.js';
+import { generateSigningKeyPair, signPayload, signingPayload } from '../src/mcp-server/signing.js';
+import { useTestBus } from './helpers.js';
+
+describe('Encrypted messages', () => {
+  let tempDir: string;
+  let db: Database.Database;
+  let bus: MessageBus;
+  let keyStore: KeyStore;
+
+  useTestBus(env => {
+    ({ tempDir, db, bus } = env);
+    keyStore = new KeyStore(join(tempDir, 'keys'));
+  });
+
+  function publish(agentId: string): void {
+    // 2048-bit keys keep the tests fast; the CLI generates 4096-bit keys
+    const { publicKey, privateKey } = generateEncryptionKeyPair(2048);
+    keyStore.savePrivateKey(agentId, privateKey);
+    bus.publishPublicKey(agentId, publicKey);
+  }
+
+  test('should store only ciphertext and decrypt for each recipient', () => {
+    publish('alice');
+    publish('bob');
+    publish('eve');
+
+    const sent = bus.sendDirectMessage('alice', 'bob', 's1', 'db password: hunter2', { encrypt: true });
+    assert.equal(sent.content, ENCRYPTED_PLACEHOLDER);
+    assert.equal(sent.encrypted, 1);
+
+    const raw = db.prepare('SELECT * FROM encrypted_messages WHERE message_id = ?').get(sent.id) as { encrypted_content: string };
+    assert.ok(!raw.encrypted_content.includes('hunter2'));
+    assert.deepEqual(Object.keys(bus.getSealedContent(sent.id)!.recipient_keys).sort(), ['alice', 'bob']);
+
+    const [forBob] = bus.decryptMessages([sent], 'bob', keyStore.loadPrivateKey('bob'));
+    assert.equal(forBob.content, 'db password: hunter2');
+    assert.equal(forBob.encrypted, 0);
+
+    const [forEve] = bus.decryptMessages([sent], 'eve', keyStore.loadPrivateKey('eve'));
+    assert.equal(forEve.content, ENCRYPTED_PLACEHOLDER);
+    assert.equal(forEve.encrypted, 1);
+
+    assert.equal(statSync(join(tempDir, 'keys', 'bob.encryption.pem')).mode & 0o777, 0o600);
+  });
+
+  test('should refuse to encrypt for agents without a published key', () => {
+    publish('alice');
+    assert.throws(
+      () => bus.sendDirectMessage('alice', 'bob', 's1', 'secret', { encrypt: true }),
+      /no public key published for bob/
+    );
+    assert.equal((db.prepare('SELECT COUNT(*) AS count FROM messages').get() as { count: number }).count, 0);
+  });
+
+  test('should seal for channel subscribers and clean up ciphertext on expiry', () => {
+    publish('alice');
+    publish('bob');
+    bus.registerAgent('bob', 's2');
+    bus.subscribeToChannel('bob', 's2', 'ops');
+
+    const recipients = bus.getEncryptionRecipients('ops', 'alice');
+    assert.deepEqual(recipients, ['alice', 'bob']);
+
+    const sent = bus.sendMessage('ops', 'alice', 's1', 'token', { encryptFor: recipients });
+    db.prepare("UPDATE messages SET expires_at = datetime('now', '-1 second') WHERE id = ?").run(sent.id);
+
+    assert.equal(bus.cleanupExpiredMessages(), 1);
+    assert.equal(bus.getSealedContent(sent.id), null);
+  });
+
+  test('should store content sealed by the client and hand each reader its wrapped key', () => {
+    publish('alice');
+    publish('bob');
+    publish('eve');
+    const signing = generateSigningKeyPair();
+    bus.publishSigningKey('alice', signing.publicKey);
+
+    const sealed = sealContent('db password: hunter2', [bus.getPublicKey('alice')!, bus.getPublicKey('bob')!]);
+    const sign = (content: string, nonce: string) => {
+      const signed = { messageType: 'broadcast' as const, recipients: [], replyTo: null, nonce, signedAt: new Date().toISOString() };
+      return { signature: signPayload(signingPayload('dm:alice:bob', 'alice', content, signed), signing.privateKey), nonce, signedAt: signed.signedAt };
+    };
+    assert.throws(
+      () => bus.sendMessage('dm:alice:bob', 'alice', 's1', '', { sealed, ...sign('db password: hunter2', 'n1') }),
+      /Invalid signature/
+    );
+    const sent = bus.sendMessage('dm:alice:bob', 'alice', 's1', '', { sealed, ...sign(sealed.encrypted_content, 'n2') });
+    assert.equal(sent.content, ENCRYPTED_PLACEHOLDER);
+
+    const [forBob] = bus.verifyMessages(bus.attachSealedContent([sent], 'bob'));
+    assert.equal(forBob.verified, true);
+    assert.equal(forBob.content, ENCRYPTED_PLACEHOLDER);
+    assert.equal(openSealedForRecipient(forBob.sealed!, 'bob', keyStore.loadPrivateKey('bob')!), 'db password: hunter2');
+
+    const [forEve] = bus.attachSealedContent([sent], 'eve');
+    assert.equal(forEve.sealed, undefined);
+
+    assert.throws(
+      () => bus.sendMessage('dm:alice:bob', 'alice', 's1', '', { sealed: { ...sealed, recipient_keys: {} } }),
+      /recipient_keys must map at least one agent ID/
+    );
+  });
+
+  test('should keep replaced private keys so older messages still open', () => {
+    publish('alice');
+    publish('bob');
+    const before = bus.sendDirectMessage('alice', 'bob', 's1', 'sealed before rotation', { encrypt: true });
+
+    publish('bob');
+    const after = bus.sendDirectMessage('alice', 'bob', 's1', 'sealed after rotation', { encrypt: true });
+
+    const keys = keyStore.loadPrivateKeys('bob');
+    assert.equal(keys.length, 2);
+    assert.equal(keys[0], keyStore.loadPrivateKey('bob'));
+    assert.equal(readdirSync(join(tempDir, 'keys')).filter(name => name.startsWith('bob.encryption.')).length, 2);
+
+    const opened = bus.decryptMessages([before, after], 'bob', keys);
+    assert.deepEqual(opened.map(m => m.content), ['sealed before rotation', 'sealed after rotation']);
+    assert.equal(bus.decryptMessages([before], 'bob', keyStore.loadPrivateKey('bob'))[0].encrypted, 1);
+  });
+});
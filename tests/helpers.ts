@@ -0,0 +1,34 @@
+import { beforeEach, afterEach } from 'node:test';
+import type Database from 'better-sqlite3';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { mkdtempSync, rmSync } from 'fs';
+import { initializeDatabase } from '../src/mcp-server/database.js';
+import { MessageBus } from '../src/mcp-server/bus.js';
+
+export interface TestBus {
+  tempDir: string;
+  db: Database.Database;
+  bus: MessageBus;
+}
+
+/**
+ * Gives every test in the enclosing describe a fresh database and bus in a
+ * temporary directory, removed after the test. setup receives them before
+ * each test, e.g. to assign the describe's own variables.
+ */
+export function useTestBus(setup: (env: TestBus) => void): void {
+  let env: TestBus;
+
+  beforeEach(() => {
+    const tempDir = mkdtempSync(join(tmpdir(), 'agent-bus-test-'));
+    const db = initializeDatabase(join(tempDir, 'test.db'));
+    env = { tempDir, db, bus: new MessageBus(db) };
+    setup(env);
+  });
+
+  afterEach(() => {
+    env.db.close();
+    rmSync(env.tempDir, { recursive: true, force: true });
+  });
+}
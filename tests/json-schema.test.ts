@@ -0,0 +1,93 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { jsonSchemaToZod } from '../src/utils/json-schema.js';
+
+function isValid(schema: Record<string, unknown>, value: unknown): boolean {
+  return jsonSchemaToZod(schema).safeParse(value).success;
+}
+
+describe('JSON Schema to Zod', () => {
+  test('should enforce enum and const', () => {
+    assert.equal(isValid({ enum: ['low', 'high', 3] }, 'high'), true);
+    assert.equal(isValid({ enum: ['low', 'high', 3] }, 'medium'), false);
+    assert.equal(isValid({ type: 'object', properties: { kind: { const: 'vote' } }, required: ['kind'] }, { kind: 'vote' }), true);
+    assert.equal(isValid({ const: { a: [1, 2] } }, { a: [1, 2] }), true);
+    assert.equal(isValid({ const: { a: [1, 2] } }, { a: [2, 1] }), false);
+  });
+
+  test('should combine oneOf, anyOf and allOf', () => {
+    const oneOf = { oneOf: [{ type: 'integer' }, { type: 'number', minimum: 10 }] };
+    assert.equal(isValid(oneOf, 2.5), false);
+    assert.equal(isValid(oneOf, 3), true);
+    assert.equal(isValid(oneOf, 12), false);
+    assert.equal(isValid(oneOf, 12.5), true);
+
+    assert.equal(isValid({ anyOf: [{ type: 'string' }, { type: 'null' }] }, null), true);
+    assert.equal(isValid({ anyOf: [{ type: 'string' }, { type: 'null' }] }, 1), false);
+
+    const allOf = {
+      allOf: [
+        { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+        { type: 'object', properties: { score: { type: 'number' } }, required: ['score'] }
+      ]
+    };
+    assert.equal(isValid(allOf, { id: 'a', score: 1 }), true);
+    assert.equal(isValid(allOf, { id: 'a' }), false);
+  });
+
+  test('should resolve $ref through $defs, including recursion', () => {
+    const schema = {
+      $defs: {
+        node: {
+          type: 'object',
+          properties: {
+            name: { type: 'string' },
+            children: { type: 'array', items: { $ref: '#/$defs/node' } }
+          },
+          required: ['name']
+        }
+      },
+      $ref: '#/$defs/node'
+    };
+    assert.equal(isValid(schema, { name: 'root', children: [{ name: 'leaf', children: [] }] }), true);
+    assert.equal(isValid(schema, { name: 'root', children: [{ children: [] }] }), false);
+    assert.throws(() => jsonSchemaToZod({ $ref: '#/$defs/missing' }), /Unresolvable \$ref/);
+  });
+
+  test('should validate string formats and length constraints', () => {
+    assert.equal(isValid({ type: 'string', format: 'email' }, 'agent@example.com'), true);
+    assert.equal(isValid({ type: 'string', format: 'email' }, 'not-an-email'), false);
+    assert.equal(isValid({ type: 'string', format: 'date-time' }, '2026-01-20T15:30:00Z'), true);
+    assert.equal(isValid({ type: 'string', format: 'date' }, '2026-02-30x'), false);
+    assert.equal(isValid({ type: 'string', format: 'uuid' }, '4f0c8a4e-2b7d-4a8e-9a56-0d2d6c1f9b3a'), true);
+    assert.equal(isValid({ type: 'string', minLength: 2, maxLength: 3 }, 'abcd'), false);
+    assert.equal(isValid({ type: 'string', pattern: '^task_' }, 'task_1'), true);
+  });
+
+  test('should apply numeric and array constraints', () => {
+    const schema = { type: 'number', minimum: 0, exclusiveMaximum: 1 };
+    assert.equal(isValid(schema, 0), true);
+    assert.equal(isValid(schema, 1), false);
+    assert.equal(isValid({ type: 'integer', multipleOf: 5 }, 15), true);
+    assert.equal(isValid({ type: 'integer' }, 1.5), false);
+    assert.equal(isValid({ type: 'array', items: { type: 'string' }, minItems: 1, uniqueItems: true }, ['a', 'a']), false);
+    assert.equal(isValid({ type: 'array', maxItems: 2 }, [1, 2, 3]), false);
+  });
+
+  test('should honour additionalProperties', () => {
+    const closed = { type: 'object', properties: { vote: { type: 'string' } }, additionalProperties: false };
+    assert.equal(isValid(closed, { vote: 'AGREE' }), true);
+    assert.equal(isValid(closed, { vote: 'AGREE', extra: true }), false);
+
+    const typed = { type: 'object', additionalProperties: { type: 'number' } };
+    assert.equal(isValid(typed, { a: 1, b: 2 }), true);
+    assert.equal(isValid(typed, { a: 'x' }), false);
+
+    assert.equal(isValid({ type: 'object' }, { anything: 'goes' }), true);
+  });
+
+  test('should accept type arrays', () => {
+    assert.equal(isValid({ type: ['string', 'null'] }, null), true);
+    assert.equal(isValid({ type: ['string', 'null'] }, 1), false);
+  });
+});
@@ -0,0 +1,357 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import { join } from 'path';
+import { writeFileSync } from 'fs';
+import { MessageBus } from '../src/mcp-server/bus.js';
+import { Orchestrator } from '../src/mcp-server/orchestrator.js';
+import { FileTransferManager } from '../src/mcp-server/file-transfer.js';
+import { useTestBus } from './helpers.js';
+
+describe('Orchestrator dependencies', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let orchestrator: Orchestrator;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    orchestrator = new Orchestrator(db, bus);
+  });
+
+  function complete(taskId: string): void {
+    orchestrator.assignTask(taskId, 'worker');
+    orchestrator.acceptTask(taskId, 'worker');
+    orchestrator.submitResult(taskId, 'worker', 'done');
+    orchestrator.approveResult(taskId, 'worker');
+  }
+
+  test('should block until all upstream tasks succeed', () => {
+    const build = orchestrator.createTask('Build', 'lead');
+    const lint = orchestrator.createTask('Lint', 'lead');
+    const deploy = orchestrator.createTask('Deploy', 'lead', undefined, 0, { dependsOn: [build.id, lint.id] });
+
+    assert.equal(build.status, 'ready');
+    assert.equal(deploy.status, 'blocked');
+    assert.throws(() => orchestrator.assignTask(deploy.id, 'worker'), /blocked/);
+
+    complete(build.id);
+    assert.equal(orchestrator.getTask(deploy.id)!.status, 'blocked');
+
+    complete(lint.id);
+    assert.equal(orchestrator.getTask(deploy.id)!.status, 'ready');
+
+    const announcements = bus.getMessages('coordination', { limit: 50 })
+      .map(m => JSON.parse(m.content).payload)
+      .filter(p => p.task_id === deploy.id)
+      .map(p => p.status);
+    assert.deepEqual(announcements, ['task_blocked', 'task_ready']);
+  });
+
+  test('should apply one_failed and propagate upstream failures', () => {
+    const tests = orchestrator.createTask('Tests', 'lead');
+    const report = orchestrator.createTask('Report failure', 'lead', undefined, 0, {
+      dependsOn: [tests.id],
+      triggerRule: 'one_failed'
+    });
+    const release = orchestrator.createTask('Release', 'lead', undefined, 0, { dependsOn: [tests.id] });
+
+    db.prepare("UPDATE orch_tasks SET status = 'failed' WHERE id = ?").run(tests.id);
+    assert.equal(orchestrator.promoteBlockedTasks(), 2);
+
+    assert.equal(orchestrator.getTask(report.id)!.status, 'ready');
+    assert.equal(orchestrator.getTask(release.id)!.status, 'upstream_failed');
+  });
+
+  test('should wait for optional dependencies without requiring success', () => {
+    const docs = orchestrator.createTask('Docs', 'lead');
+    const publish = orchestrator.createTask('Publish', 'lead', undefined, 0, {
+      dependsOn: [{ task_id: docs.id, dependency_type: 'optional' }]
+    });
+    assert.equal(publish.status, 'blocked');
+
+    db.prepare("UPDATE orch_tasks SET status = 'failed' WHERE id = ?").run(docs.id);
+    orchestrator.promoteBlockedTasks();
+    assert.equal(orchestrator.getTask(publish.id)!.status, 'ready');
+  });
+
+  test('should wait for optional dependencies under one_failed instead of skipping', () => {
+    const docs = orchestrator.createTask('Docs', 'lead');
+    const cleanup = orchestrator.createTask('Clean up', 'lead', undefined, 0, {
+      dependsOn: [{ task_id: docs.id, dependency_type: 'optional' }],
+      triggerRule: 'one_failed'
+    });
+    assert.equal(cleanup.status, 'blocked');
+
+    db.prepare("UPDATE orch_tasks SET status = 'completed' WHERE id = ?").run(docs.id);
+    orchestrator.promoteBlockedTasks();
+    assert.equal(orchestrator.getTask(cleanup.id)!.status, 'ready');
+  });
+
+  test('should reject dependency cycles', () => {
+    const a = orchestrator.createTask('A', 'lead');
+    const b = orchestrator.createTask('B', 'lead', undefined, 0, { dependsOn: [a.id] });
+    const c = orchestrator.createTask('C', 'lead', undefined, 0, { dependsOn: [b.id] });
+
+    assert.throws(() => orchestrator.addDependency(a.id, c.id), /cycle/);
+    assert.throws(() => orchestrator.addDependency(a.id, a.id), /itself/);
+    assert.equal(orchestrator.getDependencies(a.id).length, 0);
+    assert.equal(orchestrator.getTask(a.id)!.status, 'ready');
+  });
+});
+
+describe('Orchestrator timeouts', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let orchestrator: Orchestrator;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    orchestrator = new Orchestrator(db, bus);
+  });
+
+  function expireAssignments(taskId: string): void {
+    db.prepare("UPDATE orch_assignments SET assigned_at = datetime('now', '-2 minutes') WHERE task_id = ?").run(taskId);
+  }
+
+  test('should reassign timed-out tasks and fail once retries run out', () => {
+    bus.registerAgent('worker-1', 's1');
+    bus.registerAgent('worker-2', 's2');
+    const task = orchestrator.createTask('Crunch', 'lead', undefined, 0, { timeoutSeconds: 60, maxRetries: 1 });
+    orchestrator.assignTask(task.id, 'worker-1');
+
+    expireAssignments(task.id);
+    assert.deepEqual(orchestrator.sweepTimeouts(), { timed_out: 1, reassigned: 1, failed: 0 });
+
+    const assignments = db.prepare('SELECT agent_id, status FROM orch_assignments WHERE task_id = ? ORDER BY agent_id')
+      .all(task.id);
+    assert.deepEqual(assignments, [
+      { agent_id: 'worker-1', status: 'timed_out' },
+      { agent_id: 'worker-2', status: 'assigned' }
+    ]);
+
+    expireAssignments(task.id);
+    assert.deepEqual(orchestrator.sweepTimeouts(), { timed_out: 1, reassigned: 0, failed: 1 });
+
+    const failed = orchestrator.getTask(task.id)!;
+    assert.equal(failed.status, 'failed');
+    assert.equal(failed.retry_count, 1);
+    assert.match(failed.failure_reason!, /retries exhausted/);
+
+    const rejections = bus.getMessages('coordination', { limit: 50 })
+      .map(m => JSON.parse(m.content))
+      .filter(m => m.type === 'TASK_REJECTED');
+    assert.deepEqual(rejections.map(m => m.payload.agent_id), ['worker-1', 'worker-2']);
+  });
+
+  test('should fail tasks past their deadline', () => {
+    const task = orchestrator.createTask('Report', 'lead', undefined, 0, {
+      deadlineAt: new Date(Date.now() - 1000).toISOString()
+    });
+    const downstream = orchestrator.createTask('Publish', 'lead', undefined, 0, { dependsOn: [task.id] });
+    orchestrator.assignTask(task.id, 'worker-1');
+
+    assert.deepEqual(orchestrator.sweepTimeouts(), { timed_out: 1, reassigned: 0, failed: 1 });
+    assert.equal(orchestrator.getTask(task.id)!.status, 'failed');
+    assert.equal(orchestrator.getTask(downstream.id)!.status, 'upstream_failed');
+  });
+});
+
+describe('Orchestrator capability routing', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let orchestrator: Orchestrator;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    orchestrator = new Orchestrator(db, bus);
+  });
+
+  test('should prefer agents covering more task tags, then lower load', () => {
+    bus.registerAgent('generalist', 's1', {}, { tags: ['review'], max_concurrency: 2 });
+    bus.registerAgent('ts-reviewer', 's2', {}, { tags: ['Review'], languages: ['TypeScript'], max_concurrency: 2 });
+    bus.registerAgent('designer', 's3', {}, { tags: ['ui'] });
+
+    const first = orchestrator.createTask('Review PR', 'lead', undefined, 0, { tags: ['review', 'typescript'] });
+    assert.equal(orchestrator.autoAssign(first.id).candidate.agent_id, 'ts-reviewer');
+
+    const second = orchestrator.createTask('Review docs', 'lead', undefined, 0, { tags: ['review'] });
+    const { candidate } = orchestrator.autoAssign(second.id);
+    assert.equal(candidate.agent_id, 'generalist');
+    assert.deepEqual(candidate.matched_tags, ['review']);
+  });
+
+  test('should skip agents at capacity and fail when nobody is eligible', () => {
+    bus.registerAgent('solo', 's1', {}, { tags: ['deploy'] });
+
+    const first = orchestrator.createTask('Deploy staging', 'lead', undefined, 0, { tags: ['deploy'] });
+    orchestrator.autoAssign(first.id);
+
+    const second = orchestrator.createTask('Deploy prod', 'lead', undefined, 0, { tags: ['deploy'] });
+    assert.equal(orchestrator.rankCandidates(second.id).length, 0);
+    assert.throws(() => orchestrator.autoAssign(second.id), /No active agent/);
+  });
+
+  test('should keep capabilities across heartbeats', () => {
+    bus.registerAgent('worker', 's1', {}, { tools: ['docker'], max_concurrency: 3 });
+    bus.registerAgent('worker', 's1', { status: 'active' });
+
+    assert.deepEqual(bus.getCapabilities('worker'), { tags: [], languages: [], tools: ['docker'], max_concurrency: 3 });
+  });
+});
+
+describe('Orchestrator task lifecycle', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let orchestrator: Orchestrator;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    orchestrator = new Orchestrator(db, bus);
+  });
+
+  test('should address status updates to the creator and assignees only', () => {
+    bus.registerAgent('bystander', 's3');
+    bus.subscribeToChannel('bystander', 's3', 'coordination');
+    const task = orchestrator.createTask('Write docs', 'lead');
+    orchestrator.assignTask(task.id, 'writer');
+    orchestrator.rejectTask(task.id, 'writer', 'No time');
+
+    const statuses = (reader: string) => bus.getMessages('coordination', { reader, limit: 50 })
+      .map(m => JSON.parse(m.content))
+      .map(m => m.payload.status ?? m.type)
+      .sort();
+    assert.deepEqual(statuses('lead'), ['TASK_REJECTED', 'task_assigned', 'task_ready']);
+    // The rejection puts the task back up for assignment
+    assert.deepEqual(statuses('writer'), ['TASK_REJECTED', 'task_assigned', 'task_ready']);
+    assert.deepEqual(statuses('bystander'), []);
+    assert.equal(bus.hasUnackedExternalMessages('bystander', ['coordination']), false);
+  });
+
+  test('should move through start, revision and approval', () => {
+    const task = orchestrator.createTask('Write docs', 'lead');
+    orchestrator.assignTask(task.id, 'writer');
+    assert.equal(orchestrator.getTask(task.id)!.status, 'assigned');
+
+    assert.throws(() => orchestrator.submitResult(task.id, 'writer', 'draft'), /assignment for writer is assigned/);
+    assert.equal(orchestrator.acceptTask(task.id, 'writer'), true);
+    assert.equal(orchestrator.startTask(task.id, 'writer').status, 'in_progress');
+    assert.equal(orchestrator.getTask(task.id)!.status, 'in_progress');
+
+    orchestrator.submitResult(task.id, 'writer', 'draft');
+    assert.equal(orchestrator.requestRevision(task.id, 'writer', 'Add examples').status, 'revision_requested');
+    assert.throws(() => orchestrator.approveResult(task.id, 'writer'), /revision_requested/);
+
+    orchestrator.startTask(task.id, 'writer');
+    orchestrator.submitResult(task.id, 'writer', 'draft with examples');
+    orchestrator.approveResult(task.id, 'writer', 'Looks good');
+
+    assert.equal(orchestrator.getTask(task.id)!.status, 'completed');
+    const results = db.prepare('SELECT result_data, approved FROM orch_results WHERE task_id = ? ORDER BY rowid').all(task.id);
+    assert.deepEqual(results, [
+      { result_data: 'draft', approved: 0 },
+      { result_data: 'draft with examples', approved: 1 }
+    ]);
+  });
+
+  test('should wait for every blocking assignee before completing', () => {
+    const task = orchestrator.createTask('Audit', 'lead');
+    for (const agent of ['a', 'b']) {
+      orchestrator.assignTask(task.id, agent);
+      orchestrator.acceptTask(task.id, agent);
+    }
+    orchestrator.assignTask(task.id, 'observer', false);
+
+    orchestrator.submitResult(task.id, 'a', 'ok');
+    orchestrator.approveResult(task.id, 'a');
+    assert.equal(orchestrator.getTask(task.id)!.status, 'in_progress');
+
+    orchestrator.submitResult(task.id, 'b', 'ok');
+    orchestrator.approveResult(task.id, 'b');
+    assert.equal(orchestrator.getTask(task.id)!.status, 'completed');
+
+    const observer = orchestrator.getAssignments(task.id).find(a => a.agent_id === 'observer')!;
+    assert.equal(observer.status, 'cancelled');
+  });
+
+  test('should fail the task when a blocking assignee fails', () => {
+    const task = orchestrator.createTask('Migrate', 'lead');
+    orchestrator.assignTask(task.id, 'a');
+    orchestrator.acceptTask(task.id, 'a');
+    orchestrator.failTask(task.id, 'a', 'schema mismatch');
+
+    const failed = orchestrator.getTask(task.id)!;
+    assert.equal(failed.status, 'failed');
+    assert.match(failed.failure_reason!, /schema mismatch/);
+  });
+
+  test('should return rejected tasks to ready and only let the creator cancel', () => {
+    const task = orchestrator.createTask('Triage', 'lead');
+    orchestrator.assignTask(task.id, 'a');
+    orchestrator.rejectTask(task.id, 'a', 'busy');
+    assert.equal(orchestrator.getTask(task.id)!.status, 'ready');
+
+    orchestrator.assignTask(task.id, 'b');
+    assert.throws(() => orchestrator.cancelTask(task.id, 'b'), /Only the task creator/);
+    assert.equal(orchestrator.cancelTask(task.id, 'lead', 'no longer needed').status, 'cancelled');
+    assert.equal(orchestrator.getAssignments(task.id)[1].status, 'cancelled');
+    assert.throws(() => orchestrator.cancelTask(task.id, 'lead'), /from cancelled to cancelled/);
+
+    assert.deepEqual(orchestrator.getStatus().tasks, { cancelled: 1 });
+  });
+});
+
+describe('Orchestrator result artifacts', () => {
+  let tempDir: string;
+  let db: Database.Database;
+  let fileTransfer: FileTransferManager;
+  let orchestrator: Orchestrator;
+
+  useTestBus(env => {
+    ({ tempDir, db } = env);
+    fileTransfer = new FileTransferManager(db, join(tempDir, 'files'));
+    orchestrator = new Orchestrator(db, env.bus, fileTransfer);
+  });
+
+  async function upload(agentId: string, accessMode: 'private' | 'public', allowedAgents: string[] = []) {
+    const path = join(tempDir, `${agentId}-report.json`);
+    writeFileSync(path, '{"ok":true}');
+    return fileTransfer.uploadFile(agentId, 's1', path, accessMode, allowedAgents);
+  }
+
+  function startTask(): string {
+    const task = orchestrator.createTask('Benchmark', 'lead');
+    orchestrator.assignTask(task.id, 'worker');
+    orchestrator.acceptTask(task.id, 'worker');
+    return task.id;
+  }
+
+  test('should attach artifacts and metrics to results', async () => {
+    const file = await upload('worker', 'private', ['lead']);
+    const taskId = startTask();
+
+    orchestrator.submitResult(taskId, 'worker', 'done', {
+      artifacts: [file.id],
+      metrics: { duration_ms: 1200, tokens: 5000, cost_usd: 0.04 }
+    });
+
+    const [result] = orchestrator.getTaskDetails(taskId).results;
+    assert.deepEqual(result.execution_metrics, { duration_ms: 1200, tokens: 5000, cost_usd: 0.04 });
+    assert.equal(result.artifacts[0].file_id, file.id);
+    assert.equal(result.artifacts[0].filename, 'worker-report.json');
+    assert.equal(result.artifacts[0].available, true);
+  });
+
+  test('should reject artifacts the reviewer cannot use', async () => {
+    const foreign = await upload('someone-else', 'public');
+    const hidden = await upload('worker', 'private');
+    const taskId = startTask();
+
+    assert.throws(() => orchestrator.submitResult(taskId, 'worker', 'done', { artifacts: [foreign.id] }), /uploaded by someone-else/);
+    assert.throws(() => orchestrator.submitResult(taskId, 'worker', 'done', { artifacts: [hidden.id] }), /not shared with task creator lead/);
+    assert.throws(() => orchestrator.submitResult(taskId, 'worker', 'done', { artifacts: ['file_missing'] }), /not found/);
+    assert.throws(() => orchestrator.submitResult(taskId, 'worker', 'done', { metrics: { tokens: -1 } }), /non-negative/);
+
+    assert.equal(orchestrator.getResults(taskId).length, 0);
+    assert.equal(orchestrator.getAssignments(taskId)[0].status, 'accepted');
+  });
+});
@@ -0,0 +1,235 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import { MessageBus } from '../src/mcp-server/bus.js';
+import { MessageScheduler } from '../src/mcp-server/scheduler.js';
+import { Orchestrator } from '../src/mcp-server/orchestrator.js';
+import { renderTemplate, validateTemplate } from '../src/mcp-server/template.js';
+import { useTestBus } from './helpers.js';
+
+describe('MessageScheduler templates', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let scheduler: MessageScheduler;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    scheduler = new MessageScheduler(db, bus);
+  });
+
+  function fireDue(): void {
+    db.prepare("UPDATE recurring_messages SET next_send_at = datetime('now', '-1 second')").run();
+    scheduler.processScheduledMessages();
+  }
+
+  test('should render variables and filters without evaluating anything else', () => {
+    const context = { name: 'ops', task: { result: 'all green across the fleet' }, missing: null };
+    assert.equal(
+      renderTemplate('{{ name | upper }}: {{task.result|truncate:9}} ({{ missing | default:"n/a" }})', context),
+      'OPS: all green… (n/a)'
+    );
+    // Anything that isn't a placeholder stays as written
+    assert.equal(renderTemplate('{{ 1 + 1 }} {"a":{"b":1}} {{constructor.name}}', {}), '{{ 1 + 1 }} {"a":{"b":1}} ');
+
+    assert.throws(() => validateTemplate('{{ secrets }}', ['name']), /Unknown template variable "secrets"/);
+    assert.throws(() => validateTemplate('{{ name | eval }}', ['name']), /Unknown template filter "eval"/);
+  });
+
+  test('should fill in run count, channel stats and the last approved task when firing', () => {
+    const orchestrator = new Orchestrator(db, bus);
+    const task = orchestrator.createTask('Dependency audit', 'lead');
+    orchestrator.assignTask(task.id, 'worker');
+    orchestrator.acceptTask(task.id, 'worker');
+    orchestrator.submitResult(task.id, 'worker', '3 outdated packages');
+    orchestrator.approveResult(task.id, 'worker');
+    bus.sendMessage('digest', 'worker', 's1', 'unread');
+
+    const recurring = scheduler.createRecurring(
+      'digest', 'lead', 's0',
+      'Digest #{{run_count}}: {{channel.unacked_count}} unacked; last approved: {{ last_approved_task.title }} ({{ last_approved_task.result }})',
+      'interval:3600'
+    );
+    assert.throws(() => scheduler.createRecurring('digest', 'lead', 's0', '{{ nope }}', 'interval:60'), /Unknown template variable/);
+
+    fireDue();
+    fireDue();
+    const digests = bus.getMessages('digest').filter(m => m.sender_agent === 'lead').map(m => m.content);
+    assert.deepEqual(digests, [
+      'Digest #1: 1 unacked; last approved: Dependency audit (3 outdated packages)',
+      'Digest #2: 2 unacked; last approved: Dependency audit (3 outdated packages)'
+    ]);
+    assert.equal(scheduler.listScheduled('lead').find(r => r.id === recurring.id)!.run_count, 2);
+  });
+});
+
+describe('MessageScheduler misfires', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let scheduler: MessageScheduler;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    scheduler = new MessageScheduler(db, bus);
+  });
+
+  test('should apply the misfire policy to runs missed while down', () => {
+    const policies = ['fire_once', 'fire_all', 'skip'] as const;
+    const schedules = policies.map(policy => scheduler.createRecurring(
+      policy, 'ops', 's1', 'Report #{{run_count}} ({{missed_runs}} missed)', 'interval:3600', { misfirePolicy: policy }
+    ));
+    // Down for three and a half hours: four hourly runs were missed
+    db.prepare("UPDATE recurring_messages SET next_send_at = datetime('now', '-210 minutes')").run();
+    scheduler.processScheduledMessages();
+
+    const sent = (channel: string) => bus.getMessages(channel).map(m => m.content);
+    assert.deepEqual(sent('fire_once'), ['Report #1 (3 missed)']);
+    assert.deepEqual(sent('fire_all'), ['Report #1 (0 missed)', 'Report #2 (0 missed)', 'Report #3 (0 missed)', 'Report #4 (0 missed)']);
+    assert.deepEqual(sent('skip'), []);
+
+    const summaries = new Map(scheduler.listScheduled('ops').map(s => [s.channel, s]));
+    assert.deepEqual(policies.map(p => [summaries.get(p)!.last_outcome, summaries.get(p)!.missed_count]), [
+      ['sent', 3], ['sent', 0], ['missed', 4]
+    ]);
+    // Each schedule resumes at its next slot after now, 30 minutes away
+    const nextIn = (new Date(`${summaries.get('skip')!.next_send_at.replace(' ', 'T')}Z`).getTime() - Date.now()) / 60000;
+    assert.ok(nextIn > 28 && nextIn <= 30, `next run in ${nextIn} minutes`);
+
+    const runs = scheduler.getRunHistory(schedules[0].id);
+    assert.deepEqual(runs.map(r => r.outcome), ['sent', 'missed', 'missed', 'missed']);
+    assert.equal(runs[0].message_id, bus.getMessages('fire_once')[0].id);
+    assert.throws(() => scheduler.createRecurring('x', 'ops', 's1', 'hi', 'interval:60', { misfirePolicy: 'never' as 'skip' }), /misfire_policy must be one of/);
+  });
+
+  test('should fire one-time messages once and record failed runs', () => {
+    const once = scheduler.createScheduled('global', 'ops', 's1', 'maintenance starts now', new Date(Date.now() - 1000).toISOString());
+    bus.createChannel('tiny');
+    bus.setChannelPolicy('tiny', { maxMessageBytes: 8 });
+    const failing = scheduler.createRecurring('tiny', 'ops', 's1', 'far too long for this channel', 'interval:60');
+    db.prepare("UPDATE recurring_messages SET next_send_at = datetime('now', '-1 second') WHERE id = ?").run(failing.id);
+
+    scheduler.processScheduledMessages();
+    scheduler.processScheduledMessages();
+    assert.deepEqual(bus.getMessages('global').map(m => m.content), ['maintenance starts now']);
+
+    const [summary] = scheduler.listScheduled('ops', false);
+    assert.equal(summary.id, once.id);
+    assert.equal(summary.last_outcome, 'sent');
+
+    const [failed] = scheduler.getRunHistory(failing.id);
+    assert.equal(failed.outcome, 'failed');
+    assert.match(failed.error!, /accepts at most 8/);
+    assert.equal(scheduler.listScheduled(undefined, true, 'tiny')[0].last_outcome, 'failed');
+  });
+});
+
+describe('MessageScheduler editing', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let scheduler: MessageScheduler;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    scheduler = new MessageScheduler(db, bus);
+  });
+
+  function fireDue(): void {
+    db.prepare("UPDATE recurring_messages SET next_send_at = datetime('now', '-1 second')").run();
+    scheduler.processScheduledMessages();
+  }
+
+  test('should edit, pause and resume a schedule without changing its ID', () => {
+    const recurring = scheduler.createRecurring('ops', 'lead', 's1', 'standup', 'interval:60', { maxOccurrences: 3 });
+    fireDue();
+
+    const updated = scheduler.updateScheduled(recurring.id, 'lead', {
+      content: 'standup #{{run_count}}', channel: 'team', schedule: '0 9 * * *', timezone: 'Europe/Berlin', expiresAt: '2099-01-01T00:00:00Z'
+    })!;
+    assert.equal(updated.id, recurring.id);
+    assert.equal(updated.schedule_cron, '0 9 * * *');
+    assert.equal(updated.schedule_interval_seconds, null);
+    assert.ok(['07:00:00', '08:00:00'].includes(updated.next_send_at.slice(11)));
+    assert.equal(scheduler.updateScheduled(recurring.id, 'intruder', { content: 'hijacked' }), null);
+    assert.throws(() => scheduler.updateScheduled(recurring.id, 'lead', { schedule: 'interval:0' }), /Invalid interval/);
+    assert.equal(scheduler.updateScheduled(recurring.id, 'lead', { expiresAt: null })!.expires_at, null);
+
+    // Nothing is sent while paused, and the runs that fell in the pause are skipped on resume
+    assert.ok(scheduler.pauseScheduled(recurring.id, 'lead'));
+    fireDue();
+    assert.equal(bus.getMessages('team').length, 0);
+    assert.ok(scheduler.resumeScheduled(recurring.id, 'lead'));
+    assert.ok(new Date(`${scheduler.getRecurringMessage(recurring.id)!.next_send_at.replace(' ', 'T')}Z`).getTime() > Date.now());
+
+    // Stops after the third send
+    fireDue();
+    fireDue();
+    fireDue();
+    assert.deepEqual(bus.getMessages('team').map(m => m.content), ['standup #2', 'standup #3']);
+    assert.equal(scheduler.getRecurringMessage(recurring.id)!.enabled, 0);
+    assert.throws(() => scheduler.resumeScheduled(recurring.id, 'lead'), /raise max_occurrences/);
+    scheduler.updateScheduled(recurring.id, 'lead', { maxOccurrences: null });
+    assert.ok(scheduler.resumeScheduled(recurring.id, 'lead'));
+  });
+});
+
+describe('MessageScheduler task schedules', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let orchestrator: Orchestrator;
+  let scheduler: MessageScheduler;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    orchestrator = new Orchestrator(db, bus);
+    scheduler = new MessageScheduler(db, bus, orchestrator);
+  });
+
+  function fireDue(): void {
+    db.prepare("UPDATE recurring_messages SET next_send_at = datetime('now', '-1 second')").run();
+    scheduler.processScheduledMessages();
+  }
+
+  test('should create and assign a task on each run', () => {
+    bus.registerAgent('auditor', 's1', {}, { tags: ['deps'] });
+    const audit = scheduler.createTaskSchedule('lead', 's0', {
+      title: 'Dependency audit #{{run_count}}',
+      description: 'Check for outdated packages. Previous result: {{ last_approved_task.result | default:"none" }}',
+      tags: ['deps'],
+      assign_to: 'auto'
+    }, '0 2 * * *');
+    assert.equal(audit.action, 'task');
+
+    fireDue();
+    const [run] = scheduler.getRunHistory(audit.id);
+    const task = orchestrator.getTask(run.task_id!)!;
+    assert.equal(task.title, 'Dependency audit #1');
+    assert.equal(task.created_by, 'lead');
+    assert.equal(task.description, 'Check for outdated packages. Previous result: none');
+    assert.equal(task.status, 'assigned');
+
+    // The approved result feeds the next run's description
+    orchestrator.acceptTask(task.id, 'auditor');
+    orchestrator.submitResult(task.id, 'auditor', 'lodash is outdated');
+    orchestrator.approveResult(task.id, 'auditor');
+    fireDue();
+    const second = orchestrator.getTask(scheduler.getRunHistory(audit.id)[0].task_id!)!;
+    assert.equal(second.description, 'Check for outdated packages. Previous result: lodash is outdated');
+    assert.equal(second.status, 'assigned');
+  });
+
+  test('should keep a task it could not assign and record why', () => {
+    const triage = scheduler.createTaskSchedule('lead', 's0', { title: 'Log triage', assign_to: 'auto' }, 'interval:3600');
+    fireDue();
+
+    const [run] = scheduler.getRunHistory(triage.id);
+    assert.equal(run.outcome, 'sent');
+    assert.match(run.error!, /Not assigned: No active agent/);
+    assert.equal(orchestrator.getTask(run.task_id!)!.status, 'ready');
+    assert.equal(scheduler.listScheduled('lead')[0].last_task_id, run.task_id);
+
+    scheduler.updateScheduled(triage.id, 'lead', { task: { title: 'Hourly log triage', tags: ['logs'] } });
+    assert.equal(scheduler.getRecurringMessage(triage.id)!.content_template, 'Hourly log triage');
+    assert.throws(() => scheduler.updateScheduled(triage.id, 'lead', { content: 'hello' }), /change its task template/);
+    assert.throws(() => scheduler.createTaskSchedule('lead', 's0', { title: ' ' }, 'interval:60'), /need a title/);
+    assert.throws(() => scheduler.createTaskSchedule('lead', 's0', { title: 'x', timeout_seconds: 0 }, 'interval:60'), /timeout_seconds/);
+  });
+});
@@ -0,0 +1,54 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import Database from 'better-sqlite3';
+import { MessageBus } from '../src/mcp-server/bus.js';
+import { MessageSearch } from '../src/mcp-server/search.js';
+import { createACPMessage } from '../src/mcp-server/acp-protocol.js';
+import { useTestBus } from './helpers.js';
+
+describe('Message search', () => {
+  let db: Database.Database;
+  let bus: MessageBus;
+  let search: MessageSearch;
+
+  useTestBus(env => {
+    ({ db, bus } = env);
+    search = new MessageSearch(db);
+  });
+
+  test('should rank matches and filter by ACP type', () => {
+    bus.sendMessage('global', 'a', 's1', 'Deploying the payments service now');
+    bus.sendMessage('global', 'b', 's2', 'Lunch?');
+    const envelope = createACPMessage('TASK_COMPLETE', 'c', 's3', { task_id: 't1', summary: 'payments deployed to staging' });
+    const acp = bus.sendMessage('coordination', 'c', 's3', JSON.stringify(envelope));
+
+    const results = search.search('deploy*');
+    assert.equal(results.length, 2);
+    assert.ok(results.every(r => r.snippet.includes('[')));
+
+    const completed = search.search('payments', { acpType: 'TASK_COMPLETE' });
+    assert.deepEqual(completed.map(r => r.id), [acp.id]);
+    assert.deepEqual(search.search('acp_payload:staging').map(r => r.id), [acp.id]);
+    assert.equal(search.search('payments', { sender: 'a', channel: 'global' }).length, 1);
+
+    assert.throws(() => search.search('"unbalanced'), /Invalid search query/);
+  });
+
+  test('should respect recipients, ACLs, expiry and cleanup', () => {
+    bus.sendMultiRecipient('global', 'lead', 's0', 'secret rollout plan', ['a']);
+    bus.createChannel('ops');
+    bus.restrictChannel('ops', 'lead');
+    bus.grantChannelRole('ops', 'a', 'observer', 'lead');
+    bus.sendMessage('ops', 'lead', 's0', 'rollout at noon');
+
+    assert.equal(search.search('rollout', { reader: 'a' }).length, 2);
+    assert.equal(search.search('rollout', { reader: 'b' }).length, 0);
+    assert.equal(search.search('rollout', { reader: null }).length, 0);
+
+    db.prepare("UPDATE messages SET expires_at = datetime('now', '-1 second')").run();
+    assert.equal(search.search('rollout').length, 0);
+    // The addressed message is dead-lettered and kept; the broadcast is deleted along with its index row
+    assert.equal(bus.cleanupExpiredMessages(), 1);
+    assert.equal((db.prepare('SELECT COUNT(*) AS count FROM messages_fts').get() as { count: number }).count, 1);
+  });
+});
@@ -0,0 +1,130 @@
+import { test, describe } from 'node:test';
+import assert from 'node:assert';
+import { randomUUID } from 'crypto';
+import { MessageBus } from '../src/mcp-server/bus.js';
+import { generateEncryptionKeyPair } from '../src/mcp-server/encryption.js';
+import { generateSigningKeyPair, keyChangePayload, signPayload, signingPayload, type SignedFields } from '../src/mcp-server/signing.js';
+import { useTestBus } from './helpers.js';
+
+describe('Signed messages', () => {
+  let bus: MessageBus;
+  const signingKeys = new Map<string, string>();
+
+  useTestBus(env => ({ bus } = env));
+
+  function publish(agentId: string): void {
+    bus.publishPublicKey(agentId, generateEncryptionKeyPair(2048).publicKey);
+    const { publicKey, privateKey } = generateSigningKeyPair();
+    bus.publishSigningKey(agentId, publicKey);
+    signingKeys.set(agentId, privateKey);
+  }
+
+  function signAs(
+    agentId: string,
+    keyOwner: string,
+    channel: string,
+    content: string,
+    fields: Partial<SignedFields> = {}
+  ): { signature: string; nonce: string; signedAt: string } {
+    const signed: SignedFields = {
+      messageType: 'broadcast',
+      recipients: [],
+      replyTo: null,
+      nonce: randomUUID(),
+      signedAt: new Date().toISOString(),
+      ...fields
+    };
+    const signature = signPayload(signingPayload(channel, agentId, content, signed), signingKeys.get(keyOwner)!);
+    return { signature, nonce: signed.nonce, signedAt: signed.signedAt };
+  }
+
+  test('should flag messages verified only when signed with the sender key', () => {
+    publish('lead');
+    publish('mallory');
+
+    bus.sendMessage('global', 'lead', 's1', 'deploy now', signAs('lead', 'lead', 'global', 'deploy now'));
+    bus.sendMessage('global', 'lead', 's2', 'unsigned');
+
+    // A signature is bound to its channel and sender
+    assert.throws(
+      () => bus.sendMessage('global', 'lead', 's3', 'forged', signAs('lead', 'mallory', 'global', 'forged')),
+      /Invalid signature from lead/
+    );
+    assert.throws(
+      () => bus.sendMessage('other', 'lead', 's1', 'deploy now', signAs('lead', 'lead', 'global', 'deploy now')),
+      /Invalid signature/
+    );
+
+    const messages = bus.verifyMessages(bus.getMessages('global'));
+    assert.deepEqual(messages.map(m => [m.content, m.verified]), [['deploy now', true], ['unsigned', false]]);
+  });
+
+  test('should refuse replayed, stale and re-addressed signatures', () => {
+    publish('lead');
+    bus.registerAgent('ops', 's2');
+    const signed = signAs('lead', 'lead', 'global', 'deploy now');
+    bus.sendMessage('global', 'lead', 's1', 'deploy now', signed);
+
+    assert.throws(() => bus.sendMessage('global', 'lead', 's1', 'deploy now', signed), /nonce .* was already used by lead/);
+    assert.throws(
+      () => bus.sendMessage('global', 'lead', 's1', 'deploy now', signAs('lead', 'lead', 'global', 'deploy now', {
+        signedAt: new Date(Date.now() - 10 * 60 * 1000).toISOString()
+      })),
+      /Signature from lead is stale/
+    );
+    assert.throws(
+      () => bus.sendMessage('global', 'lead', 's1', 'deploy now', { signature: signed.signature }),
+      /need the nonce and signed_at/
+    );
+
+    // Type, recipients and thread are covered too
+    const direct = signAs('lead', 'lead', 'global', 'rotate keys', { messageType: 'direct', recipients: ['ops'] });
+    assert.throws(
+      () => bus.sendMessage('global', 'lead', 's1', 'rotate keys', { ...direct, messageType: 'direct', recipients: ['mallory'] }),
+      /Invalid signature/
+    );
+    assert.throws(() => bus.sendMessage('global', 'lead', 's1', 'rotate keys', direct), /Invalid signature/);
+    const sent = bus.sendMessage('global', 'lead', 's1', 'rotate keys', { ...direct, messageType: 'direct', recipients: ['ops'] });
+    assert.equal(bus.verifyMessages([sent])[0].verified, true);
+
+    const reply = signAs('lead', 'lead', 'global', 'done', { replyTo: sent.id });
+    assert.throws(() => bus.sendMessage('global', 'lead', 's1', 'done', reply), /Invalid signature/);
+    bus.sendMessage('global', 'lead', 's1', 'done', { ...reply, replyTo: sent.id });
+  });
+
+  test('should reject unsigned messages on channels that require signatures', () => {
+    publish('lead');
+    bus.createChannel('releases', 'Release approvals', 3600, true);
+
+    assert.throws(() => bus.sendMessage('releases', 'lead', 's1', 'ship it'), /requires signed messages/);
+    bus.sendMessage('releases', 'lead', 's1', 'ship it', signAs('lead', 'lead', 'releases', 'ship it'));
+
+    // Re-creating the channel without the flag keeps the setting
+    assert.equal(bus.createChannel('releases', 'Release approvals').require_signatures, 1);
+    assert.equal(bus.createChannel('releases', 'Release approvals', 3600, false).require_signatures, 0);
+  });
+
+  test('should only let the current signing key replace published keys', () => {
+    const original = generateSigningKeyPair();
+    const encryptionKey = generateEncryptionKeyPair(2048).publicKey;
+    bus.publishAgentKeys('lead', { publicKey: encryptionKey, signingPublicKey: original.publicKey });
+
+    // Republishing the same keys changes nothing and needs no signature
+    bus.publishAgentKeys('lead', { publicKey: encryptionKey });
+
+    const takeover = generateSigningKeyPair();
+    assert.throws(() => bus.publishAgentKeys('lead', { signingPublicKey: takeover.publicKey }), /needs a signature made with its current signing key/);
+    const selfSigned = signPayload(keyChangePayload('lead', null, takeover.publicKey), takeover.privateKey);
+    assert.throws(() => bus.publishAgentKeys('lead', { signingPublicKey: takeover.publicKey }, selfSigned), /needs a signature/);
+    assert.equal(bus.getPublicKey('lead')!.signing_public_key, original.publicKey);
+
+    const rotated = generateSigningKeyPair();
+    const authorized = signPayload(keyChangePayload('lead', null, rotated.publicKey), original.privateKey);
+    assert.equal(bus.publishAgentKeys('lead', { signingPublicKey: rotated.publicKey }, authorized).signing_public_key, rotated.publicKey);
+
+    // Without a signing key there is nothing to authorize a replacement with
+    bus.publishAgentKeys('legacy', { publicKey: encryptionKey });
+    assert.throws(() => bus.publishAgentKeys('legacy', { publicKey: generateEncryptionKeyPair(2048).publicKey }), /no signing key/);
+    assert.throws(() => bus.publishAgentKeys('newcomer', { signingPublicKey: rotated.publicKey }), /publish an encryption key first/);
+  });
+});